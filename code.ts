@@ -3,10 +3,12 @@
  * Main plugin logic for scanning, storing, and syncing design tokens
  */
 
-import { scanAllTokens, getLiteCollections, getCollectionData } from './token-scanner';
-import { saveTokens, loadTokens, loadMetadata } from './token-storage';
-import { DesignTokens, TokenMetadata } from './token-types';
-import { syncTokensToFigma } from './token-sync';
+import { scanAllTokens, previewCategories, inferTokenType, isTypeCompatible, getLiteCollections, getCollectionData, getAllCollectionsData } from './token-scanner';
+import { saveTokens, loadTokens, loadMetadata, loadTemplates, saveTemplates, loadCategoryRules, saveCategoryRules, saveVariableTypeOverride } from './token-storage';
+import { CategoryRule } from './token-categories';
+import { ExportTemplate } from './token-templates';
+import { DesignTokens, TokenMetadata, TokenType } from './token-types';
+import { syncTokensToFigma, SyncOptions } from './token-sync';
 
 /**
  * Initialize the plugin UI
@@ -45,7 +47,7 @@ function initPlugin() {
           break;
 
         case 'sync-to-figma':
-          await handleSyncToFigma(msg.tokens);
+          await handleSyncToFigma(msg.tokens, msg.options);
           break;
 
         // NEW WORKFLOW HANDLERS
@@ -57,6 +59,34 @@ function initPlugin() {
           await handleGetCollectionData(msg.collectionId);
           break;
 
+        case 'get-all-collections-data':
+          await handleGetAllCollectionsData();
+          break;
+
+        case 'load-templates':
+          await handleLoadTemplates();
+          break;
+
+        case 'save-templates':
+          await handleSaveTemplates(msg.templates);
+          break;
+
+        case 'load-category-rules':
+          handleLoadCategoryRules();
+          break;
+
+        case 'save-category-rules':
+          handleSaveCategoryRules(msg.rules);
+          break;
+
+        case 'preview-categories':
+          await handlePreviewCategories(msg.rules);
+          break;
+
+        case 'set-variable-type':
+          await handleSetVariableType(msg.variableId, msg.tokenType);
+          break;
+
         default:
           console.warn('Unknown message type:', msg.type);
       }
@@ -80,8 +110,8 @@ async function handleScanDocument() {
       type: 'scanning-started',
     });
 
-    // Scan all tokens from Figma document
-    const tokens = await scanAllTokens();
+    // Scan all tokens from Figma document, categorized by the rules saved with it
+    const { tokens, skipped } = await scanAllTokens(loadCategoryRules());
 
     // Save scanned tokens
     await saveTokens(tokens);
@@ -95,6 +125,7 @@ async function handleScanDocument() {
       payload: {
         tokens,
         metadata,
+        skipped,
       },
     });
   } catch (error) {
@@ -223,15 +254,23 @@ async function handleImportTokens(importData: { tokens: DesignTokens; metadata?:
 }
 
 /**
- * Sync tokens back to Figma styles
+ * Sync tokens back to Figma variables; with options.dryRun only the planned changes are sent back
  */
-async function handleSyncToFigma(tokens: DesignTokens) {
+async function handleSyncToFigma(tokens: DesignTokens, options?: SyncOptions) {
   try {
     figma.ui.postMessage({
       type: 'syncing-started',
     });
 
-    const result = await syncTokensToFigma(tokens);
+    const result = await syncTokensToFigma(tokens, options);
+
+    if (options?.dryRun) {
+      figma.ui.postMessage({
+        type: 'sync-planned',
+        payload: result
+      });
+      return;
+    }
 
     // Also save the tokens after sync because IDs might have been updated
     await saveTokens(tokens);
@@ -239,7 +278,9 @@ async function handleSyncToFigma(tokens: DesignTokens) {
     figma.ui.postMessage({
       type: 'syncing-completed',
       payload: {
-        message: `Sync complete! Created: ${result.created}, Updated: ${result.updated}`,
+        message: `Sync complete! Created: ${result.created}, Updated: ${result.updated}, Skipped: ${result.skipped.length}`,
+        skipped: result.skipped,
+        changes: result.changes,
         errors: result.errors
       },
       // Send back updated tokens
@@ -250,7 +291,10 @@ async function handleSyncToFigma(tokens: DesignTokens) {
       figma.notify(`Sync complete with ${result.errors.length} errors`, { error: true });
       console.warn('Sync errors:', result.errors);
     } else {
-      figma.notify(`Sync complete! Created: ${result.created}, Updated: ${result.updated}`);
+      figma.notify(`Sync complete! Created: ${result.created}, Updated: ${result.updated}, Skipped: ${result.skipped.length}`);
+    }
+    if (result.skipped.length > 0) {
+      console.warn('Skipped tokens:', result.skipped);
     }
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : String(error);
@@ -299,5 +343,125 @@ async function handleGetCollectionData(collectionId: string) {
   }
 }
 
+async function handleGetAllCollectionsData() {
+  try {
+    const data = await getAllCollectionsData();
+    figma.ui.postMessage({
+      type: 'all-collections-data-loaded',
+      payload: data
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    figma.ui.postMessage({
+      type: 'error',
+      payload: `Error loading collections: ${errorMessage}`
+    });
+  }
+}
+
+/**
+ * Load user-defined export templates
+ */
+async function handleLoadTemplates() {
+  const templates = await loadTemplates();
+  figma.ui.postMessage({
+    type: 'templates-loaded',
+    payload: templates
+  });
+}
+
+/**
+ * Save user-defined export templates
+ */
+async function handleSaveTemplates(templates: ExportTemplate[]) {
+  try {
+    await saveTemplates(templates);
+    figma.ui.postMessage({
+      type: 'templates-saved',
+      payload: templates
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    figma.ui.postMessage({
+      type: 'error',
+      payload: `Error saving templates: ${errorMessage}`
+    });
+  }
+}
+
+/**
+ * Load categorization rules saved with the document
+ */
+function handleLoadCategoryRules() {
+  figma.ui.postMessage({
+    type: 'category-rules-loaded',
+    payload: loadCategoryRules()
+  });
+}
+
+/**
+ * Save categorization rules with the document
+ */
+function handleSaveCategoryRules(rules: CategoryRule[]) {
+  try {
+    saveCategoryRules(rules);
+    figma.ui.postMessage({
+      type: 'category-rules-saved',
+      payload: rules
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    figma.ui.postMessage({
+      type: 'error',
+      payload: `Error saving category rules: ${errorMessage}`
+    });
+  }
+}
+
+/**
+ * Preview which category every token would land in with the given (possibly unsaved) rules
+ */
+async function handlePreviewCategories(rules: CategoryRule[]) {
+  try {
+    const items = await previewCategories(rules);
+    figma.ui.postMessage({
+      type: 'categories-previewed',
+      payload: items
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    figma.ui.postMessage({
+      type: 'error',
+      payload: `Error previewing categories: ${errorMessage}`
+    });
+  }
+}
+
+/**
+ * Override the inferred token type of a variable; null restores inference
+ */
+async function handleSetVariableType(variableId: string, tokenType: TokenType | null) {
+  try {
+    await saveVariableTypeOverride(variableId, tokenType);
+
+    const variable = await figma.variables.getVariableByIdAsync(variableId);
+    const typeOverridden = !!variable && tokenType !== null && isTypeCompatible(tokenType, variable.resolvedType);
+    figma.ui.postMessage({
+      type: 'variable-type-set',
+      payload: {
+        variableId,
+        type: typeOverridden ? tokenType : variable && inferTokenType(variable),
+        typeOverridden
+      }
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    figma.ui.postMessage({
+      type: 'error',
+      payload: `Error setting variable type: ${errorMessage}`
+    });
+  }
+}
+
 // Initialize plugin when loaded
 initPlugin();
@@ -0,0 +1,22 @@
+/**
+ * Test helper: bundle a TypeScript module with esbuild and load it in Node
+ */
+
+const esbuild = require('esbuild');
+const path = require('path');
+
+function load(entry) {
+  const result = esbuild.buildSync({
+    entryPoints: [path.join(__dirname, '..', entry)],
+    bundle: true,
+    write: false,
+    platform: 'node',
+    format: 'cjs',
+  });
+
+  const module = { exports: {} };
+  new Function('module', 'exports', 'require', result.outputFiles[0].text)(module, module.exports, require);
+  return module.exports;
+}
+
+module.exports = { load };
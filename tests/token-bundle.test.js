@@ -0,0 +1,73 @@
+const test = require('node:test');
+const assert = require('node:assert');
+const { load } = require('./load');
+
+const { createExportBundle, createZip } = load('token-bundle.ts');
+
+/**
+ * Read the entries of a stored zip by walking its local file headers
+ */
+function readZip(bytes) {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const decoder = new TextDecoder();
+  const entries = [];
+  let offset = 0;
+  while (view.getUint32(offset, true) === 0x04034b50) {
+    const crc = view.getUint32(offset + 14, true);
+    const size = view.getUint32(offset + 18, true);
+    const nameLength = view.getUint16(offset + 26, true);
+    const extraLength = view.getUint16(offset + 28, true);
+    const dataStart = offset + 30 + nameLength + extraLength;
+    entries.push({
+      path: decoder.decode(bytes.subarray(offset + 30, offset + 30 + nameLength)),
+      crc,
+      content: decoder.decode(bytes.subarray(dataStart, dataStart + size)),
+    });
+    offset = dataStart + size;
+  }
+
+  // End of central directory record
+  const end = bytes.length - 22;
+  assert.strictEqual(view.getUint32(end, true), 0x06054b50);
+  assert.strictEqual(view.getUint16(end + 10, true), entries.length);
+  return entries;
+}
+
+test('zip archives hold every file with its checksum', () => {
+  const entries = readZip(createZip([
+    { path: 'css/brand.css', content: 'hello' },
+    { path: 'manifest.json', content: '{ "name": "ünïcode" }' },
+  ]));
+
+  assert.deepStrictEqual(entries.map(e => e.path), ['css/brand.css', 'manifest.json']);
+  assert.strictEqual(entries[0].crc, 0x3610a686);
+  assert.strictEqual(entries[1].content, '{ "name": "ünïcode" }');
+});
+
+test('bundles lay files out by format and collection with a manifest', () => {
+  const collection = {
+    collectionId: 'c',
+    name: 'Brand Colors',
+    modes: [{ modeId: 'm1', name: 'Light' }, { modeId: 'm2', name: 'Dark' }],
+    variables: [{
+      id: 'v1',
+      name: 'color/blue',
+      type: 'color',
+      isAlias: false,
+      valuesByMode: { m1: { value: '#0000ff', type: 'color' }, m2: { value: '#000080', type: 'color' } },
+    }],
+  };
+  const options = { aliasMode: 'resolved', colorFormat: 'hex', unitFormat: 'px', baseFontSize: 16 };
+
+  const files = createExportBundle([collection], ['css', 'dtcg'], options);
+  assert.deepStrictEqual(files.map(f => f.path), [
+    'css/brand-colors.css',
+    'dtcg/brand-colors/light.tokens.json',
+    'dtcg/brand-colors/dark.tokens.json',
+    'manifest.json',
+  ]);
+
+  const manifest = JSON.parse(files[files.length - 1].content);
+  assert.deepStrictEqual(manifest.collections, ['Brand Colors']);
+  assert.deepStrictEqual(manifest.files[1], { path: 'dtcg/brand-colors/light.tokens.json', format: 'dtcg', collection: 'Brand Colors', modes: ['Light', 'Dark'] });
+});
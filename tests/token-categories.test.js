@@ -0,0 +1,31 @@
+const test = require('node:test');
+const assert = require('node:assert');
+const { load } = require('./load');
+
+const { findCategoryRule, matchesPattern } = load('token-categories.ts');
+
+test('patterns are whole-value globs or /regex/ literals', () => {
+  assert.ok(matchesPattern('Brand/*', 'brand/blue/500'));
+  assert.ok(matchesPattern('grid-??', 'grid-12'));
+  assert.ok(!matchesPattern('grid-??', 'grid-123'));
+  assert.ok(!matchesPattern('Heading', 'Heading/H1'));
+  assert.ok(matchesPattern('/^heading\\/h\\d$/i', 'Heading/H1'));
+  assert.ok(!matchesPattern('/^heading/', 'Heading/H1'));
+  assert.ok(!matchesPattern('/[/', '['), 'invalid regexes match nothing');
+});
+
+test('the first rule matching every condition wins', () => {
+  const subject = { name: 'Heading/H1', collectionName: 'Typography', resolvedType: 'TEXT', isAlias: false };
+  const rules = [
+    { id: 'r1', name: 'Heading/*', isAlias: true, category: 'semantic' },
+    { id: 'r2', collection: 'Colors', category: 'primitives' },
+    { id: 'r3', name: '', category: '' },
+    { id: 'r4', collection: 'Typo*', resolvedType: 'TEXT', category: 'type-scale' },
+    { id: 'r5', name: 'Heading/*', category: 'components' },
+  ];
+
+  assert.strictEqual(findCategoryRule(subject, rules).id, 'r4');
+  assert.strictEqual(findCategoryRule({ ...subject, isAlias: true }, rules).id, 'r1');
+  assert.strictEqual(findCategoryRule({ ...subject, collectionName: 'Other' }, rules).id, 'r5');
+  assert.strictEqual(findCategoryRule({ ...subject, name: 'Body', collectionName: 'Other' }, rules), undefined);
+});
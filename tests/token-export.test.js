@@ -0,0 +1,402 @@
+const test = require('node:test');
+const assert = require('node:assert');
+const { load } = require('./load');
+
+const { generateExport, generateExportFiles, generateCollectionsExport, mergeCollections } = load('token-export.ts');
+const { createExportBundle } = load('token-bundle.ts');
+
+const baseOptions = {
+  aliasMode: 'resolved',
+  colorFormat: 'hex',
+  unitFormat: 'px',
+  baseFontSize: 16,
+};
+
+const spacing = {
+  id: 'v1',
+  name: 'spacing/sm',
+  type: 'spacing',
+  isAlias: false,
+  valuesByMode: {
+    m1: { value: 8, type: 'spacing' },
+    m2: { value: 12, type: 'spacing' },
+  },
+};
+
+const themeModes = [{ modeId: 'm1', name: 'Light' }, { modeId: 'm2', name: 'Dark' }];
+
+/**
+ * A color variable with a Light (m1) and Dark (m2) value; "{name}" values are aliases
+ */
+function color(id, name, light, dark = light, resolved = {}) {
+  const modeValue = (value, resolvedValue) => resolvedValue
+    ? { value, resolvedValue, type: 'color' }
+    : { value, type: 'color' };
+  return {
+    id,
+    name,
+    type: 'color',
+    isAlias: light.startsWith('{'),
+    valuesByMode: { m1: modeValue(light, resolved.m1), m2: modeValue(dark, resolved.m2) },
+  };
+}
+
+const blue = color('c1', 'color/blue', '#0000ff');
+const blue500 = color('c2', 'color/blue/500', '#3366ff', '#112244');
+const textPrimary = color('c3', 'color/text/primary', '{color/blue/500}', '{color/blue/500}', { m1: '#3366ff', m2: '#112244' });
+
+test('dart mode constants avoid reserved words and invalid identifiers', () => {
+  const output = generateExport([spacing], {
+    ...baseOptions,
+    format: 'dart',
+    modes: [{ modeId: 'm1', name: 'Default' }, { modeId: 'm2', name: '2x' }],
+  }, 'Spacing');
+
+  assert.match(output, /static const defaultMode = SpacingTokens\(/);
+  assert.match(output, /static const mode2x = SpacingTokens\(/);
+  assert.doesNotMatch(output, /static const default /);
+});
+
+test('dart field names avoid reserved words, mode constants and each other', () => {
+  const token = (id, name, value) => ({ ...spacing, id, name, valuesByMode: { m1: { value, type: 'spacing' }, m2: { value, type: 'spacing' } } });
+  const output = generateExport([
+    token('d1', 'default', 4),
+    token('d2', 'lerp', 8),
+    token('d3', 'light', 12),
+    token('d4', '2xl', 16),
+    token('d5', 'light-token', 20),
+  ], { ...baseOptions, format: 'dart', modes: themeModes }, 'Spacing');
+
+  assert.match(output, /final double defaultToken;/);
+  assert.match(output, /final double lerpToken;/);
+  assert.match(output, /final double lightToken;/);
+  assert.match(output, /final double token2xl;/);
+  assert.match(output, /final double lightTokenToken;/);
+  assert.match(output, /static const light = SpacingTokens\(\n    defaultToken: 4\.0,/);
+  assert.doesNotMatch(output, /final double (default|lerp|light);/);
+});
+
+const grid = {
+  id: 's1',
+  name: 'grid/desktop',
+  type: 'grid',
+  isAlias: false,
+  valuesByMode: {
+    m1: {
+      value: '12 columns',
+      type: 'grid',
+      composite: { layouts: [{ pattern: 'columns', count: 12, gutter: 24, margin: 32, alignment: 'stretch' }] },
+    },
+  },
+};
+
+test('native and token formats leave out style tokens they cannot represent', () => {
+  const options = { ...baseOptions, modes: [{ modeId: 'm1', name: 'Default' }] };
+
+  for (const format of ['swift', 'compose', 'dart', 'android', 'dtcg', 'tokens-studio']) {
+    const output = generateExport([spacing, grid], { ...options, format }, 'Layout');
+    assert.doesNotMatch(output, /12 columns|desktop/i, format);
+    assert.match(output, /sm/i, format);
+  }
+});
+
+test('native formats export opacity as a unitless ratio', () => {
+  const opacity = {
+    id: 'v2',
+    name: 'opacity/disabled',
+    type: 'opacity',
+    isAlias: false,
+    valuesByMode: { m1: { value: 40, type: 'opacity' } },
+  };
+  const options = { ...baseOptions, modes: [{ modeId: 'm1', name: 'Default' }] };
+  const exportAs = format => generateExport([opacity], { ...options, format }, 'Effects');
+
+  assert.match(exportAs('swift'), /static let opacityDisabled: CGFloat = 0\.4$/m);
+  assert.match(exportAs('android'), /<item name="opacity_disabled" type="dimen" format="float">0\.4<\/item>/);
+  assert.match(exportAs('compose'), /const val opacityDisabled = 0\.4f/);
+  assert.match(exportAs('dart'), /opacityDisabled: 0\.4,/);
+});
+
+test('boolean and string tokens have no DTCG $type', () => {
+  const flag = {
+    id: 'v3',
+    name: 'feature/rounded',
+    type: 'boolean',
+    isAlias: false,
+    valuesByMode: { m1: { value: 'true', type: 'boolean' } },
+  };
+  const options = { ...baseOptions, modes: [{ modeId: 'm1', name: 'Default' }] };
+
+  const dtcg = JSON.parse(generateExport([flag], { ...options, format: 'dtcg' }, 'Flags'));
+  assert.deepStrictEqual(dtcg.feature.rounded, { $value: true, $extensions: { 'com.figma.type': 'boolean' } });
+
+  const studio = generateExport([flag], { ...options, format: 'tokens-studio' }, 'Flags');
+  const set = JSON.parse(studio.slice(studio.indexOf('{'), studio.indexOf('\n}') + 2));
+  assert.deepStrictEqual(set.feature.rounded, { value: true, $extensions: { 'com.figma.type': 'boolean' } });
+});
+
+test('tailwind nests theme sections and keeps aliases as CSS variables', () => {
+  const config = generateExport([blue, blue500, textPrimary, spacing], {
+    ...baseOptions,
+    aliasMode: 'alias',
+    format: 'tailwind',
+    modes: themeModes,
+  }, 'Brand');
+  const theme = JSON.parse(config.slice(config.indexOf('= {') + 2, config.lastIndexOf('}') + 1)).theme.extend;
+
+  assert.deepStrictEqual(theme.colors, {
+    blue: { DEFAULT: '#0000ff', 500: '#3366ff' },
+    text: { primary: 'var(--color-blue-500)' },
+  });
+  assert.deepStrictEqual(theme.spacing, { sm: '8px' });
+});
+
+test('swift switches colors on the trait collection and writes sizes as CGFloat', () => {
+  const output = generateExport([blue, blue500, spacing], { ...baseOptions, format: 'swift', modes: themeModes }, 'Brand');
+
+  assert.match(output, /static let colorBlue = Color\(red: 0, green: 0, blue: 1, opacity: 1\)/);
+  assert.match(output, /static let colorBlue500 = Color\(UIColor \{ traitCollection in\n\s+traitCollection.userInterfaceStyle == .dark\n\s+\? UIColor\(red: 0.067, green: 0.133, blue: 0.267, alpha: 1\)\n\s+: UIColor\(red: 0.2, green: 0.4, blue: 1, alpha: 1\)/);
+  assert.match(output, /public extension CGFloat \{\n\s+static let spacingSm: CGFloat = 8\n\}/);
+});
+
+test('android writes resource files with night colors only where they differ', () => {
+  const output = generateExport([blue, blue500, textPrimary, spacing], {
+    ...baseOptions,
+    aliasMode: 'alias',
+    format: 'android',
+    modes: themeModes,
+  }, 'Brand');
+  const file = path => output.split(`<!-- ${path} -->\n`)[1].split('\n\n')[0];
+
+  assert.match(file('values/colors.xml'), /<color name="color_blue">#FF0000FF<\/color>/);
+  assert.match(file('values/colors.xml'), /<color name="color_text_primary">@color\/color_blue_500<\/color>/);
+  assert.match(file('values/dimens.xml'), /<dimen name="spacing_sm">8dp<\/dimen>/);
+  assert.deepStrictEqual(file('values-night/colors.xml').match(/name="[^"]+"/g), ['name="color_blue_500"']);
+});
+
+test('compose writes one object per mode', () => {
+  const output = generateExport([blue500, spacing], { ...baseOptions, format: 'compose', modes: themeModes }, 'Brand');
+
+  assert.match(output, /object Light \{\n\s+val colorBlue500 = Color\(0xFF3366FF\)\n\s+val spacingSm = 8\.dp\n\s+\}/);
+  assert.match(output, /object Dark \{\n\s+val colorBlue500 = Color\(0xFF112244\)\n\s+val spacingSm = 12\.dp\n\s+\}/);
+});
+
+test('css scopes non-default modes and only repeats values that change', () => {
+  const options = { ...baseOptions, aliasMode: 'alias', format: 'css', modes: themeModes };
+  const css = strategy => generateExport([blue500, textPrimary], { ...options, cssThemeStrategy: strategy }, 'Brand');
+
+  assert.match(css('data-attribute'), /\[data-theme="dark"\] \{\n  --color-blue-500: #112244;\n\}/);
+  assert.match(css('class'), /\.theme-dark \{\n  --color-blue-500: #112244;\n\}/);
+  assert.match(css('media-query'), /@media \(prefers-color-scheme: dark\) \{\n  :root \{\n    --color-blue-500: #112244;\n  \}\n\}/);
+  assert.doesNotMatch(css('data-attribute'), /\[data-theme="dark"\][^}]*text-primary/);
+});
+
+test('naming strategy applies case, prefix and stripped segments to names and aliases', () => {
+  const output = generateExport([blue500, textPrimary], {
+    ...baseOptions,
+    aliasMode: 'alias',
+    format: 'css',
+    modes: themeModes.slice(0, 1),
+    naming: { case: 'snake', prefix: 'acme', stripSegments: ['color/'] },
+  }, 'Brand');
+
+  assert.match(output, /--acme_blue_500: #3366ff;/);
+  assert.match(output, /--acme_text_primary: var\(--acme_blue_500\);/);
+});
+
+test('typescript module lists tokens per mode with typed names', () => {
+  const output = generateExport([blue500, spacing], { ...baseOptions, format: 'ts', modes: themeModes }, 'Brand');
+
+  assert.match(output, /export const tokens = \{\n  "color\.blue\.500": "#3366ff",\n  "spacing\.sm": "8px",\n\} as const;/);
+  assert.match(output, /"dark": \{\n    "color\.blue\.500": "#112244",\n    "spacing\.sm": "12px",\n  \},/);
+  assert.match(output, /export type ColorToken = "color\.blue\.500";/);
+  assert.match(output, /export type TokenMode = keyof typeof tokensByMode;/);
+});
+
+const link = color('c4', 'color/link', '{color/blue}', '{color/blue}', { m1: '#0000ff', m2: '#0000ff' });
+
+test('dtcg keeps aliases as references and moves shared $type up to groups', () => {
+  const tree = JSON.parse(generateExport([blue500, textPrimary, spacing], {
+    ...baseOptions,
+    aliasMode: 'alias',
+    format: 'dtcg',
+    modes: themeModes.slice(0, 1),
+  }, 'Brand'));
+
+  assert.strictEqual(tree.color.$type, 'color');
+  assert.deepStrictEqual(tree.color.blue['500'], { $value: '#3366ff' });
+  assert.deepStrictEqual(tree.color.text.primary, { $value: '{color.blue.500}' });
+  assert.strictEqual(tree.spacing.$type, 'dimension');
+  assert.deepStrictEqual(tree.spacing.sm, { $value: '8px' });
+});
+
+test('dtcg and tokens studio keep a token that is also a group under DEFAULT', () => {
+  const options = { ...baseOptions, aliasMode: 'alias', modes: themeModes.slice(0, 1) };
+
+  const dtcg = JSON.parse(generateExport([blue, blue500, link], { ...options, format: 'dtcg' }, 'Brand'));
+  assert.strictEqual(dtcg.color.blue.DEFAULT.$value, '#0000ff');
+  assert.strictEqual(dtcg.color.blue['500'].$value, '#3366ff');
+  assert.strictEqual(dtcg.color.link.$value, '{color.blue.DEFAULT}');
+
+  const studio = generateExport([link, blue500, blue], { ...options, format: 'tokens-studio' }, 'Brand');
+  const set = JSON.parse(studio.slice(studio.indexOf('{'), studio.indexOf('\n}') + 2));
+  assert.strictEqual(set.color.blue.DEFAULT.value, '#0000ff');
+  assert.strictEqual(set.color.blue['500'].value, '#3366ff');
+  assert.strictEqual(set.color.link.value, '{color.blue.DEFAULT}');
+});
+
+test('tokens studio writes a set per mode with themes and set order', () => {
+  const options = { ...baseOptions, format: 'tokens-studio', modes: themeModes };
+  const files = generateExportFiles([blue500, spacing], options, 'Brand Tokens');
+  const file = path => JSON.parse(files.find(f => f.path === path).content);
+
+  assert.deepStrictEqual(files.map(f => f.path), ['light.json', 'dark.json', '$themes.json', '$metadata.json']);
+  assert.deepStrictEqual(file('dark.json').color.blue['500'], { value: '#112244', type: 'color' });
+  assert.deepStrictEqual(file('light.json').spacing.sm, { value: '8px', type: 'spacing' });
+  assert.deepStrictEqual(file('$metadata.json'), { tokenSetOrder: ['light', 'dark'] });
+  assert.deepStrictEqual(file('$themes.json')[1], {
+    id: 'brand-tokens-dark',
+    name: 'Dark',
+    group: 'Brand Tokens',
+    selectedTokenSets: { dark: 'enabled' },
+  });
+
+  // The preview lists every collection's sets under a cleaned collection folder
+  assert.match(generateExport([blue500], options, 'Brand Tokens'), /brand-tokens\/light\.json/);
+
+  const bundle = createExportBundle([{ collectionId: 'c', name: 'Brand Tokens', modes: themeModes, variables: [blue500] }], ['tokens-studio'], options);
+  assert.ok(bundle.some(f => f.path === 'tokens-studio/brand-tokens/light.json'));
+});
+
+test('all collections export together and keep aliases between them', () => {
+  const blueValue = { ...blue500, valuesByMode: { p1: { value: '#3366ff', type: 'color' } } };
+  const primitives = { collectionId: 'p', name: 'Primitives', modes: [{ modeId: 'p1', name: 'Value' }], variables: [blueValue] };
+  const theme = { collectionId: 't', name: 'Brand Theme', modes: themeModes, variables: [color('c2', 'color/text', '{color/blue/500}', '#ffffff', { m1: '#3366ff' })] };
+  const options = { ...baseOptions, aliasMode: 'alias', format: 'css' };
+
+  // The single-mode primitives apply to every mode of the themed collection
+  const merged = mergeCollections([primitives, theme]);
+  assert.deepStrictEqual(merged.modes.map(m => m.name), ['Light', 'Dark']);
+  assert.strictEqual(merged.variables[0].valuesByMode['merged:Dark'].value, '#3366ff');
+
+  const combined = generateCollectionsExport([primitives, theme], options, 'combined');
+  assert.match(combined, /:root \{\n  --color-blue-500: #3366ff;\n  --color-text: var\(--color-blue-500\);\n\}/);
+  assert.match(combined, /\[data-theme="dark"\] \{\n  --color-text: #ffffff;\n\}/);
+
+  const perCollection = generateCollectionsExport([primitives, theme], options, 'per-collection');
+  assert.match(perCollection, /\/\* primitives\.css \*\//);
+  assert.match(perCollection, /\/\* brand-theme\.css \*\/\n\/\* Mode: Light \(default\) \*\/\n:root \{\n  --color-text: var\(--color-blue-500\);/);
+});
+
+/**
+ * A style token in the single "Default" mode of a style collection
+ */
+function styleToken(id, name, type, value, composite) {
+  return { id, name, type, isAlias: false, valuesByMode: { s1: { value, resolvedValue: value, type, composite } } };
+}
+
+const styleModes = [{ modeId: 's1', name: 'Default' }];
+
+test('typography tokens export as CSS classes and DTCG typography values', () => {
+  const heading = styleToken('t1', 'heading/h1', 'typography', 'italic 600 32px/1.25 "Inter"', {
+    fontFamily: 'Inter',
+    fontWeight: 600,
+    fontStyle: 'italic',
+    fontSize: 32,
+    lineHeight: '125%',
+    letterSpacing: -0.5,
+    textCase: 'uppercase',
+    aliases: { fontSize: 'font/size/xl' },
+  });
+  const options = { ...baseOptions, aliasMode: 'alias', modes: styleModes };
+
+  const css = generateExport([heading], { ...options, format: 'css' }, 'Text Styles');
+  assert.match(css, /--heading-h1: italic 600 var\(--font-size-xl\)\/1\.25 "Inter";/);
+  assert.match(css, /\.heading-h1 \{\n  font-family: "Inter";\n  font-weight: 600;\n  font-style: italic;\n  font-size: var\(--font-size-xl\);\n  line-height: 1\.25;\n  letter-spacing: -0\.5px;\n  text-transform: uppercase;\n\}/);
+
+  const dtcg = JSON.parse(generateExport([heading], { ...options, format: 'dtcg' }, 'Text Styles'));
+  assert.strictEqual(dtcg.heading.$type, 'typography');
+  assert.deepStrictEqual(dtcg.heading.h1.$value, {
+    fontFamily: 'Inter',
+    fontWeight: 600,
+    fontSize: '{font.size.xl}',
+    lineHeight: 1.25,
+    letterSpacing: '-0.5px',
+  });
+});
+
+test('shadow tokens export as box-shadow values and DTCG shadow arrays', () => {
+  const elevation = styleToken('e1', 'elevation/2', 'shadow', '0px 4px 8px 0px rgba(0, 0, 0, 0.250), inset 0px 1px 0px 1px #ffffff', {
+    shadows: [
+      { inset: false, color: 'rgba(0, 0, 0, 0.250)', offsetX: 0, offsetY: 4, blur: 8, spread: 0, aliases: { color: 'color/shadow' } },
+      { inset: true, color: '#ffffff', offsetX: 0, offsetY: 1, blur: 0, spread: 1 },
+    ],
+  });
+  const glass = styleToken('e2', 'blur/glass', 'blur', 'blur(12px)', { shadows: [], backgroundBlur: 12 });
+  const options = { ...baseOptions, aliasMode: 'alias', modes: styleModes };
+
+  const css = generateExport([elevation, glass], { ...options, format: 'css' }, 'Effect Styles');
+  assert.match(css, /--elevation-2: 0px 4px 8px 0px var\(--color-shadow\), inset 0px 1px 0px 1px #ffffff;/);
+  assert.match(css, /--blur-glass: blur\(12px\);/);
+
+  const dtcg = JSON.parse(generateExport([elevation, glass], { ...options, format: 'dtcg' }, 'Effect Styles'));
+  assert.strictEqual(dtcg.elevation.$type, 'shadow');
+  assert.deepStrictEqual(dtcg.elevation['2'].$value, [
+    { color: '{color.shadow}', offsetX: '0px', offsetY: '4px', blur: '8px', spread: '0px' },
+    { color: '#ffffff', offsetX: '0px', offsetY: '1px', blur: '0px', spread: '1px', inset: true },
+  ]);
+  assert.deepStrictEqual(dtcg.blur, { $type: 'dimension', glass: { $value: '12px' } });
+});
+
+test('gradient tokens export as CSS gradients and DTCG gradient stops', () => {
+  const sunset = styleToken('g1', 'gradient/sunset', 'gradient', 'linear-gradient(90deg, #ff0000 0%, rgba(0, 0, 255, 0.500) 100%)', {
+    type: 'linear',
+    angle: 90,
+    center: { x: 0.5, y: 0.5 },
+    radius: { x: 0.5, y: 0.5 },
+    stops: [{ position: 0, color: '#ff0000', alias: 'color/brand' }, { position: 1, color: 'rgba(0, 0, 255, 0.500)' }],
+  });
+  const options = { ...baseOptions, aliasMode: 'alias', modes: styleModes };
+
+  const css = generateExport([sunset], { ...options, format: 'css' }, 'Paint Styles');
+  assert.match(css, /--gradient-sunset: linear-gradient\(90deg, var\(--color-brand\) 0%, rgba\(0, 0, 255, 0\.5\) 100%\);/);
+
+  const dtcg = JSON.parse(generateExport([sunset], { ...options, format: 'dtcg' }, 'Paint Styles'));
+  assert.strictEqual(dtcg.gradient.$type, 'gradient');
+  assert.deepStrictEqual(dtcg.gradient.sunset.$value, [
+    { color: '{color.brand}', position: 0 },
+    { color: 'rgba(0, 0, 255, 0.5)', position: 1 },
+  ]);
+  assert.deepStrictEqual(dtcg.gradient.sunset.$extensions, { 'com.figma.gradient': { type: 'linear', angle: 90 } });
+});
+
+test('grid tokens export as CSS custom properties and a SCSS breakpoint map', () => {
+  const desktop = styleToken('g1', 'grid/desktop', 'grid', '12 columns', {
+    layouts: [
+      { pattern: 'columns', count: 12, gutter: 24, margin: 32, alignment: 'stretch' },
+      { pattern: 'rows', gutter: 8, margin: 0, sectionSize: 40, alignment: 'start' },
+    ],
+  });
+  const options = { ...baseOptions, modes: styleModes };
+
+  const css = generateExport([desktop], { ...options, format: 'css' }, 'Grids');
+  assert.match(css, /--grid-desktop-columns: 12;\n  --grid-desktop-column-gutter: 24px;\n  --grid-desktop-column-margin: 32px;/);
+  assert.match(css, /--grid-desktop-rows: auto;/);
+  assert.match(css, /--grid-desktop-row-height: 40px;/);
+
+  const scss = generateExport([desktop], { ...options, format: 'scss' }, 'Grids');
+  assert.match(scss, /\$grid-breakpoints: \(\n  desktop: \(\n    columns: 12,\n    column-gutter: 24px,/);
+  assert.match(scss, /row-alignment: start\n  \)\n\);/);
+});
+
+test('boolean and string tokens export as typed literals with escaped quotes', () => {
+  const flag = { id: 'v3', name: 'feature/rounded', type: 'boolean', isAlias: false, valuesByMode: { m1: { value: 'true', type: 'boolean' } } };
+  const family = { id: 'v4', name: 'font/body', type: 'string', isAlias: false, valuesByMode: { m1: { value: 'Inter "Var"', type: 'string' } } };
+  const options = { ...baseOptions, modes: [{ modeId: 'm1', name: 'Default' }] };
+  const exportAs = format => generateExport([flag, family], { ...options, format }, 'Flags');
+
+  assert.match(exportAs('css'), /--feature-rounded: true;\n  --font-body: "Inter \\"Var\\"";/);
+  assert.match(exportAs('swift'), /public static let featureRounded = true\n    public static let fontBody = "Inter \\"Var\\""/);
+  assert.match(exportAs('compose'), /const val featureRounded = true\n    const val fontBody = "Inter \\"Var\\""/);
+  assert.match(exportAs('ts'), /export type BooleanToken = "feature\.rounded";\nexport type StringToken = "font\.body";/);
+});
@@ -0,0 +1,193 @@
+const test = require('node:test');
+const assert = require('node:assert');
+const { load } = require('./load');
+
+const { getCollectionData, inferTokenType, scanAllTokens } = load('token-scanner.ts');
+
+const alias = id => ({ type: 'VARIABLE_ALIAS', id });
+
+/**
+ * figma mock with local styles; variables are only looked up by id for bound fields
+ */
+function mockStyles({ text = [], effect = [], paint = [] }) {
+  const variables = [
+    { id: 'V1', name: 'font/size/xl', resolvedType: 'FLOAT' },
+    { id: 'V2', name: 'color/shadow', resolvedType: 'COLOR' },
+    { id: 'V3', name: 'color/brand', resolvedType: 'COLOR' },
+  ];
+  global.figma = {
+    getLocalTextStylesAsync: async () => text,
+    getLocalEffectStylesAsync: async () => effect,
+    getLocalPaintStylesAsync: async () => paint,
+    getLocalGridStylesAsync: async () => [],
+    variables: { getLocalVariablesAsync: async () => variables },
+  };
+}
+
+/**
+ * The composite value and display value of every style token in a style collection
+ */
+async function scanStyles(collectionId) {
+  const collection = await getCollectionData(collectionId);
+  return collection.variables.map(v => ({ name: v.name, type: v.type, ...v.valuesByMode['styles:default'] }));
+}
+
+test('letter spacing variables are not inferred as spacing', () => {
+  const infer = name => inferTokenType({ name, resolvedType: 'FLOAT', scopes: ['ALL_SCOPES'] });
+
+  assert.strictEqual(infer('type/letter-spacing/tight'), 'number');
+  assert.strictEqual(infer('letterSpacing/wide'), 'number');
+  assert.strictEqual(infer('spacing/md'), 'spacing');
+});
+
+test('text styles become typography tokens with bound variables as aliases', async () => {
+  mockStyles({
+    text: [{
+      id: 'S1',
+      name: 'Heading/H1',
+      description: '',
+      fontName: { family: 'Inter', style: 'Semi Bold Italic' },
+      fontSize: 32,
+      lineHeight: { unit: 'PERCENT', value: 125 },
+      letterSpacing: { unit: 'PIXELS', value: -0.5 },
+      textCase: 'UPPER',
+      boundVariables: { fontSize: alias('V1') },
+    }],
+  });
+
+  const [heading] = await scanStyles('styles:text');
+  assert.strictEqual(heading.type, 'typography');
+  assert.strictEqual(heading.value, 'italic 600 32px/1.25 "Inter"');
+  assert.deepStrictEqual(heading.composite, {
+    fontFamily: 'Inter',
+    fontWeight: 600,
+    fontStyle: 'italic',
+    fontSize: 32,
+    lineHeight: '125%',
+    letterSpacing: -0.5,
+    textCase: 'uppercase',
+    aliases: { fontSize: 'font/size/xl' },
+  });
+});
+
+test('effect styles become multi-layer shadow tokens or blur tokens', async () => {
+  mockStyles({
+    effect: [
+      {
+        id: 'S2',
+        name: 'Elevation/2',
+        description: '',
+        effects: [
+          { type: 'DROP_SHADOW', visible: true, color: { r: 0, g: 0, b: 0, a: 0.25 }, offset: { x: 0, y: 4 }, radius: 8, spread: 0, boundVariables: { color: alias('V2') } },
+          { type: 'INNER_SHADOW', visible: true, color: { r: 1, g: 1, b: 1, a: 1 }, offset: { x: 0, y: 1 }, radius: 0, spread: 1 },
+          { type: 'DROP_SHADOW', visible: false, color: { r: 1, g: 0, b: 0, a: 1 }, offset: { x: 9, y: 9 }, radius: 9 },
+        ],
+      },
+      { id: 'S3', name: 'Blur/Glass', description: '', effects: [{ type: 'BACKGROUND_BLUR', visible: true, radius: 12 }] },
+      { id: 'S4', name: 'Hidden', description: '', effects: [{ type: 'LAYER_BLUR', visible: false, radius: 4 }] },
+    ],
+  });
+
+  const [elevation, glass, ...rest] = await scanStyles('styles:effect');
+  assert.strictEqual(rest.length, 0);
+
+  assert.strictEqual(elevation.type, 'shadow');
+  assert.deepStrictEqual(elevation.composite.shadows, [
+    { inset: false, color: 'rgba(0, 0, 0, 0.250)', offsetX: 0, offsetY: 4, blur: 8, spread: 0, aliases: { color: 'color/shadow' } },
+    { inset: true, color: '#ffffff', offsetX: 0, offsetY: 1, blur: 0, spread: 1 },
+  ]);
+  assert.strictEqual(elevation.value, '0px 4px 8px 0px rgba(0, 0, 0, 0.250), inset 0px 1px 0px 1px #ffffff');
+
+  assert.strictEqual(glass.type, 'blur');
+  assert.deepStrictEqual(glass.composite, { shadows: [], backgroundBlur: 12 });
+  assert.strictEqual(glass.value, 'blur(12px)');
+});
+
+test('gradient paint styles keep their geometry, stops and bound stop colors', async () => {
+  const gradient = (id, name, type, gradientTransform, gradientStops) => ({
+    id,
+    name,
+    description: '',
+    paints: [{ type, visible: true, opacity: 1, gradientTransform, gradientStops }],
+  });
+  const blackToWhite = [{ position: 0, color: { r: 0, g: 0, b: 0, a: 1 } }, { position: 1, color: { r: 1, g: 1, b: 1, a: 1 } }];
+  mockStyles({
+    paint: [
+      gradient('S1', 'Gradient/Sunset', 'GRADIENT_LINEAR', [[1, 0, 0], [0, 1, 0]], [
+        { position: 0, color: { r: 1, g: 0, b: 0, a: 1 }, boundVariables: { color: alias('V3') } },
+        { position: 1, color: { r: 0, g: 0, b: 1, a: 0.5 } },
+      ]),
+      // Top to bottom
+      gradient('S2', 'Gradient/Fade', 'GRADIENT_LINEAR', [[0, 1, 0], [-1, 0, 1]], blackToWhite),
+      gradient('S3', 'Gradient/Spot', 'GRADIENT_RADIAL', [[1, 0, 0], [0, 1, 0]], blackToWhite),
+    ],
+  });
+
+  const [sunset, fade, spot] = await scanStyles('styles:paint');
+  assert.strictEqual(sunset.type, 'gradient');
+  assert.strictEqual(sunset.value, 'linear-gradient(90deg, #ff0000 0%, rgba(0, 0, 255, 0.500) 100%)');
+  assert.deepStrictEqual(sunset.composite.stops, [
+    { position: 0, color: '#ff0000', alias: 'color/brand' },
+    { position: 1, color: 'rgba(0, 0, 255, 0.500)' },
+  ]);
+
+  assert.strictEqual(fade.composite.angle, 180);
+  assert.strictEqual(fade.value, 'linear-gradient(180deg, #000000 0%, #ffffff 100%)');
+
+  assert.strictEqual(spot.composite.type, 'radial');
+  assert.strictEqual(spot.value, 'radial-gradient(ellipse 50% 50% at 50% 50%, #000000 0%, #ffffff 100%)');
+});
+
+/**
+ * figma mock with a single-mode "Palette" collection and a Light/Dark "Theme" collection aliasing it
+ */
+function mockVariables() {
+  const collections = [
+    { id: 'C1', name: 'Palette', defaultModeId: 'p', modes: [{ modeId: 'p', name: 'Value' }] },
+    { id: 'C2', name: 'Theme', defaultModeId: 'light', modes: [{ modeId: 'light', name: 'Light' }, { modeId: 'dark', name: 'Dark' }] },
+  ];
+  const variable = (id, name, variableCollectionId, valuesByMode, resolvedType = 'COLOR') => ({
+    id,
+    name,
+    variableCollectionId,
+    resolvedType,
+    scopes: ['ALL_SCOPES'],
+    description: '',
+    valuesByMode,
+    getPluginData: () => '',
+  });
+  const variables = [
+    variable('V1', 'Blue/500', 'C1', { p: { r: 0, g: 0, b: 1, a: 1 } }),
+    variable('V2', 'Text/Primary', 'C2', { light: alias('V1'), dark: { r: 1, g: 1, b: 1, a: 1 } }),
+    variable('V3', 'Radius/md', 'C1', { p: 8 }, 'FLOAT'),
+  ];
+  mockStyles({});
+  figma.variables = {
+    getLocalVariablesAsync: async () => variables,
+    getLocalVariableCollectionsAsync: async () => collections,
+  };
+}
+
+test('variable aliases become references to where the target token was placed', async () => {
+  mockVariables();
+  const { tokens, skipped } = await scanAllTokens();
+
+  assert.deepStrictEqual(skipped, []);
+  const textPrimary = tokens.semantic.color.text.primary;
+  assert.strictEqual(textPrimary.value, '{primitives.color.blue.500}');
+  assert.strictEqual(textPrimary.resolvedValue, '#0000ff');
+  assert.strictEqual(tokens.primitives.color.blue['500'].value, '#0000ff');
+});
+
+test('every mode of a variable is scanned by mode name', async () => {
+  mockVariables();
+  const { tokens } = await scanAllTokens();
+
+  assert.deepStrictEqual(tokens.semantic.color.text.primary.modes, {
+    Light: { value: '{primitives.color.blue.500}', resolvedValue: '#0000ff' },
+    Dark: { value: '#ffffff' },
+  });
+  // Single-mode collections keep only the default value
+  assert.strictEqual(tokens.primitives.radius.md.modes, undefined);
+  assert.strictEqual(tokens.primitives.radius.md.type, 'borderRadius');
+});
@@ -0,0 +1,226 @@
+const test = require('node:test');
+const assert = require('node:assert');
+const { load } = require('./load');
+
+const { syncTokensToFigma } = load('token-sync.ts');
+
+/**
+ * Minimal figma.variables mock holding a Primitives and a Semantic collection
+ */
+function mockFigma() {
+  const collections = [
+    { id: 'C1', name: 'Primitives', defaultModeId: 'm1', modes: [{ modeId: 'm1', name: 'Mode 1' }], variableIds: ['V1'] },
+    { id: 'C2', name: 'Semantic', defaultModeId: 'm2', modes: [{ modeId: 'm2', name: 'Mode 1' }], variableIds: ['V2'] },
+  ];
+  const variable = (id, name, collectionId, valuesByMode) => ({
+    id,
+    name,
+    description: '',
+    variableCollectionId: collectionId,
+    resolvedType: 'COLOR',
+    valuesByMode,
+    setValueForMode(modeId, value) { this.valuesByMode[modeId] = value; },
+  });
+  const variables = [
+    variable('V1', 'color/blue', 'C1', { m1: { r: 0, g: 0, b: 1, a: 1 } }),
+    variable('V2', 'primary', 'C2', { m2: { type: 'VARIABLE_ALIAS', id: 'V1' } }),
+  ];
+
+  global.figma = {
+    variables: {
+      getLocalVariableCollectionsAsync: async () => collections,
+      getLocalVariablesAsync: async () => variables,
+      getVariableByIdAsync: async id => variables.find(v => v.id === id) || null,
+      getVariableCollectionByIdAsync: async id => collections.find(c => c.id === id) || null,
+      createVariableAlias: v => ({ type: 'VARIABLE_ALIAS', id: v.id }),
+      createVariableCollection: () => assert.fail('unexpected collection'),
+      createVariable: (name, collectionId, resolvedType) => {
+        const created = variable(`V${variables.length + 1}`, name, collectionId, {});
+        created.resolvedType = resolvedType;
+        variables.push(created);
+        return created;
+      },
+    },
+  };
+  return { collections, variables, variable };
+}
+
+const getTokens = () => ({
+  primitives: {
+    color: { blue: { value: '#0000ff', type: 'color', $extensions: { 'com.figma.variable-id': 'V1' } } },
+  },
+  semantic: {
+    primary: { value: '{primitives.color.blue}', type: 'color' },
+  },
+});
+
+test('a dry run of an unchanged file plans no changes', async () => {
+  mockFigma();
+  const result = await syncTokensToFigma(getTokens(), { dryRun: true });
+
+  assert.deepStrictEqual(result.changes, []);
+  assert.strictEqual(result.created, 0);
+  assert.strictEqual(result.updated, 0);
+});
+
+test('variables are named relative to their category', async () => {
+  const { variables } = mockFigma();
+  const tokens = getTokens();
+  tokens.primitives.color.red = { value: '#ff0000', type: 'color' };
+
+  const plan = await syncTokensToFigma(tokens, { dryRun: true });
+  assert.deepStrictEqual(plan.changes.map(c => [c.action, c.path, c.newValue]), [
+    ['create', 'primitives.color.red', 'color/red'],
+    ['revalue', 'primitives.color.red', '#ff0000'],
+  ]);
+  assert.strictEqual(variables.length, 2);
+
+  const result = await syncTokensToFigma(tokens);
+  assert.deepStrictEqual(result.changes, plan.changes);
+  assert.deepStrictEqual(variables.map(v => v.name), ['color/blue', 'primary', 'color/red']);
+});
+
+test('opacities are percentages unless the token marks them as ratios', async () => {
+  mockFigma();
+  const tokens = getTokens();
+  tokens.primitives.opacity = {
+    faint: { value: 1, type: 'opacity' },
+    half: { value: '50%', type: 'opacity' },
+    disabled: { value: 0.4, type: 'opacity', $extensions: { opacityRatio: true } },
+  };
+
+  const plan = await syncTokensToFigma(tokens, { dryRun: true });
+  assert.deepStrictEqual(plan.changes.filter(c => c.action === 'revalue').map(c => [c.path, c.newValue]), [
+    ['primitives.opacity.faint', '1'],
+    ['primitives.opacity.half', '50'],
+    ['primitives.opacity.disabled', '40'],
+  ]);
+});
+
+test('translucent colors and every category are synced', async () => {
+  const { variables } = mockFigma();
+  const created = [];
+  figma.variables.createVariableCollection = name => {
+    const collection = { id: `C${name}`, name, defaultModeId: `m${name}`, modes: [{ modeId: `m${name}`, name: 'Mode 1' }], variableIds: [] };
+    created.push(collection);
+    return collection;
+  };
+  const tokens = getTokens();
+  tokens.primitives.color.overlay = { value: 'rgba(0, 0, 0, 0.5)', type: 'color' };
+  tokens.components = { button: { bg: { value: '{semantic.primary}', type: 'color' } } };
+  tokens.brand = { accent: { value: '#ff00ff', type: 'color' } };
+
+  const result = await syncTokensToFigma(tokens);
+  assert.deepStrictEqual(result.errors, []);
+  assert.deepStrictEqual(result.skipped, []);
+  assert.deepStrictEqual(created.map(c => c.name), ['Components', 'Brand']);
+
+  const byName = name => variables.find(v => v.name === name);
+  assert.deepStrictEqual(byName('color/overlay').valuesByMode.m1, { r: 0, g: 0, b: 0, a: 0.5 });
+  assert.deepStrictEqual(byName('button/bg').valuesByMode.mComponents, { type: 'VARIABLE_ALIAS', id: 'V2' });
+  assert.strictEqual(byName('accent').variableCollectionId, 'CBrand');
+});
+
+test('variables found by id are written to the modes of their own collection', async () => {
+  const { collections, variables, variable } = mockFigma();
+  collections.push({ id: 'C3', name: 'Colors', defaultModeId: 'light', modes: [{ modeId: 'light', name: 'Light' }, { modeId: 'dark', name: 'Dark' }], variableIds: ['V3'] });
+  variables.push(variable('V3', 'surface', 'C3', { light: { r: 1, g: 1, b: 1, a: 1 }, dark: { r: 0, g: 0, b: 0, a: 1 } }));
+  const tokens = getTokens();
+  tokens.semantic.surface = {
+    value: '#ffffff',
+    type: 'color',
+    modes: { Light: { value: '#ffffff' }, Dark: { value: '#111111' } },
+    $extensions: { 'com.figma.variable-id': 'V3' },
+  };
+
+  const result = await syncTokensToFigma(tokens);
+  assert.deepStrictEqual(result.errors, []);
+  assert.deepStrictEqual(result.changes.map(c => [c.action, c.path, c.mode, c.newValue]), [
+    ['revalue', 'semantic.surface', 'Dark', '#111111'],
+  ]);
+  assert.deepStrictEqual(variables[2].valuesByMode.dark, { r: 17 / 255, g: 17 / 255, b: 17 / 255, a: 1 });
+  assert.strictEqual(variables[2].variableCollectionId, 'C3');
+});
+
+/**
+ * A scanned file: one "Colors" collection with Light/Dark modes and the original variable casing
+ */
+function mockScannedFigma() {
+  const collections = [
+    { id: 'C1', name: 'Colors', defaultModeId: 'light', modes: [{ modeId: 'light', name: 'Light' }, { modeId: 'dark', name: 'Dark' }], variableIds: ['V1', 'V2'] },
+  ];
+  const variable = (id, name, valuesByMode) => ({
+    id,
+    name,
+    description: '',
+    variableCollectionId: 'C1',
+    resolvedType: 'COLOR',
+    scopes: ['ALL_SCOPES'],
+    valuesByMode,
+    getPluginData: () => '',
+    setValueForMode: () => assert.fail(`unexpected value change of ${name}`),
+  });
+  const variables = [
+    variable('V1', 'Blue/500', { light: { r: 0.2, g: 0.4, b: 1, a: 1 }, dark: { r: 0.1, g: 0.2, b: 0.5, a: 1 } }),
+    variable('V2', 'Text/Primary', { light: { type: 'VARIABLE_ALIAS', id: 'V1' }, dark: { r: 1, g: 1, b: 1, a: 1 } }),
+  ];
+
+  global.figma = {
+    getLocalPaintStylesAsync: async () => [],
+    getLocalTextStylesAsync: async () => [],
+    getLocalEffectStylesAsync: async () => [],
+    getLocalGridStylesAsync: async () => [],
+    variables: {
+      getLocalVariableCollectionsAsync: async () => collections,
+      getLocalVariablesAsync: async () => variables,
+      getVariableByIdAsync: async id => variables.find(v => v.id === id) || null,
+      getVariableCollectionByIdAsync: async id => collections.find(c => c.id === id) || null,
+      createVariableAlias: v => ({ type: 'VARIABLE_ALIAS', id: v.id }),
+      createVariableCollection: name => assert.fail(`unexpected collection ${name}`),
+      createVariable: name => assert.fail(`unexpected variable ${name}`),
+    },
+  };
+  return variables;
+}
+
+test('syncing an unchanged scanned file changes nothing', async () => {
+  const { scanAllTokens } = load('token-scanner.ts');
+  const variables = mockScannedFigma();
+  const { tokens } = await scanAllTokens();
+
+  const plan = await syncTokensToFigma(tokens, { dryRun: true });
+  assert.deepStrictEqual(plan.errors, []);
+  assert.deepStrictEqual(plan.changes, []);
+  assert.strictEqual(plan.updated, 0);
+
+  const result = await syncTokensToFigma(tokens);
+  assert.deepStrictEqual(result.errors, []);
+  assert.deepStrictEqual(result.changes, []);
+  assert.deepStrictEqual(variables.map(v => v.name), ['Blue/500', 'Text/Primary']);
+});
+
+test('changes are recorded as they are applied', async () => {
+  const variables = mockScannedFigma();
+  variables[0].setValueForMode = () => { throw new Error('read-only'); };
+  const tokens = {
+    primitives: {
+      color: {
+        blue: {
+          500: {
+            value: '#3366ff',
+            type: 'color',
+            description: 'Brand blue',
+            modes: { Light: { value: '#3366ff' }, Dark: { value: '#000000' } },
+            $extensions: { 'com.figma.variable-id': 'V1', originalPath: ['blue', '500'] },
+          },
+        },
+      },
+    },
+  };
+
+  const result = await syncTokensToFigma(tokens);
+  assert.deepStrictEqual(result.changes.map(c => c.action), ['redescribe']);
+  assert.strictEqual(variables[0].description, 'Brand blue');
+  assert.strictEqual(result.updated, 1);
+  assert.match(result.errors[0], /read-only/);
+});
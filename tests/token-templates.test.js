@@ -0,0 +1,24 @@
+const test = require('node:test');
+const assert = require('node:assert');
+const { load } = require('./load');
+
+const { renderTemplate } = load('token-templates.ts');
+
+test('templates loop over lists with index helpers and inverted sections', () => {
+  const output = renderTemplate(
+    '{{#tokens}}{{@index}}:{{path}}={{value}}{{^@last}}, {{/@last}}{{/tokens}}{{^empty}} (no aliases){{/empty}}',
+    { tokens: [{ path: 'color.blue', value: '#0000ff' }, { path: 'space.sm', value: '8px' }], empty: [] }
+  );
+
+  assert.strictEqual(output, '0:color.blue=#0000ff, 1:space.sm=8px (no aliases)');
+});
+
+test('{{.}} renders the current item inside a section', () => {
+  assert.strictEqual(renderTemplate('{{#modes}}[{{.}}]{{/modes}}', { modes: ['Light', 'Dark'] }), '[Light][Dark]');
+  assert.strictEqual(renderTemplate('{{#name}}{{.}}!{{/name}}', { name: 'Brand' }), 'Brand!');
+  assert.strictEqual(renderTemplate('{{#token}}{{path}} in {{collection}}{{/token}}', { collection: 'Core', token: { path: 'a.b' } }), 'a.b in Core');
+});
+
+test('unbalanced sections are rejected', () => {
+  assert.throws(() => renderTemplate('{{#tokens}}{{path}}', { tokens: [] }));
+});
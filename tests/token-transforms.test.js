@@ -0,0 +1,61 @@
+const test = require('node:test');
+const assert = require('node:assert');
+const { load } = require('./load');
+
+const { applyValueTransforms, applyVariableTransforms, registerTransform, TRANSFORM_PRESETS } = load('token-transforms.ts');
+
+const baseOptions = { colorFormat: 'rgb', unitFormat: 'rem', baseFontSize: 16 };
+
+const variable = (id, name, type, value, isAlias = false) => ({
+  id,
+  name,
+  type,
+  isAlias,
+  valuesByMode: { m1: { value, type } },
+});
+
+test('the default preset formats colors, opacity ratios and units in order', () => {
+  const options = { ...baseOptions, transforms: TRANSFORM_PRESETS.default };
+
+  assert.strictEqual(applyValueTransforms('#ff0000', variable('c', 'color/red', 'color', '#ff0000'), options), 'rgb(255, 0, 0)');
+  assert.strictEqual(applyValueTransforms(40, variable('o', 'opacity/disabled', 'opacity', 40), options), 0.4);
+  assert.strictEqual(applyValueTransforms(24, variable('s', 'spacing/lg', 'spacing', 24), options), '1.5rem');
+});
+
+test('unit per variable wins over the global unit', () => {
+  const spacing = variable('s', 'spacing/lg', 'spacing', 24);
+  const options = { ...baseOptions, unitPerVariable: new Map([['s', 'px']]) };
+
+  assert.strictEqual(applyValueTransforms(24, spacing, options), '24px');
+});
+
+test('filters drop private and alias variables', () => {
+  const variables = [
+    variable('a', 'color/blue', 'color', '#0000ff'),
+    variable('b', 'color/_internal', 'color', '#000000'),
+    variable('c', 'color/link', 'color', '{color/blue}', true),
+  ];
+
+  const publicOnly = applyVariableTransforms(variables, { ...baseOptions, transforms: TRANSFORM_PRESETS['public-only'] });
+  assert.deepStrictEqual(publicOnly.map(v => v.name), ['color/blue', 'color/link']);
+
+  const primitives = applyVariableTransforms(variables, { ...baseOptions, transforms: TRANSFORM_PRESETS.primitives });
+  assert.deepStrictEqual(primitives.map(v => v.name), ['color/blue', 'color/_internal']);
+});
+
+test('name transforms rename alias references too, and unknown names are skipped', () => {
+  registerTransform({
+    kind: 'name',
+    name: 'test/prefix',
+    description: 'Prefix names with "ds/"',
+    transform: name => `ds/${name}`,
+  });
+  const variables = [
+    variable('a', 'Color/Blue', 'color', '#0000ff'),
+    variable('c', 'Color/Link', 'color', '{Color/Blue}', true),
+  ];
+
+  const renamed = applyVariableTransforms(variables, { ...baseOptions, transforms: ['name/lowercase', 'test/missing', 'test/prefix'] });
+  assert.deepStrictEqual(renamed.map(v => v.name), ['ds/color/blue', 'ds/color/link']);
+  assert.strictEqual(renamed[1].valuesByMode.m1.value, '{ds/color/blue}');
+});
@@ -0,0 +1,166 @@
+/**
+ * Export Bundle
+ * Runs several export targets at once and packages them into a zip archive
+ */
+
+import { CollectionDetail } from './token-types';
+import { ExportFile, ExportOptions, generateExportFiles, isMultiFileExport, cleanPathSegment } from './token-export';
+
+export type BundleTarget = ExportOptions['format'];
+
+export interface BundleManifest {
+    name: string;
+    generatedAt: string;
+    collections: string[];
+    files: { path: string; format: BundleTarget; collection: string; modes: string[] }[];
+}
+
+/**
+ * Build the files of a bundle with a predictable layout:
+ *   <format>/<collection>.<ext>          single-file formats
+ *   <format>/<collection>/<file>         multi-file formats (Android, Tokens Studio, DTCG per mode)
+ *   manifest.json
+ *
+ * Each collection is exported with its own modes; DTCG is always written as one file per mode.
+ */
+export function createExportBundle(
+    collections: CollectionDetail[],
+    targets: BundleTarget[],
+    options: ExportOptions
+): ExportFile[] {
+    const files: ExportFile[] = [];
+    const manifest: BundleManifest = {
+        name: 'Design Tokens Manager export',
+        generatedAt: new Date().toISOString(),
+        collections: collections.map(c => c.name),
+        files: [],
+    };
+
+    targets.forEach(format => {
+        collections.forEach(collection => {
+            const targetOptions: ExportOptions = {
+                ...options,
+                format,
+                modes: collection.modes,
+                dtcgModeLayout: format === 'dtcg' ? 'files' : options.dtcgModeLayout,
+            };
+            const folder = isMultiFileExport(targetOptions)
+                ? `${format}/${cleanPathSegment(collection.name) || 'tokens'}/`
+                : `${format}/`;
+
+            generateExportFiles(collection.variables, targetOptions, collection.name).forEach(file => {
+                const path = `${folder}${file.path}`;
+                files.push({ path, content: file.content });
+                manifest.files.push({
+                    path,
+                    format,
+                    collection: collection.name,
+                    modes: collection.modes.map(m => m.name),
+                });
+            });
+        });
+    });
+
+    files.push({ path: 'manifest.json', content: JSON.stringify(manifest, null, 2) });
+    return files;
+}
+
+// ----------------------------------------------------------------------
+// ZIP WRITER
+// Minimal "stored" (uncompressed) zip, enough for text exports without a dependency
+// ----------------------------------------------------------------------
+
+let crcTable: number[] | null = null;
+
+function crc32(data: Uint8Array): number {
+    if (!crcTable) {
+        crcTable = [];
+        for (let n = 0; n < 256; n++) {
+            let c = n;
+            for (let k = 0; k < 8; k++) {
+                c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+            }
+            crcTable.push(c >>> 0);
+        }
+    }
+
+    let crc = 0xffffffff;
+    for (let i = 0; i < data.length; i++) {
+        crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xffffffff) >>> 0;
+}
+
+function toDosDateTime(date: Date): { time: number; date: number } {
+    return {
+        time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+        date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+    };
+}
+
+/**
+ * Package files into a zip archive
+ */
+export function createZip(files: ExportFile[]): Uint8Array {
+    const encoder = new TextEncoder();
+    const { time, date } = toDosDateTime(new Date());
+
+    const localParts: Uint8Array[] = [];
+    const centralParts: Uint8Array[] = [];
+    let offset = 0;
+
+    files.forEach(file => {
+        const name = encoder.encode(file.path);
+        const data = encoder.encode(file.content);
+        const crc = crc32(data);
+
+        const local = new DataView(new ArrayBuffer(30));
+        local.setUint32(0, 0x04034b50, true); // Local file header signature
+        local.setUint16(4, 20, true); // Version needed
+        local.setUint16(6, 0x0800, true); // UTF-8 file names
+        local.setUint16(8, 0, true); // Stored
+        local.setUint16(10, time, true);
+        local.setUint16(12, date, true);
+        local.setUint32(14, crc, true);
+        local.setUint32(18, data.length, true);
+        local.setUint32(22, data.length, true);
+        local.setUint16(26, name.length, true);
+        local.setUint16(28, 0, true);
+
+        const central = new DataView(new ArrayBuffer(46));
+        central.setUint32(0, 0x02014b50, true); // Central directory signature
+        central.setUint16(4, 20, true); // Version made by
+        central.setUint16(6, 20, true);
+        central.setUint16(8, 0x0800, true);
+        central.setUint16(10, 0, true);
+        central.setUint16(12, time, true);
+        central.setUint16(14, date, true);
+        central.setUint32(16, crc, true);
+        central.setUint32(20, data.length, true);
+        central.setUint32(24, data.length, true);
+        central.setUint16(28, name.length, true);
+        central.setUint32(42, offset, true); // Offset of local header
+
+        localParts.push(new Uint8Array(local.buffer), name, data);
+        centralParts.push(new Uint8Array(central.buffer), name);
+        offset += 30 + name.length + data.length;
+    });
+
+    const centralSize = centralParts.reduce((sum, part) => sum + part.length, 0);
+    const end = new DataView(new ArrayBuffer(22));
+    end.setUint32(0, 0x06054b50, true); // End of central directory signature
+    end.setUint16(8, files.length, true);
+    end.setUint16(10, files.length, true);
+    end.setUint32(12, centralSize, true);
+    end.setUint32(16, offset, true);
+
+    const parts = [...localParts, ...centralParts, new Uint8Array(end.buffer)];
+    const zip = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+    let position = 0;
+    parts.forEach(part => {
+        zip.set(part, position);
+        position += part.length;
+    });
+
+    return zip;
+}
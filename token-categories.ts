@@ -0,0 +1,71 @@
+/**
+ * Categorization Rules
+ * User-defined, ordered rules that decide which DesignTokens category
+ * (primitives, semantic, components or a custom one) a scanned token lands in.
+ * The first matching rule wins; unmatched tokens fall back to the built-in heuristics.
+ */
+
+import { TokenCategory } from './token-types';
+
+export interface CategoryRule {
+  id: string;
+  collection?: string; // Glob or /regex/ matched against the collection name
+  name?: string; // Glob or /regex/ matched against the variable or style name
+  resolvedType?: string; // Variable type (COLOR, FLOAT, STRING, BOOLEAN) or style type (PAINT, TEXT, EFFECT, GRID)
+  isAlias?: boolean;
+  category: TokenCategory;
+}
+
+/**
+ * What a rule is matched against
+ */
+export interface CategorySubject {
+  name: string;
+  collectionName: string;
+  resolvedType: string;
+  isAlias: boolean;
+}
+
+/**
+ * A scanned token with the category it would be placed in; ruleIndex is -1 for the built-in heuristics
+ */
+export interface CategoryPreviewItem extends CategorySubject {
+  category: TokenCategory;
+  ruleIndex: number;
+}
+
+export const BUILT_IN_CATEGORIES: TokenCategory[] = ['primitives', 'semantic', 'components', 'uncategorized'];
+
+/**
+ * Match a value against a glob ("Brand/*", "grid-??") or a regex written as "/pattern/flags".
+ * Globs are case-insensitive and must match the whole value.
+ */
+export function matchesPattern(pattern: string, value: string): boolean {
+  const regexMatch = pattern.match(/^\/(.+)\/([a-z]*)$/);
+  if (regexMatch) {
+    try {
+      return new RegExp(regexMatch[1], regexMatch[2]).test(value);
+    } catch (e) {
+      return false;
+    }
+  }
+
+  const source = pattern
+    .split('')
+    .map(char => char === '*' ? '.*' : char === '?' ? '.' : char.replace(/[.+^${}()|[\]\\]/g, '\\$&'))
+    .join('');
+  return new RegExp(`^${source}$`, 'i').test(value);
+}
+
+/**
+ * Find the first rule matching a token; empty conditions match anything
+ */
+export function findCategoryRule(subject: CategorySubject, rules: CategoryRule[]): CategoryRule | undefined {
+  return rules.find(rule =>
+    !!rule.category &&
+    (!rule.collection || matchesPattern(rule.collection, subject.collectionName)) &&
+    (!rule.name || matchesPattern(rule.name, subject.name)) &&
+    (!rule.resolvedType || rule.resolvedType === subject.resolvedType) &&
+    (rule.isAlias === undefined || rule.isAlias === subject.isAlias)
+  );
+}
@@ -1,19 +1,57 @@
-import { CollectionVariableDetail } from './token-types';
-import { formatColor, formatUnit } from './token-utils';
+import { CollectionDetail, CollectionVariableDetail, TypographyProperty, TypographyValue, EffectValue, ShadowLayer, GradientValue, GridValue } from './token-types';
+import { parseColor, formatFontShorthand, formatBoxShadow, formatCssGradient, percentToRatio } from './token-utils';
+import { applyValueTransforms, applyVariableTransforms } from './token-transforms';
+import { ExportTemplate, renderTemplate } from './token-templates';
 
 export interface ExportMode {
     modeId: string;
     name: string;
 }
 
+/**
+ * A single generated file, for targets that emit more than one file
+ */
+export interface ExportFile {
+    path: string;
+    content: string;
+}
+
+/**
+ * How non-default modes are scoped in CSS output
+ * - data-attribute: [data-theme="dark"]
+ * - class: .theme-dark
+ * - media-query: @media (prefers-color-scheme: dark), for light/dark modes only
+ */
+export type CssThemeStrategy = 'data-attribute' | 'class' | 'media-query';
+
+export type NamingCase = 'kebab' | 'camel' | 'snake' | 'constant';
+
+/**
+ * Token naming strategy shared by all exporters
+ * Web formats honour `case`; native platforms keep their own identifier conventions
+ * but still apply the prefix and stripped segments.
+ */
+export interface NamingOptions {
+    case?: NamingCase; // Defaults to the format's own convention (kebab for CSS, dot paths for JSON)
+    prefix?: string; // e.g. "acme" or "--acme-" -> --acme-color-brand
+    stripSegments?: string[]; // Leading path segments to drop, e.g. ["color/"]
+}
+
 export interface ExportOptions {
-    format: 'css' | 'scss' | 'json' | 'dtcg';
+    format: 'css' | 'scss' | 'json' | 'dtcg' | 'tailwind' | 'swift' | 'android' | 'compose' | 'dart' | 'ts' | 'tokens-studio' | 'template';
     modes: ExportMode[];
     aliasMode: 'resolved' | 'alias';
     colorFormat: string;
     unitFormat: string;
     baseFontSize: number;
     unitPerVariable?: Map<string, string>;
+    defaultModeId?: string; // Mode written to :root in CSS, defaults to the first mode
+    cssThemeStrategy?: CssThemeStrategy;
+    naming?: NamingOptions;
+    tsCssVarHelper?: boolean; // Include a typed cssVar() helper in TypeScript output
+    dtcgModeLayout?: 'extensions' | 'files'; // Extra modes under $extensions.mode, or one file per mode
+    transforms?: string[]; // Ordered transform names (see token-transforms), defaults to TRANSFORM_PRESETS.default
+    template?: ExportTemplate; // User template rendered by the 'template' format
 }
 
 export function generateExport(
@@ -21,21 +59,254 @@ export function generateExport(
     options: ExportOptions,
     collectionName: string
 ): string {
+    variables = applyVariableTransforms(variables, options);
+
     switch (options.format) {
         case 'css': return generateCSS(variables, options);
         case 'scss': return generateSCSS(variables, options);
         case 'json': return generateJSON(variables, options);
-        case 'dtcg': return generateDTCG(variables, options, collectionName);
+        case 'dtcg':
+            return options.dtcgModeLayout === 'files'
+                ? joinExportFiles(generateDTCGFiles(variables, options))
+                : generateDTCG(variables, options);
+        case 'tailwind': return generateTailwind(variables, options);
+        case 'swift': return generateSwift(variables, options, collectionName);
+        case 'android': return joinExportFiles(generateAndroidResources(variables, options));
+        case 'compose': return generateCompose(variables, options, collectionName);
+        case 'dart': return generateDart(variables, options, collectionName);
+        case 'ts': return generateTypeScript(variables, options, collectionName);
+        case 'tokens-studio': return joinExportFiles(generateTokensStudioFiles(variables, options, collectionName));
+        case 'template': return generateFromTemplate(variables, options, collectionName);
         default: return '// Unknown format';
     }
 }
 
-function normalizeDashName(name: string): string {
-    return name.toLowerCase().replace(/\//g, '-').replace(/\s+/g, '-');
+/**
+ * Whether a format writes several files (resource folders, token sets, one file per mode)
+ */
+export function isMultiFileExport(options: ExportOptions): boolean {
+    return options.format === 'android'
+        || options.format === 'tokens-studio'
+        || (options.format === 'dtcg' && options.dtcgModeLayout === 'files');
+}
+
+/**
+ * Generate the files for a format, for downloads rather than the preview.
+ * Single-file formats produce one "<collection>.<ext>" file; multi-file formats
+ * return paths relative to a folder for the collection.
+ */
+export function generateExportFiles(
+    variables: CollectionVariableDetail[],
+    options: ExportOptions,
+    collectionName: string
+): ExportFile[] {
+    if (isMultiFileExport(options)) {
+        const transformed = applyVariableTransforms(variables, options);
+        if (options.format === 'android') return generateAndroidResources(transformed, options);
+        if (options.format === 'tokens-studio') return generateTokensStudioFiles(transformed, options, collectionName, true);
+        return generateDTCGFiles(transformed, options);
+    }
+
+    const extension = options.format === 'template' && options.template?.extension
+        ? options.template.extension
+        : EXPORT_FILE_EXTENSIONS[options.format];
+
+    return [{
+        path: `${cleanPathSegment(collectionName) || 'tokens'}.${extension}`,
+        content: generateExport(variables, options, collectionName),
+    }];
+}
+
+/**
+ * File extension used when a format is written to its own file
+ */
+export const EXPORT_FILE_EXTENSIONS: { [format in ExportOptions['format']]: string } = {
+    css: 'css',
+    scss: 'scss',
+    json: 'json',
+    dtcg: 'tokens.json',
+    tailwind: 'tailwind.config.js',
+    swift: 'swift',
+    android: 'xml',
+    compose: 'kt',
+    dart: 'dart',
+    ts: 'ts',
+    'tokens-studio': 'json',
+    template: 'txt',
+};
+
+/**
+ * Merge several collections into one, so aliases between them stay valid in a single output.
+ * Modes are matched by name; collections without a matching mode use their default (first) mode.
+ */
+export function mergeCollections(collections: CollectionDetail[], name: string = 'Tokens'): CollectionDetail {
+    // Single-mode collections (typically primitives) apply to every mode, so only
+    // multi-mode collections define the merged modes
+    const themed = collections.filter(c => c.modes.length > 1);
+    const modeSources = themed.length > 0 ? themed : collections.slice(0, 1);
+
+    const modeNames: string[] = [];
+    modeSources.forEach(c => c.modes.forEach(m => {
+        if (!modeNames.includes(m.name)) modeNames.push(m.name);
+    }));
+
+    const modes = modeNames.map(modeName => ({ modeId: `merged:${modeName}`, name: modeName }));
+    const variables: CollectionVariableDetail[] = [];
+
+    collections.forEach(c => {
+        if (c.modes.length === 0) return;
+
+        c.variables.forEach(v => {
+            const valuesByMode: CollectionVariableDetail['valuesByMode'] = {};
+            modes.forEach(mode => {
+                const sourceMode = c.modes.find(m => m.name === mode.name) || c.modes[0];
+                const value = v.valuesByMode[sourceMode.modeId];
+                if (value) valuesByMode[mode.modeId] = value;
+            });
+            variables.push({ ...v, valuesByMode });
+        });
+    });
+
+    return { collectionId: 'merged', name, modes, variables };
+}
+
+/**
+ * Export several collections at once, either merged into a single output
+ * or as one file per collection. Each collection uses all of its own modes.
+ */
+export function generateCollectionsExport(
+    collections: CollectionDetail[],
+    options: ExportOptions,
+    layout: 'combined' | 'per-collection'
+): string {
+    if (layout === 'combined') {
+        const merged = mergeCollections(collections);
+        return generateExport(merged.variables, { ...options, modes: merged.modes }, merged.name);
+    }
+
+    return joinExportFiles(collections.map(c => ({
+        path: `${cleanPathSegment(c.name)}.${EXPORT_FILE_EXTENSIONS[options.format]}`,
+        content: generateExport(c.variables, { ...options, modes: c.modes }, c.name),
+    })));
+}
+
+/**
+ * Concatenate multi-file output for preview, with a comment banner per file
+ */
+function joinExportFiles(files: ExportFile[]): string {
+    return files.map(file => {
+        let banner = `// ${file.path}`;
+        if (file.path.endsWith('.xml')) banner = `<!-- ${file.path} -->`;
+        else if (file.path.endsWith('.css')) banner = `/* ${file.path} */`;
+        return `${banner}\n${file.content}`;
+    }).join('\n\n');
+}
+
+/**
+ * Split a variable name into path segments, applying the stripped segments and prefix
+ */
+function getTokenPath(name: string, naming: NamingOptions = {}): string[] {
+    const segments = name.split('/').map(part => part.trim()).filter(part => part.length > 0);
+
+    const stripPaths = (naming.stripSegments || [])
+        .map(strip => strip.split('/').map(part => part.trim().toLowerCase()).filter(part => part.length > 0))
+        .filter(parts => parts.length > 0);
+
+    // Never strip a token down to nothing
+    let stripped = true;
+    while (stripped) {
+        stripped = false;
+        for (const parts of stripPaths) {
+            if (segments.length > parts.length && parts.every((part, i) => segments[i].toLowerCase() === part)) {
+                segments.splice(0, parts.length);
+                stripped = true;
+                break;
+            }
+        }
+    }
+
+    const prefix = (naming.prefix || '').trim().replace(/^(--|\$)/, '').replace(/[-_./\s]+$/, '');
+    if (prefix) {
+        segments.unshift(...prefix.split('/').filter(part => part.length > 0));
+    }
+
+    return segments;
+}
+
+export function cleanPathSegment(part: string): string {
+    return part.toLowerCase().replace(/\s+/g, '-');
+}
+
+/**
+ * Format a variable name with the naming strategy
+ * 'dot' is the JSON path convention and is only used as a format default
+ */
+function formatTokenName(name: string, naming: NamingOptions | undefined, namingCase: NamingCase | 'dot'): string {
+    const path = getTokenPath(name, naming);
+
+    switch (namingCase) {
+        case 'dot': return path.map(cleanPathSegment).join('.');
+        case 'camel': return normalizeCamelName(path.join('/'));
+        case 'snake': return normalizeSnakeName(path.join('/'));
+        case 'constant': return normalizeSnakeName(path.join('/')).toUpperCase();
+        default: return path.map(cleanPathSegment).join('-');
+    }
+}
+
+/**
+ * Name used for CSS custom properties and SCSS variables
+ */
+function getWebName(name: string, options: ExportOptions): string {
+    return formatTokenName(name, options.naming, options.naming?.case || 'kebab');
+}
+
+function getJSONName(name: string, options: ExportOptions): string {
+    return formatTokenName(name, options.naming, options.naming?.case || 'dot');
+}
+
+/**
+ * Convert a slash path into a camelCase identifier (e.g. "color/brand/primary" -> "colorBrandPrimary")
+ */
+function normalizeCamelName(name: string): string {
+    const words = name.split(/[^a-zA-Z0-9]+/).filter(w => w.length > 0);
+    const camel = words
+        .map((w, i) => i === 0 ? w.charAt(0).toLowerCase() + w.slice(1) : w.charAt(0).toUpperCase() + w.slice(1))
+        .join('');
+    return /^\d/.test(camel) ? `_${camel}` : camel;
+}
+
+/**
+ * Convert a slash path into an Android-safe resource name (e.g. "Color/Brand Primary" -> "color_brand_primary")
+ */
+function normalizeSnakeName(name: string): string {
+    const snake = name
+        .replace(/([a-z0-9])([A-Z])/g, '$1_$2')
+        .split(/[^a-zA-Z0-9]+/)
+        .filter(w => w.length > 0)
+        .join('_')
+        .toLowerCase();
+    return /^\d/.test(snake) ? `_${snake}` : snake;
+}
+
+function normalizePascalName(name: string): string {
+    const camel = normalizeCamelName(name).replace(/^_/, '');
+    return camel.charAt(0).toUpperCase() + camel.slice(1);
+}
+
+/**
+ * Final primitive value for a mode, ignoring alias mode (native platforms have no var() equivalent)
+ */
+function getResolvedValue(v: CollectionVariableDetail, modeId: string): string | number | undefined {
+    const modeVal = v.valuesByMode[modeId];
+    if (!modeVal) return undefined;
+    return modeVal.resolvedValue !== undefined ? modeVal.resolvedValue : modeVal.value;
 }
 
-function normalizeDotName(name: string): string {
-    return name.toLowerCase().replace(/\//g, '.').replace(/\s+/g, '-');
+/**
+ * Opacity as a unitless 0-1 ratio; Figma stores opacities as percentages
+ */
+function getOpacityRatio(value: string | number): number {
+    return parseFloat((Number(value) / 100).toFixed(4));
 }
 
 function processValue(v: CollectionVariableDetail, modeId: string, options: ExportOptions): any {
@@ -55,76 +326,457 @@ function processValue(v: CollectionVariableDetail, modeId: string, options: Expo
     // Handle Alias Transformation when not in Resolved mode
     if (!isResolved && typeof rawValue === 'string' && rawValue.startsWith('{') && rawValue.endsWith('}')) {
         const rawName = rawValue.substring(1, rawValue.length - 1); // remove { and }
+        return formatAliasReference(rawName, options) ?? rawValue;
+    }
 
-        switch (options.format) {
-            case 'css':
-                return `var(--${normalizeDashName(rawName)})`;
-            case 'scss':
-                return `$${normalizeDashName(rawName)}`;
-            case 'json':
-                return `{${normalizeDotName(rawName)}}`; // Non-spec JSON still uses brackets but normalized dots
-            case 'dtcg':
-                return { $ref: normalizeDotName(rawName) };
-            default:
-                return rawValue;
-        }
+    // Style tokens are written as CSS values; only formats with var()/$ references keep their bound variables
+    if ('composite' in modeVal && modeVal.composite) {
+        const canReference = ['css', 'scss', 'tailwind', 'ts'].includes(options.format);
+        return getCssCompositeValue(v, modeId, canReference ? options : { ...options, aliasMode: 'resolved' }) ?? rawValue;
     }
 
-    // Formatting based on type (only for primitives)
-    if (v.type === 'color') {
-        return formatColor(String(rawValue), options.colorFormat);
+    // Formatting through the value transforms (only for primitives)
+    const value = String(applyValueTransforms(rawValue, v, options));
+
+    // String variables are text, so stylesheets need them quoted
+    if (v.type === 'string' && (options.format === 'css' || options.format === 'scss')) {
+        return quoteCssString(value);
+    }
+    return value;
+}
+
+function quoteCssString(value: string): string {
+    return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\A ')}"`;
+}
+
+/**
+ * Value for JSON-based outputs: boolean tokens become true/false rather than "true"/"false"
+ */
+function getTypedValue(v: CollectionVariableDetail, value: string | number): string | number | boolean {
+    if (v.type === 'boolean' && (value === 'true' || value === 'false')) return value === 'true';
+    return value;
+}
+
+/**
+ * Reference to another token in the format's alias syntax, or null for
+ * formats without references (native platforms use resolved values)
+ */
+function formatAliasReference(rawName: string, options: ExportOptions): string | null {
+    switch (options.format) {
+        case 'css':
+        case 'tailwind':
+        case 'ts':
+            return `var(--${getWebName(rawName, options)})`;
+        case 'scss':
+            return `$${getWebName(rawName, options)}`;
+        case 'json':
+            return `{${getJSONName(rawName, options)}}`; // Non-spec JSON still uses brackets but normalized dots
+        case 'dtcg':
+        case 'tokens-studio':
+        case 'template':
+            return `{${formatTokenName(rawName, options.naming, 'dot')}}`; // DTCG / Tokens Studio alias syntax
+        default:
+            return null;
+    }
+}
+
+function getComposite(v: CollectionVariableDetail, modeId: string) {
+    const modeVal = v.valuesByMode[modeId];
+    return modeVal && 'composite' in modeVal ? modeVal.composite : undefined;
+}
+
+/**
+ * Style tokens (typography, effects, gradients, grids) carry a structured value instead of a primitive
+ */
+function isStyleToken(v: CollectionVariableDetail): boolean {
+    return Object.values(v.valuesByMode).some(val => 'composite' in val);
+}
+
+function getTypography(v: CollectionVariableDetail, modeId: string): TypographyValue | undefined {
+    const composite = getComposite(v, modeId);
+    return composite && 'fontFamily' in composite ? composite : undefined;
+}
+
+function getEffect(v: CollectionVariableDetail, modeId: string): EffectValue | undefined {
+    const composite = getComposite(v, modeId);
+    return composite && 'shadows' in composite ? composite : undefined;
+}
+
+function getGradient(v: CollectionVariableDetail, modeId: string): GradientValue | undefined {
+    const composite = getComposite(v, modeId);
+    return composite && 'stops' in composite ? composite : undefined;
+}
+
+function getGrid(v: CollectionVariableDetail, modeId: string): GridValue | undefined {
+    const composite = getComposite(v, modeId);
+    return composite && 'layouts' in composite ? composite : undefined;
+}
+
+/**
+ * Reference to the variable bound to part of a style token, in alias mode
+ */
+function getCompositeAlias(variableName: string | undefined, options: ExportOptions): string | null {
+    return variableName && options.aliasMode === 'alias' ? formatAliasReference(variableName, options) : null;
+}
+
+/**
+ * Run a px size of a style token through the value transforms. The size is
+ * named after its property so matchers such as size/px-to-rem-font-size apply.
+ */
+function formatCompositeSize(v: CollectionVariableDetail, property: string, px: number, options: ExportOptions): string {
+    const cssProperty = property.replace(/[A-Z]/g, c => `-${c.toLowerCase()}`);
+    const value = String(applyValueTransforms(px, { ...v, name: `${v.name}/${cssProperty}` }, options));
+    // A bare number would read as a multiplier for line-height, so keep the px unit
+    return isNaN(Number(value)) ? value : `${value}px`;
+}
+
+/**
+ * CSS declarations for a typography token, used by utility classes and SCSS maps
+ */
+function getCssTypography(v: CollectionVariableDetail, modeId: string, options: ExportOptions): [string, string][] | null {
+    const typography = getTypography(v, modeId);
+    if (!typography) return null;
+
+    const alias = (property: TypographyProperty) => getCompositeAlias(typography.aliases?.[property], options);
+
+    // Percentages are relative to the font size: unitless line heights and em letter spacing
+    let lineHeight = String(typography.lineHeight);
+    if (typeof typography.lineHeight === 'number') lineHeight = formatCompositeSize(v, 'lineHeight', typography.lineHeight, options);
+    else if (lineHeight.endsWith('%')) lineHeight = String(percentToRatio(lineHeight));
+
+    let letterSpacing = String(typography.letterSpacing);
+    if (typeof typography.letterSpacing === 'number') letterSpacing = formatCompositeSize(v, 'letterSpacing', typography.letterSpacing, options);
+    else if (letterSpacing.endsWith('%')) letterSpacing = `${percentToRatio(letterSpacing)}em`;
+
+    const declarations: [string, string][] = [
+        ['font-family', alias('fontFamily') || JSON.stringify(typography.fontFamily)],
+        ['font-weight', alias('fontWeight') || String(typography.fontWeight)],
+    ];
+    if (typography.fontStyle !== 'normal') declarations.push(['font-style', typography.fontStyle]);
+    declarations.push(
+        ['font-size', alias('fontSize') || formatCompositeSize(v, 'fontSize', typography.fontSize, options)],
+        ['line-height', alias('lineHeight') || lineHeight],
+        ['letter-spacing', alias('letterSpacing') || letterSpacing]
+    );
+    if (typography.textCase === 'small-caps') declarations.push(['font-variant-caps', 'small-caps']);
+    else if (typography.textCase !== 'none') declarations.push(['text-transform', typography.textCase]);
+
+    return declarations;
+}
+
+/**
+ * Style token as a single CSS value: a font shorthand, a box-shadow, a blur() filter or a gradient
+ */
+function getCssCompositeValue(v: CollectionVariableDetail, modeId: string, options: ExportOptions): string | null {
+    const effect = getEffect(v, modeId);
+    if (effect) return getCssEffect(v, effect, options);
+
+    const gradient = getGradient(v, modeId);
+    if (gradient) {
+        return formatCssGradient(gradient, gradient.stops.map(stop => ({
+            color: formatCompositeColor(v, stop.color, stop.alias, options),
+            position: stop.position,
+        })));
     }
-    if (v.type === 'number' || v.type === 'spacing' || v.type === 'borderRadius' || v.type === 'typography') {
-        if (typeof rawValue === 'number' || !isNaN(Number(rawValue))) {
-            // Use per-variable unit if available, otherwise use global unit
-            const unit = options.unitPerVariable?.get(v.id) || options.unitFormat;
-            return formatUnit(Number(rawValue), unit, options.baseFontSize);
+
+    const declarations = getCssTypography(v, modeId, options);
+    if (!declarations) return null;
+
+    const get = (property: string) => declarations.find(([name]) => name === property)?.[1] || '';
+    return formatFontShorthand({
+        fontStyle: get('font-style'),
+        fontWeight: get('font-weight'),
+        fontSize: get('font-size'),
+        lineHeight: get('line-height'),
+        fontFamily: get('font-family'),
+    });
+}
+
+/**
+ * Grid settings keyed by property suffix (columns, column-gutter, column-margin,
+ * column-width, column-alignment, the row equivalents and grid-size). A second
+ * layout with the same pattern gets a numbered suffix.
+ */
+function getGridProperties(v: CollectionVariableDetail, modeId: string, options: ExportOptions): [string, string][] | null {
+    const grid = getGrid(v, modeId);
+    if (!grid) return null;
+
+    const properties: [string, string][] = [];
+    const occurrences = new Map<string, number>();
+
+    grid.layouts.forEach(layout => {
+        const alias = (key: keyof NonNullable<typeof layout.aliases>) => getCompositeAlias(layout.aliases?.[key], options);
+        const size = (key: 'gutter' | 'margin' | 'sectionSize', px: number) => alias(key) || formatCompositeSize(v, key, px, options);
+
+        const occurrence = (occurrences.get(layout.pattern) || 0) + 1;
+        occurrences.set(layout.pattern, occurrence);
+        const suffix = occurrence > 1 ? `-${occurrence}` : '';
+
+        if (layout.pattern === 'grid') {
+            properties.push([`grid-size${suffix}`, size('sectionSize', layout.sectionSize ?? 0)]);
+            return;
         }
+
+        const single = layout.pattern === 'columns' ? 'column' : 'row';
+        properties.push(
+            [`${layout.pattern}${suffix}`, alias('count') || (layout.count !== undefined ? String(layout.count) : 'auto')],
+            [`${single}-gutter${suffix}`, size('gutter', layout.gutter)],
+            [`${single}-margin${suffix}`, size('margin', layout.margin)]
+        );
+        if (layout.sectionSize !== undefined) {
+            properties.push([`${single}-${layout.pattern === 'columns' ? 'width' : 'height'}${suffix}`, size('sectionSize', layout.sectionSize)]);
+        }
+        properties.push([`${single}-alignment${suffix}`, layout.alignment]);
+    });
+
+    return properties;
+}
+
+/**
+ * Shadow and gradient colors go through the color transforms. Hex drops the
+ * alpha channel, so translucent colors fall back to rgba().
+ */
+function formatCompositeColor(v: CollectionVariableDetail, color: string, aliasName: string | undefined, options: ExportOptions): string {
+    const alias = getCompositeAlias(aliasName, options);
+    if (alias) return alias;
+
+    const rgba = parseColor(color);
+    const colorOptions = options.colorFormat === 'hex' && rgba && rgba.a < 1 ? { ...options, colorFormat: 'rgba' } : options;
+    return String(applyValueTransforms(color, { ...v, type: 'color' }, colorOptions));
+}
+
+function getShadowSize(v: CollectionVariableDetail, layer: ShadowLayer, property: 'offsetX' | 'offsetY' | 'blur' | 'spread', options: ExportOptions): string {
+    return getCompositeAlias(layer.aliases?.[property], options) || formatCompositeSize(v, property, layer[property], options);
+}
+
+function getBlurSize(v: CollectionVariableDetail, effect: EffectValue, options: ExportOptions): string {
+    const key = effect.blur !== undefined ? 'blur' : 'backgroundBlur';
+    return getCompositeAlias(effect.aliases?.[key], options) || formatCompositeSize(v, 'blur', effect[key] ?? 0, options);
+}
+
+function getCssEffect(v: CollectionVariableDetail, effect: EffectValue, options: ExportOptions): string {
+    if (effect.shadows.length === 0) return `blur(${getBlurSize(v, effect, options)})`;
+
+    return formatBoxShadow(effect.shadows.map(layer => ({
+        inset: layer.inset,
+        offsetX: getShadowSize(v, layer, 'offsetX', options),
+        offsetY: getShadowSize(v, layer, 'offsetY', options),
+        blur: getShadowSize(v, layer, 'blur', options),
+        spread: getShadowSize(v, layer, 'spread', options),
+        color: formatCompositeColor(v, layer.color, layer.aliases?.color, options),
+    })));
+}
+
+/**
+ * DTCG value of a style token: a shadow array, a blur dimension, gradient stops or a typography object
+ */
+function getDTCGComposite(v: CollectionVariableDetail, modeId: string, options: ExportOptions): DTCGValue | null {
+    const gradient = getGradient(v, modeId);
+    if (gradient) {
+        return gradient.stops.map(stop => ({
+            color: formatCompositeColor(v, stop.color, stop.alias, options),
+            position: stop.position,
+        }));
+    }
+
+    const effect = getEffect(v, modeId);
+    if (effect && effect.shadows.length === 0) return getBlurSize(v, effect, options);
+    if (effect) {
+        return effect.shadows.map(layer => {
+            const shadow: DTCGObject = {
+                color: formatCompositeColor(v, layer.color, layer.aliases?.color, options),
+                offsetX: getShadowSize(v, layer, 'offsetX', options),
+                offsetY: getShadowSize(v, layer, 'offsetY', options),
+                blur: getShadowSize(v, layer, 'blur', options),
+                spread: getShadowSize(v, layer, 'spread', options),
+            };
+            if (layer.inset) shadow.inset = true;
+            return shadow;
+        });
     }
 
-    return String(rawValue);
+    return getDTCGTypography(v, modeId, options);
+}
+
+/**
+ * DTCG typography value. Line heights are ratios of the font size and letter
+ * spacing is a dimension, as the spec requires.
+ */
+function getDTCGTypography(v: CollectionVariableDetail, modeId: string, options: ExportOptions): DTCGObject | null {
+    const typography = getTypography(v, modeId);
+    if (!typography) return null;
+
+    const alias = (property: TypographyProperty) => getCompositeAlias(typography.aliases?.[property], options);
+
+    // 'normal' is roughly 1.2 in browsers
+    let lineHeight = 1.2;
+    if (typeof typography.lineHeight === 'number') lineHeight = parseFloat((typography.lineHeight / typography.fontSize).toFixed(4));
+    else if (typography.lineHeight.endsWith('%')) lineHeight = percentToRatio(typography.lineHeight);
+
+    const letterSpacingPx = typeof typography.letterSpacing === 'number'
+        ? typography.letterSpacing
+        : parseFloat((percentToRatio(typography.letterSpacing) * typography.fontSize).toFixed(4));
+
+    return {
+        fontFamily: alias('fontFamily') || typography.fontFamily,
+        fontWeight: alias('fontWeight') || typography.fontWeight,
+        fontSize: alias('fontSize') || formatCompositeSize(v, 'fontSize', typography.fontSize, options),
+        lineHeight: alias('lineHeight') || lineHeight,
+        letterSpacing: alias('letterSpacing') || formatCompositeSize(v, 'letterSpacing', letterSpacingPx, options),
+    };
+}
+
+function normalizeModeName(name: string): string {
+    return name.toLowerCase().replace(/\s+/g, '-');
+}
+
+function getCssModeSelector(mode: ExportMode, strategy: CssThemeStrategy): { open: string[]; close: string[] } {
+    const modeKey = normalizeModeName(mode.name);
+
+    if (strategy === 'media-query' && (modeKey === 'dark' || modeKey === 'light')) {
+        return { open: [`@media (prefers-color-scheme: ${modeKey}) {`, '  :root {'], close: ['  }', '}'] };
+    }
+    if (strategy === 'class') {
+        return { open: [`.theme-${modeKey} {`], close: ['}'] };
+    }
+    // Data attribute is also the fallback for modes that have no media query equivalent
+    return { open: [`[data-theme="${modeKey}"] {`], close: ['}'] };
 }
 
 function generateCSS(variables: CollectionVariableDetail[], options: ExportOptions): string {
-    const sections: string[] = [];
+    const defaultMode = options.modes.find(m => m.modeId === options.defaultModeId) || options.modes[0];
+    if (!defaultMode) return '';
+
+    const strategy = options.cssThemeStrategy || 'data-attribute';
+    const defaultValues = new Map<string, string>();
+
+    const rootLines = [`/* Mode: ${defaultMode.name} (default) */`, ':root {'];
+    variables.forEach(v => {
+        getCssCustomProperties(v, defaultMode.modeId, options).forEach(([name, val]) => {
+            defaultValues.set(name, val);
+            rootLines.push(`  --${name}: ${val};`);
+        });
+    });
+    rootLines.push('}');
+
+    const sections: string[] = [rootLines.join('\n')];
+
+    // Override blocks only carry tokens that differ from the default mode
+    options.modes.filter(mode => mode !== defaultMode).forEach(mode => {
+        const { open, close } = getCssModeSelector(mode, strategy);
+        const indent = '  '.repeat(open.length);
+        const lines: string[] = [];
 
-    options.modes.forEach(mode => {
-        const lines = [`/* Mode: ${mode.name} */`, ':root {'];
         variables.forEach(v => {
-            const val = processValue(v, mode.modeId, options);
-            const name = normalizeDashName(v.name);
-            lines.push(`  --${name}: ${val};`);
+            getCssCustomProperties(v, mode.modeId, options).forEach(([name, val]) => {
+                if (val !== defaultValues.get(name)) {
+                    lines.push(`${indent}--${name}: ${val};`);
+                }
+            });
         });
-        lines.push('}');
-        sections.push(lines.join('\n'));
+
+        if (lines.length === 0) return;
+        sections.push([`/* Mode: ${mode.name} */`, ...open, ...lines, ...close].join('\n'));
     });
 
+    // Utility classes for typography tokens, e.g. .heading-h1 { font-family: ...; }
+    const typographyClasses = variables
+        .map(v => {
+            const declarations = getCssTypography(v, defaultMode.modeId, options);
+            if (!declarations) return null;
+            return [
+                `.${getWebName(v.name, options)} {`,
+                ...declarations.map(([property, value]) => `  ${property}: ${value};`),
+                '}',
+            ].join('\n');
+        })
+        .filter((block): block is string => block !== null);
+
+    if (typographyClasses.length > 0) {
+        sections.push(['/* Typography */', ...typographyClasses].join('\n'));
+    }
+
     return sections.join('\n\n');
 }
 
+/**
+ * Custom properties for a token, without the leading "--".
+ * Grid tokens expand into one property per setting, e.g. --grid-desktop-column-gutter.
+ */
+function getCssCustomProperties(v: CollectionVariableDetail, modeId: string, options: ExportOptions): [string, string][] {
+    const name = getWebName(v.name, options);
+    const grid = getGridProperties(v, modeId, options);
+    if (grid) return grid.map(([key, value]) => [`${name}-${key}`, value]);
+    return [[name, String(processValue(v, modeId, options))]];
+}
+
 function generateSCSS(variables: CollectionVariableDetail[], options: ExportOptions): string {
     const sections: string[] = [];
     options.modes.forEach(mode => {
         const lines: string[] = [`// Mode: ${mode.name}`];
+        const breakpoints: CollectionVariableDetail[] = [];
+
         variables.forEach(v => {
-            const val = processValue(v, mode.modeId, options);
-            const name = normalizeDashName(v.name);
-            lines.push(`$${name}: ${val};`);
+            const name = getWebName(v.name, options);
+            const typography = getCssTypography(v, mode.modeId, options);
+
+            // Grid tokens are collected into a single breakpoint map below
+            if (getGrid(v, mode.modeId)) {
+                breakpoints.push(v);
+                return;
+            }
+
+            // Typography tokens become maps, e.g. for a font mixin
+            if (typography) {
+                lines.push(`$${name}: (`, ...typography.map(([property, value], i) =>
+                    `  ${property}: ${value}${i < typography.length - 1 ? ',' : ''}`
+                ), ');');
+                return;
+            }
+
+            lines.push(`$${name}: ${processValue(v, mode.modeId, options)};`);
         });
+
+        if (breakpoints.length > 0) {
+            lines.push(...getSCSSBreakpointMap(breakpoints, mode.modeId, options));
+        }
+
         sections.push(lines.join('\n'));
     });
     return sections.join('\n\n');
 }
 
+/**
+ * Grid tokens as one SCSS map keyed by breakpoint, e.g.
+ * $grid-breakpoints: (desktop: (columns: 12, column-gutter: 24px, ...), ...);
+ * Keys are the token names without the path segments they all share.
+ */
+function getSCSSBreakpointMap(variables: CollectionVariableDetail[], modeId: string, options: ExportOptions): string[] {
+    const paths = variables.map(v => getTokenPath(v.name, options.naming).map(cleanPathSegment));
+    while (paths.every(path => path.length > 1 && path[0] === paths[0][0])) {
+        paths.forEach(path => path.shift());
+    }
+
+    const lines = [`$${getWebName('grid/breakpoints', options)}: (`];
+    variables.forEach((v, index) => {
+        const properties = getGridProperties(v, modeId, options) || [];
+        lines.push(`  ${paths[index].join('-')}: (`);
+        properties.forEach(([key, value], i) => lines.push(`    ${key}: ${value}${i < properties.length - 1 ? ',' : ''}`));
+        lines.push(`  )${index < variables.length - 1 ? ',' : ''}`);
+    });
+    lines.push(');');
+    return lines;
+}
+
 function generateJSON(variables: CollectionVariableDetail[], options: ExportOptions): string {
     const root: any = {};
 
     options.modes.forEach(mode => {
-        const modeKey = mode.name.toLowerCase().replace(/\s+/g, '-');
+        const modeKey = normalizeModeName(mode.name);
         const modeObj: any = {};
         variables.forEach(v => {
-            const name = normalizeDotName(v.name);
-            modeObj[name] = processValue(v, mode.modeId, options);
+            const name = getJSONName(v.name, options);
+            modeObj[name] = getTypedValue(v, processValue(v, mode.modeId, options));
         });
         root[modeKey] = modeObj;
     });
@@ -132,47 +784,900 @@ function generateJSON(variables: CollectionVariableDetail[], options: ExportOpti
     return JSON.stringify(root, null, 2);
 }
 
-function generateDTCG(variables: CollectionVariableDetail[], options: ExportOptions, collectionName: string): string {
-    // W3C format requires nesting. Adding $modes at the root.
-    const root: any = {
-        $modes: {}
-    };
+type DTCGObject = { [property: string]: string | number | boolean };
+type DTCGValue = string | number | boolean | DTCGObject | DTCGObject[];
 
-    options.modes.forEach(mode => {
-        const modeKey = mode.name.toLowerCase().replace(/\s+/g, '-');
-        const modeRoot: any = {};
+interface DTCGNode {
+    $type?: string;
+    $value?: DTCGValue;
+    $description?: string;
+    $extensions?: DTCGExtensions;
+    [key: string]: DTCGNode | DTCGValue | undefined | DTCGExtensions;
+}
+
+interface DTCGExtensions {
+    mode?: { [modeKey: string]: DTCGValue };
+    'com.figma.gradient'?: { type: GradientValue['type']; angle: number }; // DTCG gradients have no geometry
+    'com.figma.type'?: string; // Our token type, for types DTCG does not define
+}
+
+/**
+ * Token types DTCG has no $type for; their type is kept under $extensions instead
+ */
+const UNTYPED_DTCG_TYPES = ['boolean', 'string'];
+
+/**
+ * Map our token types onto DTCG types
+ * Numbers become dimensions once a unit has been applied
+ */
+function getDTCGType(v: CollectionVariableDetail, value: DTCGValue): string | undefined {
+    if (v.type === 'color') return 'color';
+    if (v.type === 'fontFamily') return 'fontFamily';
+    if (UNTYPED_DTCG_TYPES.includes(v.type)) return undefined;
+    if (typeof value === 'object') return v.type;
+    if (typeof value === 'string' && value.startsWith('{')) return undefined; // Inherited from the alias target
+    if (typeof value === 'number') return 'number';
+    if (typeof value === 'boolean') return undefined;
+    if (/^-?[\d.]+[a-z%]+$/i.test(value)) return 'dimension';
+    return undefined;
+}
+
+function getDTCGValue(v: CollectionVariableDetail, modeId: string, options: ExportOptions): DTCGValue {
+    const composite = getDTCGComposite(v, modeId, options);
+    if (composite !== null) return composite;
+
+    const val = getTypedValue(v, processValue(v, modeId, options));
+    if (typeof val === 'number' || typeof val === 'boolean') return val;
+    // Unitless numbers are emitted as JSON numbers rather than strings
+    if (v.type !== 'color' && v.type !== 'string' && typeof val === 'string' && val.trim() !== '' && !isNaN(Number(val))) return Number(val);
+    return String(val);
+}
 
+function isDTCGToken(node: DTCGNode): boolean {
+    return '$value' in node;
+}
+
+function getDTCGChildren(node: DTCGNode): DTCGNode[] {
+    return Object.keys(node)
+        .filter(key => !key.startsWith('$'))
+        .map(key => node[key] as DTCGNode);
+}
+
+/**
+ * Move $type up to groups whose tokens all share it, so leaves inherit it
+ * Returns the group's shared type, if any
+ */
+function inheritDTCGTypes(group: DTCGNode, isRoot: boolean): string | undefined {
+    const children = getDTCGChildren(group);
+    const childTypes = children.map(child => isDTCGToken(child) ? child.$type : inheritDTCGTypes(child, false));
+
+    const sharedType = childTypes[0];
+    if (!sharedType || childTypes.some(type => type !== sharedType)) return undefined;
+    if (isRoot) return sharedType;
+
+    children.forEach(child => { delete child.$type; });
+
+    // Re-insert children so $type is listed first in the group
+    const entries = Object.keys(group).map(key => [key, group[key]] as const);
+    entries.forEach(([key]) => { delete group[key]; });
+    group.$type = sharedType;
+    entries.forEach(([key, value]) => { group[key] = value; });
+
+    return sharedType;
+}
+
+/**
+ * Dot paths of tokens that are also the group of other tokens, e.g. "color.blue" next to
+ * "color.blue.500". Such tokens are written under a DEFAULT key in their group, as in Tailwind.
+ */
+function getGroupTokenPaths(paths: string[][]): Set<string> {
+    const tokenPaths = new Set(paths.map(path => path.join('.')));
+    const groupPaths = new Set<string>();
+    paths.forEach(path => {
+        for (let i = 1; i < path.length; i++) {
+            const parent = path.slice(0, i).join('.');
+            if (tokenPaths.has(parent)) groupPaths.add(parent);
+        }
+    });
+    return groupPaths;
+}
+
+/**
+ * Point "{path}" references to tokens moved under DEFAULT at their new path
+ */
+function redirectGroupTokenRefs(value: DTCGValue, groupPaths: Set<string>): DTCGValue {
+    if (typeof value === 'string') {
+        const match = value.match(/^\{(.+)\}$/);
+        return match && groupPaths.has(match[1]) ? `{${match[1]}.DEFAULT}` : value;
+    }
+    if (Array.isArray(value)) return value.map(item => redirectGroupTokenRefs(item, groupPaths) as DTCGObject);
+    if (typeof value === 'object') {
+        const result: DTCGObject = {};
+        Object.keys(value).forEach(key => { result[key] = redirectGroupTokenRefs(value[key], groupPaths) as DTCGObject[string]; });
+        return result;
+    }
+    return value;
+}
+
+function buildDTCGTree(
+    variables: CollectionVariableDetail[],
+    modeId: string,
+    options: ExportOptions,
+    extraModes: ExportMode[]
+): DTCGNode {
+    const root: DTCGNode = {};
+
+    // Layout grids have no DTCG type
+    const exported = variables.filter(v => v.valuesByMode[modeId] && !getGrid(v, modeId));
+    const groupPaths = getGroupTokenPaths(exported.map(v => getTokenPath(v.name, options.naming).map(cleanPathSegment)));
+
+    exported.forEach(v => {
+        const path = getTokenPath(v.name, options.naming).map(cleanPathSegment);
+        if (groupPaths.has(path.join('.'))) path.push('DEFAULT');
+        const value = redirectGroupTokenRefs(getDTCGValue(v, modeId, options), groupPaths);
+
+        let current = root;
+        path.slice(0, -1).forEach(part => {
+            const next = current[part];
+            if (!next || typeof next !== 'object' || isDTCGToken(next as DTCGNode)) current[part] = {};
+            current = current[part] as DTCGNode;
+        });
+
+        const leaf: DTCGNode = { $value: value };
+        const type = getDTCGType(v, value);
+        if (type) leaf.$type = type;
+        if (v.description) leaf.$description = v.description;
+
+        if (extraModes.length > 0) {
+            const modeValues: { [modeKey: string]: DTCGValue } = {};
+            extraModes.forEach(mode => {
+                modeValues[normalizeModeName(mode.name)] = redirectGroupTokenRefs(getDTCGValue(v, mode.modeId, options), groupPaths);
+            });
+            leaf.$extensions = { mode: modeValues };
+        }
+
+        const gradient = getGradient(v, modeId);
+        if (gradient) {
+            leaf.$extensions = { ...leaf.$extensions, 'com.figma.gradient': { type: gradient.type, angle: gradient.angle } };
+        }
+        if (UNTYPED_DTCG_TYPES.includes(v.type)) {
+            leaf.$extensions = { ...leaf.$extensions, 'com.figma.type': v.type };
+        }
+
+        current[path[path.length - 1]] = leaf;
+    });
+
+    inheritDTCGTypes(root, true);
+    return root;
+}
+
+/**
+ * Spec-shaped DTCG output. The first mode provides $value, every mode is
+ * listed under $extensions.mode (the convention Terrazzo reads).
+ */
+function generateDTCG(variables: CollectionVariableDetail[], options: ExportOptions): string {
+    const defaultMode = options.modes[0];
+    if (!defaultMode) return '{}';
+
+    const extraModes = options.modes.length > 1 ? options.modes : [];
+    return JSON.stringify(buildDTCGTree(variables, defaultMode.modeId, options, extraModes), null, 2);
+}
+
+/**
+ * One DTCG file per mode, e.g. for Style Dictionary themes
+ */
+function generateDTCGFiles(variables: CollectionVariableDetail[], options: ExportOptions): ExportFile[] {
+    return options.modes.map(mode => ({
+        path: `${normalizeModeName(mode.name)}.tokens.json`,
+        content: JSON.stringify(buildDTCGTree(variables, mode.modeId, options, []), null, 2),
+    }));
+}
+
+/**
+ * Tailwind theme sections we populate, with the leading path segments that
+ * are dropped when nesting (e.g. "color/brand/primary" -> colors.brand.primary)
+ */
+const TAILWIND_SECTIONS: { [section: string]: string[] } = {
+    colors: ['color', 'colors'],
+    spacing: ['spacing', 'space'],
+    borderRadius: ['radius', 'radii', 'border-radius', 'borderradius', 'rounded'],
+    fontSize: ['font-size', 'fontsize', 'font-sizes', 'text'],
+    lineHeight: ['line-height', 'lineheight', 'leading'],
+    fontFamily: ['font-family', 'fontfamily', 'font-families'],
+    opacity: ['opacity'],
+    boxShadow: ['shadow', 'shadows', 'box-shadow', 'elevation'],
+    backgroundImage: ['gradient', 'gradients'],
+};
+
+interface TailwindThemeNode {
+    [key: string]: string | TailwindThemeNode;
+}
+
+function getTailwindSection(v: CollectionVariableDetail): string | null {
+    if (v.type === 'color') return 'colors';
+    if (v.type === 'shadow') return 'boxShadow';
+    if (v.type === 'gradient') return 'backgroundImage';
+    if (isStyleToken(v)) return null; // Other style tokens have no theme section
+    if (v.type === 'spacing') return 'spacing';
+    if (v.type === 'borderRadius') return 'borderRadius';
+    if (v.type === 'fontSize' || v.type === 'lineHeight' || v.type === 'fontFamily' || v.type === 'opacity') return v.type;
+
+    if (v.type === 'number' || v.type === 'typography') {
+        // Numeric variables are untyped in Figma, so fall back to the name
+        const first = v.name.split('/')[0].trim().toLowerCase().replace(/\s+/g, '-');
+        const section = Object.keys(TAILWIND_SECTIONS).find(key => TAILWIND_SECTIONS[key].includes(first));
+        if (section && !['colors', 'boxShadow', 'backgroundImage'].includes(section)) return section;
+        if (v.type === 'number') return 'spacing';
+    }
+
+    return null;
+}
+
+function generateTailwind(variables: CollectionVariableDetail[], options: ExportOptions): string {
+    // Tailwind has no notion of modes, so the config is built from the first selected mode.
+    // Multi-mode setups should use alias mode and pair this with the CSS output.
+    const mode = options.modes[0];
+    const extend: { [section: string]: TailwindThemeNode } = {};
+
+    if (mode) {
         variables.forEach(v => {
-            const val = processValue(v, mode.modeId, options);
-            const path = v.name.split('/');
+            const section = getTailwindSection(v);
+            if (!section) return;
+
+            const path = getTokenPath(v.name, options.naming).map(cleanPathSegment);
+            if (path.length > 1 && TAILWIND_SECTIONS[section].includes(path[0])) {
+                path.shift();
+            }
+
+            if (!extend[section]) extend[section] = {};
+            setTailwindValue(extend[section], path, String(processValue(v, mode.modeId, options)));
+        });
+    }
+
+    const config = { theme: { extend } };
+
+    return [
+        `/** @type {import('tailwindcss').Config} */`,
+        `module.exports = ${JSON.stringify(config, null, 2)};`,
+    ].join('\n');
+}
+
+/**
+ * Set a nested theme value, using Tailwind's DEFAULT key when a token is
+ * both a value and a group (e.g. "blue" and "blue/500")
+ */
+function setTailwindValue(root: TailwindThemeNode, path: string[], value: string) {
+    let current = root;
+
+    path.forEach((part, index) => {
+        const existing = current[part];
+
+        if (index === path.length - 1) {
+            if (existing && typeof existing === 'object') {
+                existing.DEFAULT = value;
+            } else {
+                current[part] = value;
+            }
+            return;
+        }
 
-            let current = modeRoot;
-            path.forEach((part, index) => {
-                const cleanPart = part.toLowerCase().replace(/\s+/g, '-');
+        if (typeof existing === 'string') {
+            current[part] = { DEFAULT: existing };
+        } else if (!existing) {
+            current[part] = {};
+        }
+        current = current[part] as TailwindThemeNode;
+    });
+}
 
-                if (!current[cleanPart]) current[cleanPart] = {};
+/**
+ * Pick the light and dark modes for platforms that only theme by appearance.
+ * Matches mode names first, then falls back to the first and second selected modes.
+ */
+function getAppearanceModes(modes: ExportMode[]): { light?: ExportMode; dark?: ExportMode } {
+    const light = modes.find(m => /light/i.test(m.name)) || modes.find(m => !/dark/i.test(m.name)) || modes[0];
+    const dark = modes.find(m => m !== light && /dark/i.test(m.name)) || modes.find(m => m !== light);
+    return { light, dark };
+}
 
-                if (index === path.length - 1) {
-                    const leaf: any = {
-                        $type: v.type,
-                        $description: v.description
-                    };
+function formatSwiftNumber(n: number): string {
+    return String(parseFloat(n.toFixed(3)));
+}
+
+function formatSwiftColorComponents(value: string | number | undefined, alphaLabel: 'alpha' | 'opacity'): string | null {
+    const rgba = parseColor(String(value));
+    if (!rgba) return null;
+    const F = formatSwiftNumber;
+    return `red: ${F(rgba.r)}, green: ${F(rgba.g)}, blue: ${F(rgba.b)}, ${alphaLabel}: ${F(rgba.a)}`;
+}
 
-                    if (val && typeof val === 'object' && val.$ref) {
-                        leaf.$value = { $ref: val.$ref };
-                    } else {
-                        leaf.$value = val;
-                    }
+function generateSwift(variables: CollectionVariableDetail[], options: ExportOptions, collectionName: string): string {
+    const { light, dark } = getAppearanceModes(options.modes);
+    const colors: string[] = [];
+    const numbers: string[] = [];
+    const others: string[] = [];
 
-                    current[cleanPart] = leaf;
+    if (light) {
+        variables.forEach(v => {
+            // Style tokens would only be CSS summaries here
+            if (isStyleToken(v)) return;
+
+            const name = formatTokenName(v.name, options.naming, 'camel');
+            const lightValue = getResolvedValue(v, light.modeId);
+            if (lightValue === undefined) return;
+
+            if (v.type === 'color') {
+                const lightColor = formatSwiftColorComponents(lightValue, 'alpha');
+                if (!lightColor) return;
+
+                const darkColor = dark ? formatSwiftColorComponents(getResolvedValue(v, dark.modeId), 'alpha') : null;
+                if (darkColor && darkColor !== lightColor) {
+                    colors.push(
+                        `    static let ${name} = Color(UIColor { traitCollection in`,
+                        `        traitCollection.userInterfaceStyle == .dark`,
+                        `            ? UIColor(${darkColor})`,
+                        `            : UIColor(${lightColor})`,
+                        `    })`
+                    );
                 } else {
-                    current = current[cleanPart];
+                    colors.push(`    static let ${name} = Color(${formatSwiftColorComponents(lightValue, 'opacity')})`);
                 }
-            });
+            } else if (v.type === 'boolean') {
+                others.push(`    public static let ${name} = ${lightValue === 'true'}`);
+            } else if (v.type !== 'string' && (typeof lightValue === 'number' || (lightValue !== '' && !isNaN(Number(lightValue))))) {
+                const n = v.type === 'opacity' ? getOpacityRatio(lightValue) : Number(lightValue);
+                numbers.push(`    static let ${name}: CGFloat = ${formatSwiftNumber(n)}`);
+            } else {
+                others.push(`    public static let ${name} = ${JSON.stringify(String(lightValue))}`);
+            }
         });
+    }
 
-        root.$modes[modeKey] = modeRoot;
+    const sections: string[] = [
+        `// ${collectionName}`,
+        '// Generated by Design Tokens Manager',
+        '',
+        'import SwiftUI',
+        'import UIKit',
+    ];
+
+    if (colors.length > 0) {
+        sections.push('', 'public extension Color {', ...colors, '}');
+    }
+    if (numbers.length > 0) {
+        sections.push('', 'public extension CGFloat {', ...numbers, '}');
+    }
+    if (others.length > 0) {
+        sections.push('', `public enum ${normalizePascalName(collectionName) || 'Tokens'} {`, ...others, '}');
+    }
+
+    return sections.join('\n');
+}
+
+/**
+ * Format a color as an 8-digit ARGB hex string (AARRGGBB), as used by Android and Compose
+ */
+function formatArgbHex(value: string | number | undefined): string | null {
+    const rgba = parseColor(String(value));
+    if (!rgba) return null;
+    const toHex = (n: number) => Math.round(n * 255).toString(16).padStart(2, '0');
+    return `${toHex(rgba.a)}${toHex(rgba.r)}${toHex(rgba.g)}${toHex(rgba.b)}`.toUpperCase();
+}
+
+function isNumericValue(value: string | number | undefined): boolean {
+    return typeof value === 'number' || (value !== undefined && value !== '' && !isNaN(Number(value)));
+}
+
+/**
+ * Font related sizes scale with the user's font size setting on Android
+ */
+function getAndroidDimenUnit(v: CollectionVariableDetail): 'sp' | 'dp' {
+    if (v.type === 'fontSize' || v.type === 'lineHeight') return 'sp';
+    return /font|text|line-?height|letter/i.test(v.name) ? 'sp' : 'dp';
+}
+
+function escapeXml(value: string): string {
+    return value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '\\"')
+        .replace(/'/g, "\\'");
+}
+
+// Floats are written as <item type="dimen" format="float"> next to the dimens
+type AndroidResourceKind = 'color' | 'dimen' | 'float' | 'bool' | 'string';
+
+function getAndroidResource(
+    v: CollectionVariableDetail,
+    modeId: string,
+    options: ExportOptions
+): { kind: AndroidResourceKind; value: string } | null {
+    const modeVal = v.valuesByMode[modeId];
+    if (!modeVal) return null;
+
+    const resolved = getResolvedValue(v, modeId);
+    let kind: AndroidResourceKind;
+    if (v.type === 'color') kind = 'color';
+    else if (v.type === 'boolean') kind = 'bool';
+    else if (v.type === 'opacity' && isNumericValue(resolved)) kind = 'float';
+    else if (v.type !== 'string' && isNumericValue(resolved)) kind = 'dimen';
+    else kind = 'string';
+
+    // Android resources can reference each other, so keep aliases as @kind/name
+    const raw = modeVal.value;
+    if (options.aliasMode === 'alias' && typeof raw === 'string' && raw.startsWith('{') && raw.endsWith('}')) {
+        return { kind, value: `@${kind === 'float' ? 'dimen' : kind}/${formatTokenName(raw.slice(1, -1), options.naming, 'snake')}` };
+    }
+
+    if (resolved === undefined) return null;
+
+    if (kind === 'color') {
+        const argb = formatArgbHex(resolved);
+        return argb ? { kind, value: `#${argb}` } : null;
+    }
+    if (kind === 'dimen') {
+        return { kind, value: `${Number(resolved)}${getAndroidDimenUnit(v)}` };
+    }
+    if (kind === 'float') {
+        return { kind, value: String(getOpacityRatio(resolved)) };
+    }
+    if (kind === 'bool') {
+        return { kind, value: String(resolved === 'true') };
+    }
+    return { kind, value: escapeXml(String(resolved)) };
+}
+
+function generateAndroidResources(variables: CollectionVariableDetail[], options: ExportOptions): ExportFile[] {
+    const { light, dark } = getAppearanceModes(options.modes);
+    if (!light) return [];
+
+    const resources: { [kind in AndroidResourceKind]: string[] } = { color: [], dimen: [], float: [], bool: [], string: [] };
+    const nightColors: string[] = [];
+
+    variables.forEach(v => {
+        if (isStyleToken(v)) return;
+
+        const name = formatTokenName(v.name, options.naming, 'snake');
+        const res = getAndroidResource(v, light.modeId, options);
+        if (!res) return;
+
+        resources[res.kind].push(res.kind === 'float'
+            ? `    <item name="${name}" type="dimen" format="float">${res.value}</item>`
+            : `    <${res.kind} name="${name}">${res.value}</${res.kind}>`);
+
+        // Only colors are themed through values-night, and only when they differ
+        if (dark && res.kind === 'color') {
+            const night = getAndroidResource(v, dark.modeId, options);
+            if (night && night.value !== res.value) {
+                nightColors.push(`    <color name="${name}">${night.value}</color>`);
+            }
+        }
     });
 
-    return JSON.stringify(root, null, 2);
+    const toXml = (lines: string[]) => [
+        '<?xml version="1.0" encoding="utf-8"?>',
+        '<resources>',
+        ...lines,
+        '</resources>',
+    ].join('\n');
+
+    const files: ExportFile[] = [];
+    if (resources.color.length > 0) files.push({ path: 'values/colors.xml', content: toXml(resources.color) });
+    if (resources.dimen.length + resources.float.length > 0) {
+        files.push({ path: 'values/dimens.xml', content: toXml([...resources.dimen, ...resources.float]) });
+    }
+    if (resources.bool.length > 0) files.push({ path: 'values/bools.xml', content: toXml(resources.bool) });
+    if (resources.string.length > 0) files.push({ path: 'values/strings.xml', content: toXml(resources.string) });
+    if (nightColors.length > 0) files.push({ path: 'values-night/colors.xml', content: toXml(nightColors) });
+
+    return files;
+}
+
+function getComposeProperty(v: CollectionVariableDetail, modeId: string, naming?: NamingOptions): string | null {
+    const value = getResolvedValue(v, modeId);
+    if (value === undefined || isStyleToken(v)) return null;
+
+    const name = formatTokenName(v.name, naming, 'camel');
+
+    if (v.type === 'color') {
+        const argb = formatArgbHex(value);
+        return argb ? `val ${name} = Color(0x${argb})` : null;
+    }
+    if (v.type === 'boolean') {
+        return `const val ${name} = ${value === 'true'}`;
+    }
+    if (v.type === 'opacity' && isNumericValue(value)) {
+        return `const val ${name} = ${getOpacityRatio(value)}f`;
+    }
+    if (v.type !== 'string' && isNumericValue(value)) {
+        return `val ${name} = ${Number(value)}.${getAndroidDimenUnit(v)}`;
+    }
+    return `const val ${name} = ${JSON.stringify(String(value))}`;
+}
+
+function generateCompose(variables: CollectionVariableDetail[], options: ExportOptions, collectionName: string): string {
+    const lines: string[] = [
+        `// ${collectionName}`,
+        '// Generated by Design Tokens Manager',
+        '',
+        'import androidx.compose.ui.graphics.Color',
+        'import androidx.compose.ui.unit.dp',
+        'import androidx.compose.ui.unit.sp',
+        '',
+        'object Tokens {',
+    ];
+
+    const collectProperties = (modeId: string, indent: string) => variables
+        .map(v => getComposeProperty(v, modeId, options.naming))
+        .filter((p): p is string => p !== null)
+        .map(p => `${indent}${p}`);
+
+    if (options.modes.length === 1) {
+        lines.push(...collectProperties(options.modes[0].modeId, '    '));
+    } else {
+        // One nested object per mode, e.g. Tokens.Light.colorPrimary / Tokens.Dark.colorPrimary
+        options.modes.forEach((mode, index) => {
+            if (index > 0) lines.push('');
+            lines.push(`    object ${normalizePascalName(mode.name) || `Mode${index + 1}`} {`);
+            lines.push(...collectProperties(mode.modeId, '        '));
+            lines.push('    }');
+        });
+    }
+
+    lines.push('}');
+    return lines.join('\n');
+}
+
+interface DartField {
+    name: string;
+    dartType: 'Color' | 'double' | 'bool' | 'String';
+    variable: CollectionVariableDetail;
+}
+
+function getDartLiteral(field: DartField, modeId: string): string {
+    const value = getResolvedValue(field.variable, modeId);
+
+    if (field.dartType === 'Color') {
+        const argb = formatArgbHex(value);
+        return `Color(0x${argb || '00000000'})`;
+    }
+    if (field.dartType === 'double') {
+        const n = field.variable.type === 'opacity' && value !== undefined ? getOpacityRatio(value) : Number(value);
+        return isNaN(n) ? '0.0' : (Number.isInteger(n) ? `${n}.0` : String(n));
+    }
+    if (field.dartType === 'bool') {
+        return String(value === 'true');
+    }
+    return `'${String(value ?? '').replace(/\\/g, '\\\\').replace(/'/g, "\\'").replace(/\$/g, '\\$')}'`;
+}
+
+/**
+ * Words a Dart member cannot be named, plus the ThemeExtension methods every generated class defines
+ */
+const DART_RESERVED_WORDS = new Set([
+    'assert', 'await', 'break', 'case', 'catch', 'class', 'const', 'continue', 'default', 'do', 'else',
+    'enum', 'extends', 'false', 'final', 'finally', 'for', 'if', 'in', 'is', 'new', 'null', 'rethrow',
+    'return', 'super', 'switch', 'this', 'throw', 'true', 'try', 'var', 'void', 'while', 'with', 'yield',
+    'copyWith', 'lerp', 'type', 'hashCode', 'runtimeType', 'toString', 'noSuchMethod',
+]);
+
+/**
+ * Public Dart identifier for a mode constant (e.g. "Default" -> "defaultMode", "2x" -> "mode2x")
+ */
+function getDartModeName(name: string, index: number): string {
+    const camel = normalizeCamelName(name).replace(/^_+/, '');
+    if (!camel) return `mode${index + 1}`;
+    if (/^\d/.test(camel)) return `mode${camel}`;
+    return DART_RESERVED_WORDS.has(camel) ? `${camel}Mode` : camel;
+}
+
+/**
+ * Public Dart identifier for a token field, kept apart from the mode constants and earlier fields
+ * (e.g. "default" -> "defaultToken", "2xl" -> "token2xl", "light" next to a Light mode -> "lightToken")
+ */
+function getDartFieldName(name: string, index: number, taken: Set<string>): string {
+    const camel = name.replace(/^_+/, '');
+    let field = camel;
+    if (!camel) field = `token${index + 1}`;
+    else if (/^\d/.test(camel)) field = `token${camel}`;
+    else if (DART_RESERVED_WORDS.has(camel) || taken.has(camel)) field = `${camel}Token`;
+
+    let unique = field;
+    for (let n = 2; taken.has(unique); n++) unique = `${field}${n}`;
+    taken.add(unique);
+    return unique;
+}
+
+function generateDart(variables: CollectionVariableDetail[], options: ExportOptions, collectionName: string): string {
+    const baseName = normalizePascalName(collectionName) || 'Design';
+    const className = baseName.endsWith('Tokens') ? baseName : `${baseName}Tokens`;
+    const firstMode = options.modes[0];
+    const modeNames = options.modes.map((mode, index) => getDartModeName(mode.name, index));
+    // Static constants and instance fields share one namespace in a Dart class
+    const takenNames = new Set(modeNames);
+
+    const fields: DartField[] = variables
+        .filter(v => firstMode && !isStyleToken(v) && getResolvedValue(v, firstMode.modeId) !== undefined)
+        .map((v, index) => {
+            let dartType: DartField['dartType'] = 'String';
+            if (v.type === 'color') dartType = 'Color';
+            else if (v.type === 'boolean') dartType = 'bool';
+            else if (v.type !== 'string' && isNumericValue(getResolvedValue(v, firstMode.modeId))) dartType = 'double';
+            const name = getDartFieldName(formatTokenName(v.name, options.naming, 'camel'), index, takenNames);
+            return { name, dartType, variable: v };
+        });
+
+    const lerpField = (f: DartField) => {
+        if (f.dartType === 'Color') return `Color.lerp(${f.name}, other.${f.name}, t)!`;
+        if (f.dartType === 'double') return `lerpDouble(${f.name}, other.${f.name}, t)!`;
+        return `t < 0.5 ? ${f.name} : other.${f.name}`;
+    };
+
+    const lines: string[] = [
+        `// ${collectionName}`,
+        '// Generated by Design Tokens Manager',
+        '',
+        "import 'dart:ui' show lerpDouble;",
+        '',
+        "import 'package:flutter/material.dart';",
+        '',
+        '@immutable',
+        `class ${className} extends ThemeExtension<${className}> {`,
+        `  const ${className}({`,
+        ...fields.map(f => `    required this.${f.name},`),
+        '  });',
+        '',
+        ...fields.map(f => `  final ${f.dartType} ${f.name};`),
+    ];
+
+    // One const instance per Figma mode, e.g. BrandTokens.light / BrandTokens.dark
+    options.modes.forEach((mode, index) => {
+        lines.push('');
+        lines.push(`  static const ${modeNames[index]} = ${className}(`);
+        fields.forEach(f => lines.push(`    ${f.name}: ${getDartLiteral(f, mode.modeId)},`));
+        lines.push('  );');
+    });
+
+    lines.push(
+        '',
+        '  @override',
+        `  ${className} copyWith({`,
+        ...fields.map(f => `    ${f.dartType}? ${f.name},`),
+        '  }) {',
+        `    return ${className}(`,
+        ...fields.map(f => `      ${f.name}: ${f.name} ?? this.${f.name},`),
+        '    );',
+        '  }',
+        '',
+        '  @override',
+        `  ${className} lerp(${className}? other, double t) {`,
+        `    if (other is! ${className}) return this;`,
+        `    return ${className}(`,
+        ...fields.map(f => `      ${f.name}: ${lerpField(f)},`),
+        '    );',
+        '  }',
+        '}'
+    );
+
+    return lines.join('\n');
+}
+
+function generateTypeScript(variables: CollectionVariableDetail[], options: ExportOptions, collectionName: string): string {
+    const defaultMode = options.modes[0];
+    const lines: string[] = [
+        `// ${collectionName}`,
+        '// Generated by Design Tokens Manager',
+    ];
+    if (!defaultMode) return lines.join('\n');
+
+    const tokenPath = (v: CollectionVariableDetail) => formatTokenName(v.name, options.naming, 'dot');
+    const toObjectLines = (modeId: string, indent: string) => variables.map(v =>
+        `${indent}${JSON.stringify(tokenPath(v))}: ${JSON.stringify(getTypedValue(v, processValue(v, modeId, options)))},`
+    );
+
+    lines.push('', 'export const tokens = {', ...toObjectLines(defaultMode.modeId, '  '), '} as const;');
+
+    lines.push('', 'export const tokensByMode = {');
+    options.modes.forEach(mode => {
+        lines.push(`  ${JSON.stringify(normalizeModeName(mode.name))}: {`, ...toObjectLines(mode.modeId, '    '), '  },');
+    });
+    lines.push('} as const;');
+
+    lines.push('', 'export type TokenName = keyof typeof tokens;');
+    lines.push('export type TokenMode = keyof typeof tokensByMode;');
+
+    // One union per token type, e.g. ColorToken = 'color.brand.primary' | ...
+    const namesByType = new Map<string, string[]>();
+    variables.forEach(v => {
+        const names = namesByType.get(v.type) || [];
+        names.push(JSON.stringify(tokenPath(v)));
+        namesByType.set(v.type, names);
+    });
+    namesByType.forEach((names, type) => {
+        lines.push(`export type ${normalizePascalName(type)}Token = ${names.join(' | ')};`);
+    });
+
+    if (options.tsCssVarHelper) {
+        lines.push('', 'const cssVarNames: Record<TokenName, string> = {');
+        variables.forEach(v => lines.push(`  ${JSON.stringify(tokenPath(v))}: ${JSON.stringify(getWebName(v.name, options))},`));
+        lines.push('};');
+        lines.push(
+            '',
+            '/**',
+            ' * CSS custom property reference for a token, matching the CSS export',
+            ' */',
+            'export function cssVar(name: TokenName): string {',
+            '  return `var(--${cssVarNames[name]})`;',
+            '}'
+        );
+    }
+
+    return lines.join('\n');
+}
+
+interface TokensStudioNode {
+    [key: string]: TokensStudioNode | DTCGValue;
+}
+
+function getTokensStudioType(v: CollectionVariableDetail, value: DTCGValue): string | undefined {
+    if (v.type === 'color' || v.type === 'spacing' || v.type === 'borderRadius') return v.type;
+    if (v.type === 'shadow') return 'boxShadow';
+    if (v.type === 'gradient') return 'color'; // Tokens Studio stores gradients as CSS color values
+    if (typeof value === 'object') return v.type;
+    if (UNTYPED_DTCG_TYPES.includes(v.type)) return undefined;
+    if (v.type === 'typography') return 'text';
+    if (v.type === 'fontSize') return 'fontSizes';
+    if (v.type === 'lineHeight') return 'lineHeights';
+    if (v.type === 'fontFamily') return 'fontFamilies';
+    if (v.type === 'opacity') return 'opacity';
+    if (typeof value === 'string' && /^-?[\d.]+[a-z%]+$/i.test(value)) return 'dimension';
+    return 'number';
+}
+
+/**
+ * Tokens Studio shares the DTCG typography shape but names shadow fields x/y
+ * and writes gradients as CSS strings
+ */
+function getTokensStudioComposite(v: CollectionVariableDetail, modeId: string, options: ExportOptions): DTCGValue | null {
+    if (v.type === 'gradient') return processValue(v, modeId, options);
+
+    const value = getDTCGComposite(v, modeId, options);
+    if (v.type !== 'shadow' || !Array.isArray(value)) return value;
+
+    return value.map(({ offsetX, offsetY, inset, ...shadow }) => ({
+        ...shadow,
+        x: offsetX,
+        y: offsetY,
+        type: inset ? 'innerShadow' : 'dropShadow',
+    }));
+}
+
+function buildTokensStudioSet(variables: CollectionVariableDetail[], modeId: string, options: ExportOptions): TokensStudioNode {
+    const root: TokensStudioNode = {};
+
+    // Layout grids have no Tokens Studio type
+    const exported = variables.filter(v => v.valuesByMode[modeId] && !getGrid(v, modeId));
+    const groupPaths = getGroupTokenPaths(exported.map(v => getTokenPath(v.name, options.naming).map(cleanPathSegment)));
+
+    exported.forEach(v => {
+        const path = getTokenPath(v.name, options.naming).map(cleanPathSegment);
+        if (groupPaths.has(path.join('.'))) path.push('DEFAULT');
+        const value = redirectGroupTokenRefs(
+            getTokensStudioComposite(v, modeId, options) ?? getTypedValue(v, processValue(v, modeId, options)),
+            groupPaths
+        );
+
+        let current = root;
+        path.slice(0, -1).forEach(part => {
+            const next = current[part];
+            if (!next || typeof next !== 'object' || 'value' in next) current[part] = {};
+            current = current[part] as TokensStudioNode;
+        });
+
+        const type = getTokensStudioType(v, value);
+        const token: TokensStudioNode = type ? { value, type } : { value, $extensions: { 'com.figma.type': v.type } };
+        if (v.description) token.description = v.description;
+        current[path[path.length - 1]] = token;
+    });
+
+    return root;
+}
+
+/**
+ * Tokens Studio (figma-tokens) multi-file layout: one token set per
+ * collection/mode plus the $themes.json and $metadata.json index files.
+ * Inside a folder for the collection the sets are named after the mode only.
+ */
+function generateTokensStudioFiles(
+    variables: CollectionVariableDetail[],
+    options: ExportOptions,
+    collectionName: string,
+    inCollectionFolder = false
+): ExportFile[] {
+    const collectionSegment = cleanPathSegment(collectionName) || 'tokens';
+    const setNames = options.modes.map(mode => inCollectionFolder
+        ? cleanPathSegment(mode.name)
+        : `${collectionSegment}/${cleanPathSegment(mode.name)}`);
+
+    const files: ExportFile[] = options.modes.map((mode, index) => ({
+        path: `${setNames[index]}.json`,
+        content: JSON.stringify(buildTokensStudioSet(variables, mode.modeId, options), null, 2),
+    }));
+
+    const themes = options.modes.map((mode, index) => ({
+        id: `${collectionSegment}-${normalizeModeName(mode.name)}`,
+        name: mode.name,
+        group: collectionName,
+        selectedTokenSets: { [setNames[index]]: 'enabled' },
+    }));
+
+    files.push({ path: '$themes.json', content: JSON.stringify(themes, null, 2) });
+    files.push({ path: '$metadata.json', content: JSON.stringify({ tokenSetOrder: setNames }, null, 2) });
+
+    return files;
+}
+
+/**
+ * Data exposed to user templates. Values go through processValue, so the
+ * color, unit, alias and naming options apply as for the built-in formats.
+ */
+function buildTemplateContext(variables: CollectionVariableDetail[], options: ExportOptions, collectionName: string) {
+    const tokens = variables.map(v => {
+        const modes = options.modes.map(mode => {
+            const raw = v.valuesByMode[mode.modeId]?.value;
+            const isAliasValue = typeof raw === 'string' && raw.startsWith('{') && raw.endsWith('}');
+            return {
+                name: mode.name,
+                key: normalizeModeName(mode.name),
+                value: processValue(v, mode.modeId, options),
+                resolvedValue: getResolvedValue(v, mode.modeId) ?? '',
+                alias: isAliasValue ? formatTokenName(String(raw).slice(1, -1), options.naming, 'dot') : '',
+            };
+        });
+        const defaultMode = modes[0];
+
+        return {
+            name: v.name,
+            path: formatTokenName(v.name, options.naming, 'dot'),
+            cssName: getWebName(v.name, options),
+            group: getTokenPath(v.name, options.naming)[0] || '',
+            type: v.type,
+            description: v.description || '',
+            isAlias: v.isAlias,
+            value: defaultMode ? defaultMode.value : '',
+            resolvedValue: defaultMode ? defaultMode.resolvedValue : '',
+            alias: defaultMode ? defaultMode.alias : '',
+            modes,
+        };
+    });
+
+    // Groups are the first path segment, in order of first appearance
+    const groups: { name: string; tokens: typeof tokens }[] = [];
+    tokens.forEach(token => {
+        let group = groups.find(g => g.name === token.group);
+        if (!group) {
+            group = { name: token.group, tokens: [] };
+            groups.push(group);
+        }
+        group.tokens.push(token);
+    });
+
+    return {
+        collection: collectionName,
+        modes: options.modes.map((mode, index) => ({ name: mode.name, key: normalizeModeName(mode.name), isDefault: index === 0 })),
+        groups,
+        tokens,
+    };
+}
+
+function generateFromTemplate(variables: CollectionVariableDetail[], options: ExportOptions, collectionName: string): string {
+    if (!options.template) return '// No template selected';
+
+    try {
+        return renderTemplate(options.template.source, buildTemplateContext(variables, options, collectionName));
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        return `// Template error: ${errorMessage}`;
+    }
 }
@@ -3,8 +3,10 @@
  * Scans Figma document for styles and variables, converts them to tokens
  */
 
-import { DesignTokens, TokenValue, TokenCategory, TokenSet, TokenType, TokenReference, ScannedVariableData, LiteCollection, LiteInternalVariable, CollectionDetail, CollectionVariableDetail } from './token-types';
-import { rgbaToHex } from './token-utils';
+import { DesignTokens, Token, TokenValue, TokenModeValue, TokenCategory, TokenSet, TokenType, TokenReference, ScannedVariableData, LiteCollection, LiteInternalVariable, CollectionDetail, CollectionVariableDetail, TypographyValue, TypographyProperty, EffectValue, ShadowLayer, GradientValue, GradientStop, GridValue, GridLayout } from './token-types';
+import { getVariableTypeOverride } from './token-storage';
+import { CategoryRule, CategorySubject, CategoryPreviewItem, findCategoryRule } from './token-categories';
+import { rgbaToHex, VARIABLE_TOKEN_TYPES, formatFontShorthand, formatBoxShadow, formatCssGradient, percentToRatio } from './token-utils';
 
 /**
  * Heuristics for token categorization
@@ -12,23 +14,32 @@ import { rgbaToHex } from './token-utils';
 const PRIMITIVE_KEYWORDS = ['primitive', 'palette', 'core', 'scale', 'base', 'ref', 'reference'];
 const SEMANTIC_KEYWORDS = ['semantic', 'system', 'usage', 'alias', 'light', 'dark', 'mode'];
 
+export interface ScanResult {
+  tokens: DesignTokens;
+  skipped: { path: string; reason: string }[]; // Variables that could not be turned into tokens
+}
+
 /**
  * Scan all tokens from Figma document
- * Combines styles and variables
+ * Combines styles and variables; categorization rules take precedence over the built-in heuristics
  */
-export async function scanAllTokens(): Promise<DesignTokens> {
+export async function scanAllTokens(rules: CategoryRule[] = []): Promise<ScanResult> {
   const tokens: DesignTokens = {
     primitives: {},
     semantic: {},
     components: {},
     uncategorized: {},
   };
+  const skipped: ScanResult['skipped'] = [];
 
   // Scan color styles
-  await scanColorStyles(tokens);
+  await scanColorStyles(tokens, rules);
 
-  // Scan color variables (if API available)
-  await scanColorVariables(tokens);
+  // Scan variables of every type (if API available)
+  await scanVariables(tokens, rules, skipped);
+
+  // Scan text and effect styles into composite tokens
+  await scanStyleTokens(tokens, rules);
 
   // Clean up empty categories
   if (Object.keys(tokens.primitives!).length === 0) delete tokens.primitives;
@@ -36,108 +47,154 @@ export async function scanAllTokens(): Promise<DesignTokens> {
   if (Object.keys(tokens.components!).length === 0) delete tokens.components;
   if (Object.keys(tokens.uncategorized!).length === 0) delete tokens.uncategorized;
 
-  return tokens;
+  return { tokens, skipped };
 }
 
 /**
- * Scan color styles from Figma
+ * Scan color and gradient styles from Figma
  */
-async function scanColorStyles(tokens: DesignTokens): Promise<void> {
+async function scanColorStyles(tokens: DesignTokens, rules: CategoryRule[]): Promise<void> {
   const paintStyles = await figma.getLocalPaintStylesAsync();
+  const variables = figma.variables ? await figma.variables.getLocalVariablesAsync() : [];
+  const variableMap = new Map(variables.map(v => [v.id, v]));
 
   for (const style of paintStyles) {
-    if (style.paints.length === 0) continue;
+    const paint = getStylePaint(style);
+    if (!paint) continue;
 
-    const paint = style.paints[0];
-
-    // Only process solid colors
-    if (paint.type === 'SOLID') {
-      const colorValue = rgbaToHex(
-        paint.color.r,
-        paint.color.g,
-        paint.color.b,
-        paint.opacity !== undefined ? paint.opacity : 1
-      );
-
-      const category = determineCategory(style.name);
+    if (paint.type !== 'SOLID') {
+      const composite = getGradientValue(paint, variableMap);
+      const summary = getGradientSummary(composite);
       const path = parseStyleName(style.name);
 
-      const token: TokenValue = {
-        value: colorValue,
-        type: 'color',
+      addToTokens(tokens, determineCategory(getStyleSubject(style.name, 'PAINT'), rules), path, {
+        value: summary,
+        resolvedValue: summary,
+        composite,
+        type: 'gradient',
         description: style.description || undefined,
         $extensions: {
           'com.figma.style-id': style.id,
           originalPath: path
         },
-      };
-
-      // Styles are often semantic in many teams, but if they are named "Blue/500" they are primitive
-      // Our determineCategory function handles this.
-      addToTokens(tokens, category, path, token);
+      });
+      continue;
     }
+
+    const colorValue = rgbaToHex(
+      paint.color.r,
+      paint.color.g,
+      paint.color.b,
+      paint.opacity !== undefined ? paint.opacity : 1
+    );
+
+    const category = determineCategory(getStyleSubject(style.name, 'PAINT'), rules);
+    const path = parseStyleName(style.name);
+
+    const token: TokenValue = {
+      value: colorValue,
+      type: 'color',
+      description: style.description || undefined,
+      $extensions: {
+        'com.figma.style-id': style.id,
+        originalPath: path
+      },
+    };
+
+    // Styles are often semantic in many teams, but if they are named "Blue/500" they are primitive
+    // Our determineCategory function handles this.
+    addToTokens(tokens, category, path, token);
   }
 }
 
 /**
- * Scan color variables from Figma Variables API
+ * Scan variables of every type from Figma Variables API, keeping the value of every mode
  */
-async function scanColorVariables(tokens: DesignTokens): Promise<void> {
+async function scanVariables(tokens: DesignTokens, rules: CategoryRule[], skipped: ScanResult['skipped']): Promise<void> {
   if (!figma.variables) return;
 
   try {
     const variables = await figma.variables.getLocalVariablesAsync();
     const collections = await figma.variables.getLocalVariableCollectionsAsync();
 
-    const collectionMap = new Map<string, string>();
+    const collectionMap = new Map<string, VariableCollection>();
     for (const collection of collections) {
-      collectionMap.set(collection.id, collection.name);
+      collectionMap.set(collection.id, collection);
     }
 
+    // Where each variable will be placed, so aliases can reference it before it is added
+    const entries = new Map<string, { variable: Variable; type: TokenType; category: TokenCategory; path: string[]; placedPath: string[] }>();
     for (const variable of variables) {
-      if (variable.resolvedType === 'COLOR') {
-        const modeIds = Object.keys(variable.valuesByMode);
-        if (modeIds.length === 0) continue;
+      const path = parseStyleName(variable.name);
+      const typeOverride = getVariableTypeOverride(variable);
+      const type = typeOverride !== null && isTypeCompatible(typeOverride, variable.resolvedType) ? typeOverride : inferTokenType(variable);
 
-        const firstModeId = modeIds[0];
-        const value = variable.valuesByMode[firstModeId];
+      // Determine category based on Collection Name AND Variable Name
+      const category = determineCategory(getVariableSubject(variable, collectionMap.get(variable.variableCollectionId)), rules);
 
-        // Skip aliases for now (TODO: Handle VariableAlias to create token references)
-        if (typeof value === 'object' && value !== null && 'type' in value && value.type === 'VARIABLE_ALIAS') {
-          continue;
-        }
+      entries.set(variable.id, { variable, type, category, path, placedPath: [category, ...getEffectivePath(path, type)] });
+    }
 
-        if (typeof value === 'object' && value !== null && 'r' in value) {
-          const rgba = value as { r: number; g: number; b: number; a?: number };
-          const colorValue = rgbaToHex(rgba.r, rgba.g, rgba.b, rgba.a);
-
-          const collectionName = collectionMap.get(variable.variableCollectionId || '') || '';
-          const nameParts = parseStyleName(variable.name);
-
-          // Use collection name as part of the path if meaningful
-          let path = [...nameParts];
-          if (collectionName && !['collection', 'variable'].some(s => collectionName.toLowerCase().includes(s))) {
-            // Heuristic: Prepend collection name if it's not generic
-            // But tokens usually shouldn't have collection names in them if the variable name is unique
-            // Let's stick to variable name for structure, but check collection for category
-          }
-
-          // Determine category based on Collection Name AND Variable Name
-          const category = determineCategory(variable.name, collectionName);
-
-          const token: TokenValue = {
-            value: colorValue,
-            type: 'color',
-            description: variable.description || undefined,
-            $extensions: {
-              'com.figma.variable-id': variable.id,
-              originalPath: path
-            },
+    // Resolve a variable to a value in the named mode, following aliases; the target's
+    // default mode is used when its collection has no mode with that name
+    const resolveValue = (variableId: string, modeName: string, seen: Set<string>): string | number | undefined => {
+      const entry = entries.get(variableId);
+      if (!entry || seen.has(variableId)) return undefined;
+      seen.add(variableId);
+
+      const collection = collectionMap.get(entry.variable.variableCollectionId);
+      const mode = collection?.modes.find(m => m.name === modeName);
+      const value = entry.variable.valuesByMode[mode?.modeId || collection?.defaultModeId || Object.keys(entry.variable.valuesByMode)[0]];
+
+      if (isVariableAlias(value)) return resolveValue(value.id, modeName, seen);
+      return toTokenValue(value);
+    };
+
+    for (const { variable, type, category, path } of entries.values()) {
+      const collection = collectionMap.get(variable.variableCollectionId);
+      const modes = collection?.modes || Object.keys(variable.valuesByMode).map(modeId => ({ modeId, name: modeId }));
+      if (modes.length === 0) continue;
+
+      const modeValues: { [modeName: string]: TokenModeValue } = {};
+      for (const mode of modes) {
+        const value = variable.valuesByMode[mode.modeId];
+
+        if (isVariableAlias(value)) {
+          // Aliases to remote library variables cannot be referenced
+          const target = entries.get(value.id);
+          if (!target) continue;
+
+          modeValues[mode.name] = {
+            value: `{${target.placedPath.join('.')}}`,
+            resolvedValue: resolveValue(value.id, mode.name, new Set([variable.id])),
           };
-
-          addToTokens(tokens, category, path, token);
+        } else {
+          const tokenValue = toTokenValue(value);
+          if (tokenValue !== undefined) modeValues[mode.name] = { value: tokenValue };
         }
       }
+
+      const defaultMode = modes.find(m => m.modeId === collection?.defaultModeId) || modes[0];
+      const defaultValue = modeValues[defaultMode.name];
+      if (!defaultValue) {
+        skipped.push({ path: variable.name, reason: 'its default mode could not be resolved' });
+        continue;
+      }
+
+      const token: Token = {
+        ...defaultValue,
+        type,
+        description: variable.description || undefined,
+        $extensions: {
+          'com.figma.variable-id': variable.id,
+          originalPath: path
+        },
+      };
+      if (modes.length > 1) {
+        token.modes = modeValues;
+      }
+
+      addToTokens(tokens, category, path, token);
     }
   } catch (error) {
     console.error('Error scanning variables:', error);
@@ -145,9 +202,56 @@ async function scanColorVariables(tokens: DesignTokens): Promise<void> {
 }
 
 /**
- * Determine category (Primitives vs Semantic) based on name
+ * Token value of a direct variable value: colors as hex, booleans as "true"/"false"
  */
-function determineCategory(name: string, collectionName: string = ''): TokenCategory {
+function toTokenValue(value: VariableValue | undefined): string | number | undefined {
+  if (typeof value === 'object' && value !== null && 'r' in value) {
+    return rgbaToHex(value.r, value.g, value.b, 'a' in value ? value.a : 1);
+  }
+  if (typeof value === 'boolean') return String(value);
+  if (typeof value === 'number' || typeof value === 'string') return value;
+  return undefined;
+}
+
+function isVariableAlias(value: VariableValue | undefined): value is VariableAlias {
+  return typeof value === 'object' && value !== null && 'type' in value && value.type === 'VARIABLE_ALIAS';
+}
+
+/**
+ * Scan text and effect styles from Figma as composite tokens
+ */
+async function scanStyleTokens(tokens: DesignTokens, rules: CategoryRule[]): Promise<void> {
+  const variables = figma.variables ? await figma.variables.getLocalVariablesAsync() : [];
+  const styleCollections = await getStyleCollections(new Map(variables.map(v => [v.id, v])));
+
+  for (const collection of styleCollections) {
+    // Paint styles are scanned by scanColorStyles
+    if (collection.collectionId === PAINT_STYLES_COLLECTION_ID) continue;
+
+    for (const style of collection.variables) {
+      const path = parseStyleName(style.name);
+      const token: TokenValue = {
+        ...style.valuesByMode[STYLES_MODE.modeId] as TokenValue,
+        description: style.description,
+        $extensions: {
+          'com.figma.style-id': style.id,
+          originalPath: path
+        },
+      };
+
+      addToTokens(tokens, determineCategory(getStyleSubject(style.name, getStyleType(collection.collectionId)), rules), path, token);
+    }
+  }
+}
+
+/**
+ * Determine category (Primitives vs Semantic) from the first matching rule, else based on name
+ */
+function determineCategory(subject: CategorySubject, rules: CategoryRule[] = []): TokenCategory {
+  const rule = findCategoryRule(subject, rules);
+  if (rule) return rule.category;
+
+  const { name, collectionName } = subject;
   const fullString = `${collectionName}/${name}`.toLowerCase();
 
   if (PRIMITIVE_KEYWORDS.some(k => fullString.includes(k))) return 'primitives';
@@ -165,10 +269,64 @@ function determineCategory(name: string, collectionName: string = ''): TokenCate
   return 'uncategorized';
 }
 
+/**
+ * Rule subject of a variable; isAlias reflects the default mode
+ */
+function getVariableSubject(variable: Variable, collection: VariableCollection | undefined): CategorySubject {
+  const modeId = collection?.defaultModeId || Object.keys(variable.valuesByMode)[0];
+  return {
+    name: variable.name,
+    collectionName: collection?.name || '',
+    resolvedType: variable.resolvedType,
+    isAlias: isVariableAlias(variable.valuesByMode[modeId]),
+  };
+}
+
+/**
+ * Rule subject of a style; styles are matched against their pseudo-collection name
+ */
+function getStyleSubject(name: string, resolvedType: string): CategorySubject {
+  const collectionName = STYLE_COLLECTIONS.find(c => getStyleType(c.id) === resolvedType)?.name || '';
+  return { name, collectionName, resolvedType, isAlias: false };
+}
+
+function getStyleType(collectionId: string): string {
+  return collectionId.replace(/^styles:/, '').toUpperCase();
+}
+
+/**
+ * Category every scanned variable and style would be placed in, without scanning values
+ */
+export async function previewCategories(rules: CategoryRule[]): Promise<CategoryPreviewItem[]> {
+  const items: CategoryPreviewItem[] = [];
+  const addItem = (subject: CategorySubject) => {
+    const rule = findCategoryRule(subject, rules);
+    items.push({ ...subject, category: determineCategory(subject, rules), ruleIndex: rule ? rules.indexOf(rule) : -1 });
+  };
+
+  for (const style of await figma.getLocalPaintStylesAsync()) {
+    addItem(getStyleSubject(style.name, 'PAINT'));
+  }
+
+  if (figma.variables) {
+    const collections = await figma.variables.getLocalVariableCollectionsAsync();
+    const collectionMap = new Map(collections.map(c => [c.id, c]));
+    for (const variable of await figma.variables.getLocalVariablesAsync()) {
+      addItem(getVariableSubject(variable, collectionMap.get(variable.variableCollectionId)));
+    }
+  }
+
+  for (const style of await figma.getLocalTextStylesAsync()) addItem(getStyleSubject(style.name, 'TEXT'));
+  for (const style of await figma.getLocalEffectStylesAsync()) addItem(getStyleSubject(style.name, 'EFFECT'));
+  for (const style of await figma.getLocalGridStylesAsync()) addItem(getStyleSubject(style.name, 'GRID'));
+
+  return items;
+}
+
 /**
  * Parse style name into token path segments
  */
-function parseStyleName(name: string): string[] {
+export function parseStyleName(name: string): string[] {
   // Remove common prefixes
   let cleanName = name;
   // Don't strip "color" prefix violently as it might be part of the structure choice
@@ -188,10 +346,25 @@ function camelCase(str: string): string {
   }).replace(/\s+/g, '');
 }
 
+/**
+ * Path of a token within its category: colors are grouped under "color" and
+ * style tokens under their type, e.g. typography.heading.h1 or shadow.elevation.2
+ */
+export function getEffectivePath(path: string[], type: TokenType, isComposite = false): string[] {
+  const effectivePath = [...path];
+  if (type === 'color' && effectivePath[0] !== 'color') {
+    effectivePath.unshift('color');
+  }
+  if (isComposite && effectivePath[0] !== type) {
+    effectivePath.unshift(type);
+  }
+  return effectivePath;
+}
+
 /**
  * Add token to the correct category in DesignTokens
  */
-function addToTokens(tokens: DesignTokens, category: TokenCategory, path: string[], token: TokenValue): void {
+function addToTokens(tokens: DesignTokens, category: TokenCategory, path: string[], token: Token): void {
   // Ensure category exists
   if (!tokens[category]) {
     tokens[category] = {};
@@ -207,10 +380,7 @@ function addToTokens(tokens: DesignTokens, category: TokenCategory, path: string
   // If the path is ["blue", "500"] and type is color, we might want primitives.color.blue.500
   // If path already has "color", don't duplicate.
 
-  let effectivePath = [...path];
-  if (token.type === 'color' && effectivePath[0] !== 'color') {
-    effectivePath.unshift('color');
-  }
+  const effectivePath = getEffectivePath(path, token.type, 'composite' in token && !!token.composite);
 
   // Navigate/create path
   for (let i = 0; i < effectivePath.length - 1; i++) {
@@ -231,12 +401,34 @@ function addToTokens(tokens: DesignTokens, category: TokenCategory, path: string
 // NEW FUNCTIONS for Progressive Loading Workflow
 // ----------------------------------------------------------------------
 
+/**
+ * Local styles are listed as read-only pseudo-collections next to the
+ * variable collections, each with a single mode
+ */
+export const TEXT_STYLES_COLLECTION_ID = 'styles:text';
+export const EFFECT_STYLES_COLLECTION_ID = 'styles:effect';
+export const PAINT_STYLES_COLLECTION_ID = 'styles:paint';
+export const GRID_STYLES_COLLECTION_ID = 'styles:grid';
+const STYLES_MODE = { modeId: 'styles:default', name: 'Default' };
+
+const STYLE_COLLECTIONS: {
+  id: string;
+  name: string;
+  scan: (variableMap: Map<string, Variable>) => Promise<CollectionVariableDetail[]>;
+}[] = [
+  { id: TEXT_STYLES_COLLECTION_ID, name: 'Text Styles', scan: scanTextStyles },
+  { id: EFFECT_STYLES_COLLECTION_ID, name: 'Effect Styles', scan: scanEffectStyles },
+  { id: PAINT_STYLES_COLLECTION_ID, name: 'Paint Styles', scan: scanPaintStyles },
+  { id: GRID_STYLES_COLLECTION_ID, name: 'Grid Styles', scan: scanGridStyles },
+];
+
 /**
  * Step 1: Light scan of all collections and variables
  */
 export async function getLiteCollections(): Promise<ScannedVariableData> {
   const collections = await figma.variables.getLocalVariableCollectionsAsync();
   const variables = await figma.variables.getLocalVariablesAsync();
+  const styleCollections = await getStyleCollections(new Map(variables.map(v => [v.id, v])));
 
   const liteCollections: LiteCollection[] = collections.map(c => ({
     id: c.id,
@@ -245,6 +437,15 @@ export async function getLiteCollections(): Promise<ScannedVariableData> {
     variableIds: c.variableIds
   }));
 
+  for (const styles of styleCollections) {
+    liteCollections.push({
+      id: styles.collectionId,
+      name: styles.name,
+      modes: styles.modes,
+      variableIds: styles.variables.map(s => s.id)
+    });
+  }
+
   const liteVariables: LiteInternalVariable[] = variables.map(v => ({
     id: v.id,
     name: v.name,
@@ -258,13 +459,16 @@ export async function getLiteCollections(): Promise<ScannedVariableData> {
   };
 }
 
-/**
- * Step 2: Detailed fetch for a specific collection
- */
 /**
  * Step 2: Detailed fetch for a specific collection
  */
 export async function getCollectionData(collectionId: string): Promise<CollectionDetail> {
+  const styleCollection = STYLE_COLLECTIONS.find(c => c.id === collectionId);
+  if (styleCollection) {
+    const allVariables = await figma.variables.getLocalVariablesAsync();
+    return buildStyleCollection(styleCollection, new Map(allVariables.map(v => [v.id, v])));
+  }
+
   const collection = await figma.variables.getVariableCollectionByIdAsync(collectionId);
   if (!collection) throw new Error(`Collection ${collectionId} not found`);
 
@@ -276,15 +480,307 @@ export async function getCollectionData(collectionId: string): Promise<Collectio
   const variableMap = new Map(allVariables.map(v => [v.id, v]));
   const collectionMap = new Map(allCollections.map(c => [c.id, c]));
 
-  const collectionVars = allVariables.filter(v => v.variableCollectionId === collectionId);
+  return buildCollectionDetail(collection, allVariables, variableMap, collectionMap);
+}
+
+/**
+ * Detailed fetch for every local collection, sharing one resolution context
+ * so aliases between collections resolve the same way as for a single collection
+ */
+export async function getAllCollectionsData(): Promise<CollectionDetail[]> {
+  const allVariables = await figma.variables.getLocalVariablesAsync();
+  const allCollections = await figma.variables.getLocalVariableCollectionsAsync();
+
+  const variableMap = new Map(allVariables.map(v => [v.id, v]));
+  const collectionMap = new Map(allCollections.map(c => [c.id, c]));
+
+  const details = allCollections.map(collection =>
+    buildCollectionDetail(collection, allVariables, variableMap, collectionMap)
+  );
+
+  details.push(...await getStyleCollections(variableMap));
+
+  return details;
+}
+
+/**
+ * Style pseudo-collections that contain at least one style
+ */
+async function getStyleCollections(variableMap: Map<string, Variable>): Promise<CollectionDetail[]> {
+  const details: CollectionDetail[] = [];
+  for (const styleCollection of STYLE_COLLECTIONS) {
+    const detail = await buildStyleCollection(styleCollection, variableMap);
+    if (detail.variables.length > 0) details.push(detail);
+  }
+  return details;
+}
+
+async function buildStyleCollection(
+  styleCollection: typeof STYLE_COLLECTIONS[number],
+  variableMap: Map<string, Variable>
+): Promise<CollectionDetail> {
+  return {
+    collectionId: styleCollection.id,
+    name: styleCollection.name,
+    modes: [STYLES_MODE],
+    variables: await styleCollection.scan(variableMap)
+  };
+}
+
+/**
+ * A style as a single-mode token. The value is a resolved CSS summary,
+ * the structured value is kept in `composite`.
+ */
+function createStyleToken(style: BaseStyle, type: TokenType, composite: TypographyValue | EffectValue | GradientValue | GridValue, summary: string): CollectionVariableDetail {
+  return {
+    id: style.id,
+    name: style.name,
+    description: style.description || undefined,
+    type,
+    valuesByMode: {
+      [STYLES_MODE.modeId]: { value: summary, resolvedValue: summary, type, composite }
+    },
+    isAlias: false
+  };
+}
+
+/**
+ * Text styles as composite typography tokens
+ */
+async function scanTextStyles(variableMap: Map<string, Variable>): Promise<CollectionVariableDetail[]> {
+  const textStyles = await figma.getLocalTextStylesAsync();
+  return textStyles.map(style => {
+    const composite = getTypographyValue(style, variableMap);
+    return createStyleToken(style, 'typography', composite, getTypographySummary(composite));
+  });
+}
+
+/**
+ * Effect styles as shadow tokens, or blur tokens when they only blur
+ */
+async function scanEffectStyles(variableMap: Map<string, Variable>): Promise<CollectionVariableDetail[]> {
+  const effectStyles = await figma.getLocalEffectStylesAsync();
+  const tokens: CollectionVariableDetail[] = [];
+
+  for (const style of effectStyles) {
+    const composite = getEffectValue(style, variableMap);
+    if (composite.shadows.length > 0) {
+      tokens.push(createStyleToken(style, 'shadow', composite, getEffectSummary(composite)));
+    } else if (composite.blur !== undefined || composite.backgroundBlur !== undefined) {
+      tokens.push(createStyleToken(style, 'blur', composite, getEffectSummary(composite)));
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Paint styles as color tokens (solid paints) or gradient tokens
+ */
+async function scanPaintStyles(variableMap: Map<string, Variable>): Promise<CollectionVariableDetail[]> {
+  const paintStyles = await figma.getLocalPaintStylesAsync();
+  const tokens: CollectionVariableDetail[] = [];
+
+  for (const style of paintStyles) {
+    const paint = getStylePaint(style);
+    if (!paint) continue;
+
+    if (paint.type !== 'SOLID') {
+      const composite = getGradientValue(paint, variableMap);
+      tokens.push(createStyleToken(style, 'gradient', composite, getGradientSummary(composite)));
+      continue;
+    }
+
+    // A color variable bound to the paint makes the style an alias
+    const color = rgbaToHex(paint.color.r, paint.color.g, paint.color.b, paint.opacity ?? 1);
+    const bound = paint.boundVariables?.color ? variableMap.get(paint.boundVariables.color.id) : undefined;
+
+    tokens.push({
+      id: style.id,
+      name: style.name,
+      description: style.description || undefined,
+      type: 'color',
+      valuesByMode: {
+        [STYLES_MODE.modeId]: bound
+          ? { value: `{${bound.name}}`, resolvedValue: color, type: 'color' } as TokenReference
+          : { value: color, resolvedValue: color, type: 'color' }
+      },
+      isAlias: !!bound
+    });
+  }
+
+  return tokens;
+}
+
+/**
+ * Grid styles as grid tokens, skipping styles without visible layout grids
+ */
+async function scanGridStyles(variableMap: Map<string, Variable>): Promise<CollectionVariableDetail[]> {
+  const gridStyles = await figma.getLocalGridStylesAsync();
+  const tokens: CollectionVariableDetail[] = [];
+
+  for (const style of gridStyles) {
+    const composite = getGridValue(style, variableMap);
+    if (composite.layouts.length === 0) continue;
+    tokens.push(createStyleToken(style, 'grid', composite, getGridSummary(composite)));
+  }
+
+  return tokens;
+}
+
+/**
+ * First visible solid or gradient paint of a paint style (image and video paints are skipped)
+ */
+function getStylePaint(style: PaintStyle): SolidPaint | GradientPaint | null {
+  const paint = style.paints.find(p => p.visible !== false && (p.type === 'SOLID' || p.type.startsWith('GRADIENT_')));
+  return paint ? paint as SolidPaint | GradientPaint : null;
+}
+
+/**
+ * Font weights by style name. Order matters: "ExtraBold" must match before "Bold".
+ */
+const FONT_WEIGHTS: [RegExp, number][] = [
+  [/thin|hairline/i, 100],
+  [/extra\s*light|ultra\s*light/i, 200],
+  [/light/i, 300],
+  [/medium/i, 500],
+  [/semi\s*bold|demi\s*bold/i, 600],
+  [/extra\s*bold|ultra\s*bold/i, 800],
+  [/bold/i, 700],
+  [/black|heavy/i, 900],
+];
+
+const TEXT_CASES: { [textCase in TextCase]: TypographyValue['textCase'] } = {
+  ORIGINAL: 'none',
+  UPPER: 'uppercase',
+  LOWER: 'lowercase',
+  TITLE: 'capitalize',
+  SMALL_CAPS: 'small-caps',
+  SMALL_CAPS_FORCED: 'small-caps',
+};
+
+// Bound text style fields that map onto typography properties
+const BINDABLE_TYPOGRAPHY_FIELDS: TypographyProperty[] = ['fontFamily', 'fontWeight', 'fontSize', 'lineHeight', 'letterSpacing'];
+
+function getTypographyValue(style: TextStyle, variableMap: Map<string, Variable>): TypographyValue {
+  const round = (n: number) => parseFloat(n.toFixed(2));
+  const weight = FONT_WEIGHTS.find(([pattern]) => pattern.test(style.fontName.style));
+
+  let lineHeight: number | string = 'normal';
+  if (style.lineHeight.unit === 'PIXELS') lineHeight = round(style.lineHeight.value);
+  else if (style.lineHeight.unit === 'PERCENT') lineHeight = `${round(style.lineHeight.value)}%`;
+
+  const typography: TypographyValue = {
+    fontFamily: style.fontName.family,
+    fontWeight: weight ? weight[1] : 400,
+    fontStyle: /italic|oblique/i.test(style.fontName.style) ? 'italic' : 'normal',
+    fontSize: round(style.fontSize),
+    lineHeight,
+    letterSpacing: style.letterSpacing.unit === 'PERCENT'
+      ? `${round(style.letterSpacing.value)}%`
+      : round(style.letterSpacing.value),
+    textCase: TEXT_CASES[style.textCase] || 'none',
+  };
+
+  // Keep bound variables as aliases, the values above are already resolved
+  const aliases: TypographyValue['aliases'] = {};
+  const bound = style.boundVariables || {};
+  for (const field of BINDABLE_TYPOGRAPHY_FIELDS) {
+    const binding = bound[field as VariableBindableTextField];
+    const target = binding ? variableMap.get(binding.id) : undefined;
+    if (target) aliases[field] = target.name;
+  }
+  if (Object.keys(aliases).length > 0) typography.aliases = aliases;
+
+  return typography;
+}
+
+/**
+ * Resolved CSS font shorthand, used as the display value of typography tokens
+ */
+function getTypographySummary(typography: TypographyValue): string {
+  let lineHeight = String(typography.lineHeight);
+  if (typeof typography.lineHeight === 'number') lineHeight = `${typography.lineHeight}px`;
+  else if (lineHeight.endsWith('%')) lineHeight = String(percentToRatio(lineHeight));
+
+  return formatFontShorthand({
+    fontStyle: typography.fontStyle,
+    fontWeight: typography.fontWeight,
+    fontSize: `${typography.fontSize}px`,
+    lineHeight,
+    fontFamily: JSON.stringify(typography.fontFamily)
+  });
+}
+
+/**
+ * Token types implied by variable scopes. Scopes not listed here (stroke, effect,
+ * font weight, ...) don't imply a more specific type than number.
+ */
+const SCOPE_TYPES: { [scope: string]: TokenType } = {
+  GAP: 'spacing',
+  WIDTH_HEIGHT: 'spacing',
+  CORNER_RADIUS: 'borderRadius',
+  FONT_SIZE: 'fontSize',
+  LINE_HEIGHT: 'lineHeight',
+  OPACITY: 'opacity',
+  FONT_FAMILY: 'fontFamily',
+};
+
+/**
+ * Name patterns used when scopes don't settle the type, tried in order
+ */
+const NAME_TYPES: { pattern: RegExp; type: TokenType; resolvedType: VariableResolvedDataType }[] = [
+  { pattern: /radius|radii|rounded|corner/, type: 'borderRadius', resolvedType: 'FLOAT' },
+  { pattern: /font-?size|text-?size/, type: 'fontSize', resolvedType: 'FLOAT' },
+  { pattern: /line-?height|leading/, type: 'lineHeight', resolvedType: 'FLOAT' },
+  { pattern: /opacity|alpha/, type: 'opacity', resolvedType: 'FLOAT' },
+  { pattern: /letter-?spacing|tracking/, type: 'number', resolvedType: 'FLOAT' }, // Not a layout spacing
+  { pattern: /spacing|space|gap|padding|margin|inset|gutter/, type: 'spacing', resolvedType: 'FLOAT' },
+  { pattern: /font-?family|typeface|font-?stack/, type: 'fontFamily', resolvedType: 'STRING' },
+];
+
+/**
+ * Infer a token type from the variable's scopes, falling back to its name
+ * when it is scoped to everything or to fields implying different types
+ */
+export function inferTokenType(variable: Pick<Variable, 'name' | 'resolvedType' | 'scopes'>): TokenType {
+  if (variable.resolvedType === 'COLOR') return 'color';
+  if (variable.resolvedType === 'BOOLEAN') return 'boolean';
+
+  const scopeTypes = new Set((variable.scopes || []).map(scope => SCOPE_TYPES[scope] || 'number'));
+  if (scopeTypes.size === 1 && !(variable.scopes || []).includes('ALL_SCOPES')) {
+    const [type] = scopeTypes;
+    if (isTypeCompatible(type, variable.resolvedType)) return type;
+  }
+
+  const name = variable.name.toLowerCase().replace(/[\s/_]+/g, '-');
+  const match = NAME_TYPES.find(n => n.resolvedType === variable.resolvedType && n.pattern.test(name));
+  if (match) return match.type;
+
+  return variable.resolvedType === 'STRING' ? 'string' : 'number';
+}
+
+/**
+ * Whether a token type can describe variables of a Figma type
+ */
+export function isTypeCompatible(type: TokenType, resolvedType: VariableResolvedDataType): boolean {
+  return (VARIABLE_TOKEN_TYPES[resolvedType] || []).includes(type);
+}
+
+function buildCollectionDetail(
+  collection: VariableCollection,
+  allVariables: Variable[],
+  variableMap: Map<string, Variable>,
+  collectionMap: Map<string, VariableCollection>
+): CollectionDetail {
+  const collectionVars = allVariables.filter(v => v.variableCollectionId === collection.id);
   const variablesDetail: CollectionVariableDetail[] = [];
 
   for (const v of collectionVars) {
     // Map internal types to our schema
-    let type: TokenType = 'number'; // default
-    if (v.resolvedType === 'COLOR') type = 'color';
-    else if (v.resolvedType === 'FLOAT') type = 'number';
-    else if (v.resolvedType === 'STRING') type = 'typography'; // Loose mapping
+    const typeOverride = getVariableTypeOverride(v);
+    const typeOverridden = typeOverride !== null && isTypeCompatible(typeOverride, v.resolvedType);
+    const type = typeOverridden ? typeOverride : inferTokenType(v);
 
     const valuesByMode: { [modeId: string]: TokenValue | TokenReference } = {};
     let isAlias = false;
@@ -339,6 +835,7 @@ export async function getCollectionData(collectionId: string): Promise<Collectio
       id: v.id,
       name: v.name,
       type,
+      typeOverridden,
       valuesByMode,
       isAlias
     });
@@ -405,6 +902,208 @@ function resolveVariableValue(
     return rgbaToHex(rgba.r, rgba.g, rgba.b, rgba.a);
   }
 
-  // 3. Primitives
+  // 3. Primitives (booleans are kept as "true"/"false")
+  if (typeof rawValue === 'boolean') return String(rawValue);
   return rawValue as string | number;
 }
+
+function getEffectValue(style: EffectStyle, variableMap: Map<string, Variable>): EffectValue {
+  const round = (n: number) => parseFloat(n.toFixed(2));
+  const aliasName = (binding: VariableAlias | undefined) => binding ? variableMap.get(binding.id)?.name : undefined;
+  const effect: EffectValue = { shadows: [] };
+
+  for (const e of style.effects) {
+    if (!e.visible) continue;
+
+    if (e.type === 'DROP_SHADOW' || e.type === 'INNER_SHADOW') {
+      const layer: ShadowLayer = {
+        inset: e.type === 'INNER_SHADOW',
+        color: rgbaToHex(e.color.r, e.color.g, e.color.b, e.color.a),
+        offsetX: round(e.offset.x),
+        offsetY: round(e.offset.y),
+        blur: round(e.radius),
+        spread: round(e.spread || 0),
+      };
+
+      // Variables bound to the shadow (typically its color) are kept as aliases
+      const bound = e.boundVariables || {};
+      const aliases: ShadowLayer['aliases'] = {
+        color: aliasName(bound.color),
+        offsetX: aliasName(bound.offsetX),
+        offsetY: aliasName(bound.offsetY),
+        blur: aliasName(bound.radius),
+        spread: aliasName(bound.spread),
+      };
+      (Object.keys(aliases) as (keyof typeof aliases)[]).forEach(key => {
+        if (!aliases[key]) delete aliases[key];
+      });
+      if (Object.keys(aliases).length > 0) layer.aliases = aliases;
+
+      effect.shadows.push(layer);
+    } else if (e.type === 'LAYER_BLUR' || e.type === 'BACKGROUND_BLUR') {
+      const key = e.type === 'LAYER_BLUR' ? 'blur' : 'backgroundBlur';
+      effect[key] = round(e.radius);
+
+      const alias = aliasName(e.boundVariables?.radius);
+      if (alias) effect.aliases = { ...effect.aliases, [key]: alias };
+    }
+  }
+
+  return effect;
+}
+
+/**
+ * Resolved CSS value used as the display value of effect tokens:
+ * a box-shadow, or a blur() filter for blur-only styles
+ */
+function getEffectSummary(effect: EffectValue): string {
+  if (effect.shadows.length > 0) {
+    return formatBoxShadow(effect.shadows.map(layer => ({
+      inset: layer.inset,
+      offsetX: `${layer.offsetX}px`,
+      offsetY: `${layer.offsetY}px`,
+      blur: `${layer.blur}px`,
+      spread: `${layer.spread}px`,
+      color: layer.color,
+    })));
+  }
+  return `blur(${effect.blur ?? effect.backgroundBlur ?? 0}px)`;
+}
+
+const GRADIENT_TYPES: { [type in GradientPaint['type']]: GradientValue['type'] } = {
+  GRADIENT_LINEAR: 'linear',
+  GRADIENT_RADIAL: 'radial',
+  GRADIENT_ANGULAR: 'angular',
+  GRADIENT_DIAMOND: 'diamond',
+};
+
+/**
+ * Convert a gradient paint into CSS geometry. The gradient transform maps the
+ * box onto gradient space, so its inverse gives the handle positions in the box:
+ * (0, 0.5) is the start, (1, 0.5) the end and (0.5, 1) the second radius handle.
+ */
+function getGradientValue(paint: GradientPaint, variableMap: Map<string, Variable>): GradientValue {
+  const round = (n: number) => parseFloat(n.toFixed(4));
+  const [[a, c, e], [b, d, f]] = paint.gradientTransform;
+  const det = a * d - b * c || 1;
+  const toBox = (x: number, y: number) => ({
+    x: (d * x - c * y + c * f - d * e) / det,
+    y: (-b * x + a * y + b * e - a * f) / det,
+  });
+
+  const start = toBox(0, 0.5);
+  const end = toBox(1, 0.5);
+  const center = toBox(0.5, 0.5);
+  const type = GRADIENT_TYPES[paint.type];
+
+  // CSS angles start at the top and run clockwise, with y pointing down
+  const handle = type === 'linear' ? { x: end.x - start.x, y: end.y - start.y } : { x: end.x - center.x, y: end.y - center.y };
+  const angle = ((Math.atan2(handle.x, -handle.y) * 180 / Math.PI) + 360) % 360;
+
+  // A linear CSS gradient line runs through the box center and is longer than the
+  // Figma handles for diagonal angles, so stop positions are projected onto it
+  let project = (position: number) => position;
+  if (type === 'linear') {
+    const rad = angle * Math.PI / 180;
+    const dir = { x: Math.sin(rad), y: -Math.cos(rad) };
+    const length = Math.abs(dir.x) + Math.abs(dir.y);
+    const along = (p: { x: number; y: number }) => ((p.x - 0.5) * dir.x + (p.y - 0.5) * dir.y) / length + 0.5;
+    const from = along(start);
+    const to = along(end);
+    project = position => from + position * (to - from);
+  }
+
+  const radiusHandle = toBox(0.5, 1);
+  const distance = (p: { x: number; y: number }) => Math.hypot(p.x - center.x, p.y - center.y);
+  const opacity = paint.opacity ?? 1;
+
+  const stops: GradientStop[] = paint.gradientStops.map(stop => {
+    const gradientStop: GradientStop = {
+      position: round(project(stop.position)),
+      color: rgbaToHex(stop.color.r, stop.color.g, stop.color.b, stop.color.a * opacity),
+    };
+    const bound = stop.boundVariables?.color ? variableMap.get(stop.boundVariables.color.id) : undefined;
+    if (bound) gradientStop.alias = bound.name;
+    return gradientStop;
+  });
+
+  return {
+    type,
+    angle: round(angle),
+    center: { x: round(center.x), y: round(center.y) },
+    radius: { x: round(distance(end)), y: round(distance(radiusHandle)) },
+    stops,
+  };
+}
+
+/**
+ * Resolved CSS gradient, used as the display value of gradient tokens
+ */
+function getGradientSummary(gradient: GradientValue): string {
+  return formatCssGradient(gradient, gradient.stops);
+}
+
+const GRID_ALIGNMENTS: { [alignment in RowsColsLayoutGrid['alignment']]: GridLayout['alignment'] } = {
+  MIN: 'start',
+  MAX: 'end',
+  STRETCH: 'stretch',
+  CENTER: 'center',
+};
+
+function getGridValue(style: GridStyle, variableMap: Map<string, Variable>): GridValue {
+  const aliasName = (binding: VariableAlias | undefined) => binding ? variableMap.get(binding.id)?.name : undefined;
+  const layouts: GridLayout[] = [];
+
+  for (const grid of style.layoutGrids) {
+    if (grid.visible === false) continue;
+
+    if (grid.pattern === 'GRID') {
+      const layout: GridLayout = { pattern: 'grid', gutter: 0, margin: 0, sectionSize: grid.sectionSize, alignment: 'stretch' };
+      const sectionAlias = aliasName(grid.boundVariables?.sectionSize);
+      if (sectionAlias) layout.aliases = { sectionSize: sectionAlias };
+      layouts.push(layout);
+      continue;
+    }
+
+    const layout: GridLayout = {
+      pattern: grid.pattern === 'COLUMNS' ? 'columns' : 'rows',
+      // Auto counts are reported as Infinity
+      count: Number.isFinite(grid.count) ? grid.count : undefined,
+      gutter: grid.gutterSize,
+      margin: grid.offset ?? 0,
+      alignment: GRID_ALIGNMENTS[grid.alignment],
+    };
+    // Stretched columns have a computed width, other alignments a fixed one
+    if (grid.alignment !== 'STRETCH' && grid.sectionSize !== undefined) layout.sectionSize = grid.sectionSize;
+
+    const bound = grid.boundVariables || {};
+    const aliases: GridLayout['aliases'] = {
+      count: aliasName(bound.count),
+      gutter: aliasName(bound.gutterSize),
+      margin: aliasName(bound.offset),
+      sectionSize: aliasName(bound.sectionSize),
+    };
+    (Object.keys(aliases) as (keyof typeof aliases)[]).forEach(key => {
+      if (!aliases[key]) delete aliases[key];
+    });
+    if (Object.keys(aliases).length > 0) layout.aliases = aliases;
+
+    layouts.push(layout);
+  }
+
+  return { layouts };
+}
+
+/**
+ * Readable summary used as the display value of grid tokens, e.g. "12 columns, 24px gutter, 32px margin"
+ */
+function getGridSummary(grid: GridValue): string {
+  return grid.layouts.map(layout => {
+    if (layout.pattern === 'grid') return `${layout.sectionSize}px grid`;
+
+    const parts = [`${layout.count ?? 'auto'} ${layout.pattern}`];
+    if (layout.sectionSize !== undefined) parts.push(`${layout.sectionSize}px ${layout.pattern === 'columns' ? 'wide' : 'high'}`);
+    parts.push(`${layout.gutter}px gutter`, `${layout.margin}px margin`);
+    return parts.join(', ');
+  }).join('; ');
+}
@@ -3,10 +3,15 @@
  * Handles persistence of tokens using figma.clientStorage
  */
 
-import { DesignTokens, TokenMetadata } from './token-types';
+import { DesignTokens, TokenMetadata, TokenType } from './token-types';
+import { ExportTemplate } from './token-templates';
+import { CategoryRule } from './token-categories';
 
 const STORAGE_KEY = 'design-tokens';
 const METADATA_KEY = 'design-tokens-metadata';
+const TEMPLATES_KEY = 'design-tokens-templates';
+const CATEGORY_RULES_KEY = 'category-rules';
+const TYPE_OVERRIDE_KEY = 'token-type';
 
 /**
  * Save tokens to clientStorage
@@ -66,3 +71,73 @@ export async function clearTokens(): Promise<void> {
     throw new Error(`Failed to clear tokens: ${error instanceof Error ? error.message : String(error)}`);
   }
 }
+
+/**
+ * Load user-defined export templates from clientStorage
+ */
+export async function loadTemplates(): Promise<ExportTemplate[]> {
+  try {
+    const templates = await figma.clientStorage.getAsync(TEMPLATES_KEY);
+    return Array.isArray(templates) ? templates as ExportTemplate[] : [];
+  } catch (error) {
+    console.error('Error loading templates:', error);
+    return [];
+  }
+}
+
+/**
+ * Save user-defined export templates to clientStorage
+ */
+export async function saveTemplates(templates: ExportTemplate[]): Promise<void> {
+  try {
+    await figma.clientStorage.setAsync(TEMPLATES_KEY, templates);
+  } catch (error) {
+    console.error('Error saving templates:', error);
+    throw new Error(`Failed to save templates: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Load categorization rules saved with the document
+ */
+export function loadCategoryRules(): CategoryRule[] {
+  try {
+    const data = figma.root.getPluginData(CATEGORY_RULES_KEY);
+    const rules = data ? JSON.parse(data) : [];
+    return Array.isArray(rules) ? rules as CategoryRule[] : [];
+  } catch (error) {
+    console.error('Error loading category rules:', error);
+    return [];
+  }
+}
+
+/**
+ * Save categorization rules with the document, so everyone scanning the file shares them
+ */
+export function saveCategoryRules(rules: CategoryRule[]): void {
+  try {
+    figma.root.setPluginData(CATEGORY_RULES_KEY, JSON.stringify(rules));
+  } catch (error) {
+    console.error('Error saving category rules:', error);
+    throw new Error(`Failed to save category rules: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Token type set manually on a variable, or null when its type is inferred
+ */
+export function getVariableTypeOverride(variable: Variable): TokenType | null {
+  const type = variable.getPluginData(TYPE_OVERRIDE_KEY);
+  return type ? type as TokenType : null;
+}
+
+/**
+ * Store a manual token type on a variable; null clears it so the type is inferred again
+ */
+export async function saveVariableTypeOverride(variableId: string, type: TokenType | null): Promise<void> {
+  const variable = await figma.variables.getVariableByIdAsync(variableId);
+  if (!variable) {
+    throw new Error(`Variable not found: ${variableId}`);
+  }
+  variable.setPluginData(TYPE_OVERRIDE_KEY, type || '');
+}
@@ -2,48 +2,132 @@
  * Token Sync
  * Syncs tokens back to Figma variables and styles
  */
-import { DesignTokens, TokenSet, Token, TokenValue, TokenReference } from './token-types';
-import { hexToRgba, resolveTokenReference, isTokenReference } from './token-utils';
+import { DesignTokens, TokenSet, Token, TokenModeValue, TokenType } from './token-types';
+import { parseColor, rgbaToHex, resolveTokenReference, getTokenModeValue, parseUnit } from './token-utils';
+import { getEffectivePath, parseStyleName } from './token-scanner';
 
-interface SyncResult {
+/**
+ * One change to the document; oldValue/newValue are display strings
+ */
+export interface SyncChange {
+    action: 'create-collection' | 'add-mode' | 'create' | 'rename' | 'revalue' | 'realias' | 'redescribe';
+    path: string; // Token path, or the collection name for collection and mode changes
+    mode?: string;
+    oldValue?: string;
+    newValue?: string;
+}
+
+export interface SyncResult {
     created: number;
-    updated: number;
+    updated: number; // Existing variables with at least one real change
+    skipped: { path: string; reason: string }[]; // Tokens that have no variable equivalent
     errors: string[];
+    changes: SyncChange[]; // What was changed, or in a dry run what would be
+}
+
+export interface SyncOptions {
+    baseFontSize?: number; // For converting rem/em values back to px, default 16
+    dryRun?: boolean; // Only plan the changes, leaving the document untouched
+}
+
+interface SyncContext {
+    result: SyncResult;
+    allTokens: DesignTokens;
+    options: SyncOptions;
+    // Variable of every token handled so far by reference path (e.g. "primitives.color.blue"); null when a dry run would create it
+    syncedRefs: Map<string, Variable | null>;
+    // Collections written to so far by id, or by name for ones a dry run would create
+    collections: Map<string, SyncCollection>;
+}
+
+/**
+ * A collection mode values are written to; modeId is missing for modes a dry run would add
+ */
+interface SyncMode {
+    name: string;
+    modeId?: string;
+    isDefault: boolean;
+}
+
+/**
+ * A collection variables are written to; collection is null for one a dry run would create
+ */
+interface SyncCollection {
+    name: string;
+    collection: VariableCollection | null;
+    modes: SyncMode[];
+    isFresh: boolean; // Empty with only "Mode 1", which can be renamed to the first mode tokens use
+}
+
+/**
+ * Categories synced first, in order, so aliases mostly point at variables synced earlier
+ */
+const CATEGORY_ORDER = ['primitives', 'semantic', 'components'];
+
+function getCategoryRank(category: string): number {
+    const index = CATEGORY_ORDER.indexOf(category);
+    return index === -1 ? CATEGORY_ORDER.length : index;
+}
+
+/**
+ * Collection a category's tokens are synced into, e.g. "primitives" -> "Primitives"
+ */
+function getCategoryCollectionName(category: string): string {
+    return category.charAt(0).toUpperCase() + category.slice(1);
 }
 
 /**
  * Main sync function
  */
-export async function syncTokensToFigma(tokens: DesignTokens): Promise<SyncResult> {
-    const result: SyncResult = { created: 0, updated: 0, errors: [] };
+export async function syncTokensToFigma(tokens: DesignTokens, options: SyncOptions = {}): Promise<SyncResult> {
+    const result: SyncResult = { created: 0, updated: 0, skipped: [], errors: [], changes: [] };
+    const context: SyncContext = { result, allTokens: tokens, options, syncedRefs: new Map(), collections: new Map() };
 
-    // 1. Ensure Variable Collections exist
-    const primitivesCollection = await getOrCreateCollection('Primitives');
-    const semanticCollection = await getOrCreateCollection('Semantic');
+    // Primitives first, then semantic and component tokens (so aliases work), then custom categories
+    const categories = Object.keys(tokens).sort((a, b) => getCategoryRank(a) - getCategoryRank(b));
+    for (const category of categories) {
+        const tokenSet = tokens[category];
+        if (!tokenSet || Object.keys(tokenSet).length === 0) continue;
 
-    // 2. Sync Primitives first (so aliases work)
-    if (tokens.primitives) {
-        await syncTokenSet(
-            tokens.primitives,
-            primitivesCollection,
-            [],
-            result,
-            tokens
-        );
+        await syncTokenSet(tokenSet, category, [], context);
     }
 
-    // 3. Sync Semantic tokens
-    if (tokens.semantic) {
-        await syncTokenSet(
-            tokens.semantic,
-            semanticCollection,
-            [],
-            result,
-            tokens
-        );
+    return result;
+}
+
+/**
+ * Add the modes a token uses but the collection lacks. The default mode of an
+ * empty, freshly created collection ("Mode 1") is renamed to the first mode instead.
+ */
+function ensureCollectionModes(target: SyncCollection, modeNames: string[], context: SyncContext): void {
+    const { result, options } = context;
+    const { collection, modes } = target;
+    if (modeNames.length === 0) return;
+
+    if (target.isFresh && !modeNames.includes('Mode 1')) {
+        if (collection && !options.dryRun) collection.renameMode(collection.defaultModeId, modeNames[0]);
+        result.changes.push({ action: 'rename', path: target.name, oldValue: 'Mode 1', newValue: modeNames[0] });
+        modes[0].name = modeNames[0];
     }
+    target.isFresh = false;
 
-    return result;
+    for (const name of modeNames) {
+        if (modes.some(m => m.name === name)) continue;
+
+        if (!collection || options.dryRun) {
+            modes.push({ name, isDefault: false });
+            result.changes.push({ action: 'add-mode', path: target.name, newValue: name });
+            continue;
+        }
+        try {
+            modes.push({ name, modeId: collection.addMode(name), isDefault: false });
+            result.changes.push({ action: 'add-mode', path: target.name, newValue: name });
+        } catch (err) {
+            // e.g. the plan's mode limit was reached
+            const errorMsg = err instanceof Error ? err.message : String(err);
+            result.errors.push(`Failed to add mode ${name} to ${collection.name}: ${errorMsg}`);
+        }
+    }
 }
 
 /**
@@ -51,10 +135,9 @@ export async function syncTokensToFigma(tokens: DesignTokens): Promise<SyncResul
  */
 async function syncTokenSet(
     tokenSet: TokenSet,
-    collection: VariableCollection,
+    category: string,
     path: string[],
-    result: SyncResult,
-    allTokens: DesignTokens
+    context: SyncContext
 ) {
     for (const [key, item] of Object.entries(tokenSet)) {
         const currentPath = [...path, key];
@@ -62,14 +145,14 @@ async function syncTokenSet(
         // Check if it's a token (has value and type)
         if (isToken(item)) {
             try {
-                await syncSingleToken(item, collection, currentPath, result, allTokens);
+                await syncSingleToken(item, category, currentPath, context);
             } catch (err) {
                 const errorMsg = err instanceof Error ? err.message : String(err);
-                result.errors.push(`Failed to sync ${currentPath.join('.')}: ${errorMsg}`);
+                context.result.errors.push(`Failed to sync ${currentPath.join('.')}: ${errorMsg}`);
             }
         } else {
             // It's a nested set
-            await syncTokenSet(item as TokenSet, collection, currentPath, result, allTokens);
+            await syncTokenSet(item as TokenSet, category, currentPath, context);
         }
     }
 }
@@ -78,20 +161,57 @@ function isToken(item: any): item is Token {
     return typeof item === 'object' && item !== null && 'value' in item && 'type' in item;
 }
 
+function isReferenceValue(value: unknown): value is string {
+    return typeof value === 'string' && value.startsWith('{') && value.endsWith('}');
+}
+
 /**
- * Sync a single token to a Figma variable
+ * Figma variable type each synced token type is written as
+ */
+const SYNCED_VARIABLE_TYPES: { [type in TokenType]?: VariableResolvedDataType } = {
+    color: 'COLOR',
+    number: 'FLOAT',
+    spacing: 'FLOAT',
+    borderRadius: 'FLOAT',
+    fontSize: 'FLOAT',
+    lineHeight: 'FLOAT',
+    opacity: 'FLOAT',
+    fontFamily: 'STRING',
+    string: 'STRING',
+    boolean: 'BOOLEAN',
+};
+
+/**
+ * Sync a single token to a Figma variable. Each change is recorded as soon as it is
+ * made, so a failure part way through still reports what was already applied.
+ * New variables are named after the path within the category and go to the category's
+ * collection (created on first use); existing ones keep their collection and, unless
+ * the token was moved, their name. Changes use the full reference path.
  */
 async function syncSingleToken(
     token: Token,
-    collection: VariableCollection,
+    category: string,
     path: string[],
-    result: SyncResult,
-    allTokens: DesignTokens
+    context: SyncContext
 ) {
-    // Only support color for now
-    if (token.type !== 'color') return;
+    const { result, options } = context;
+    const tokenPath = [category, ...path].join('.');
+
+    // Style tokens (typography, shadows, ...) have no variable equivalent
+    const resolvedType = SYNCED_VARIABLE_TYPES[token.type];
+    if (!resolvedType || ('composite' in token && token.composite)) {
+        result.skipped.push({ path: tokenPath, reason: `${token.type} tokens cannot be stored as variables` });
+        return;
+    }
+
+    // Fail before touching the document when the value can't be converted
+    const { value } = getTokenModeValue(token);
+    if (!isReferenceValue(value)) {
+        toVariableValue(value, resolvedType, token, options);
+    }
 
     const variableName = path.join('/'); // Figma uses slash naming convention
+    const collectionName = getCategoryCollectionName(category);
 
     // Find existing variable matching ID or Name
     let variable: Variable | undefined;
@@ -99,75 +219,222 @@ async function syncSingleToken(
     // Try finding by stored ID first
     if ('$extensions' in token && token.$extensions?.['com.figma.variable-id']) {
         try {
-            variable = await figma.variables.getVariableByIdAsync(token.$extensions['com.figma.variable-id']);
+            variable = await figma.variables.getVariableByIdAsync(token.$extensions['com.figma.variable-id']) || undefined;
         } catch (e) {
             // Variable might have been deleted
         }
     }
 
-    // Fallback to finding by name in collection
-    if (!variable) {
+    // Fallback to finding by name in the category's collection
+    const categoryCollection = variable ? undefined : await findCollection(collectionName, context);
+    if (!variable && categoryCollection?.collection) {
+        const collectionId = categoryCollection.collection.id;
         const variables = await figma.variables.getLocalVariablesAsync(); // This could be optimized
-        variable = variables.find(v => v.variableCollectionId === collection.id && v.name === variableName);
+        variable = variables.find(v => v.variableCollectionId === collectionId && v.name === variableName);
     }
 
-    let isNew = false;
+    // A variable's type is fixed once created
+    if (variable && variable.resolvedType !== resolvedType) {
+        result.skipped.push({ path: tokenPath, reason: `existing variable ${variable.name} is ${variable.resolvedType}, not ${resolvedType}` });
+        return;
+    }
+
+    // The first change decides whether the token counts as created or updated
+    let isRecorded = false;
+    const record = (change: SyncChange) => {
+        result.changes.push(change);
+        if (!isRecorded) {
+            if (change.action === 'create') result.created++;
+            else result.updated++;
+            isRecorded = true;
+        }
+    };
+
+    // Modes are matched by name in the collection the variable lives in, e.g. "Colors" with Light/Dark
+    const target = variable
+        ? await getVariableCollection(variable, context)
+        : categoryCollection || await getOrCreateCollection(collectionName, context);
+    ensureCollectionModes(target, Object.keys(token.modes || {}), context);
+    const { collection } = target;
+    const isNew = !variable;
 
     if (!variable) {
-        variable = figma.variables.createVariable(variableName, collection.id, 'COLOR');
-        isNew = true;
-        result.created++;
-    } else {
-        // Update name if needed
-        if (variable.name !== variableName) {
-            variable.name = variableName;
+        if (collection && !options.dryRun) {
+            variable = figma.variables.createVariable(variableName, collection.id, resolvedType);
         }
-        result.updated++;
+        record({ action: 'create', path: tokenPath, newValue: variableName });
+    } else if (variable.name !== variableName && !isScannedPath(variable.name, token, path)) {
+        const oldName = variable.name;
+        if (!options.dryRun) variable.name = variableName;
+        record({ action: 'rename', path: tokenPath, oldValue: oldName, newValue: variableName });
     }
 
     // Set description
-    if (token.description) {
-        variable.description = token.description;
+    if (token.description && (variable?.description || '') !== token.description) {
+        const oldDescription = variable?.description || undefined;
+        if (variable && !options.dryRun) variable.description = token.description;
+        record({ action: 'redescribe', path: tokenPath, oldValue: oldDescription, newValue: token.description });
     }
 
-    // Set Value
-    const modeId = collection.defaultModeId;
+    // Set the value of the default mode, then of every other mode the token has a value for
+    for (const mode of target.modes) {
+        const modeValue = mode.isDefault ? getTokenModeValue(token, mode.name) : token.modes?.[mode.name];
+        if (!modeValue) continue;
 
-    if (isTokenReference(token)) {
-        // It's an alias
-        const value = await resolveAliasToVariable(token.value, allTokens);
-        if (value) {
-            variable.setValueForMode(modeId, value);
-        } else {
-            // If alias cannot be resolved to a variable, try resolving to raw value
-            const rawValue = resolveTokenReference(token.value, allTokens);
-            if (rawValue && typeof rawValue === 'string') {
-                variable.setValueForMode(modeId, hexToRgba(rawValue));
-            } else {
-                throw new Error(`Could not resolve alias: ${token.value}`);
-            }
-        }
-    } else {
-        // It's a raw value
-        if (typeof token.value === 'string') {
-            variable.setValueForMode(modeId, hexToRgba(token.value));
+        const desired = await getDesiredValue(modeValue, resolvedType, token, context, mode.name);
+        const current = !isNew && variable && mode.modeId ? variable.valuesByMode[mode.modeId] : undefined;
+        if (current !== undefined && desired.value !== undefined && isSameVariableValue(current, desired.value)) continue;
+
+        const oldValue = current === undefined ? undefined : await formatVariableValue(current);
+        if (variable && mode.modeId && desired.value !== undefined && !options.dryRun) {
+            variable.setValueForMode(mode.modeId, desired.value);
         }
+        record({ action: desired.isAlias ? 'realias' : 'revalue', path: tokenPath, mode: mode.name, oldValue, newValue: desired.label });
     }
 
+    context.syncedRefs.set(tokenPath, variable || null);
+
     // Store ID back to token for future tracking?
     // Ideally we should update the token object in memory with the new ID
-    if (!token.$extensions) token.$extensions = {};
-    token.$extensions['com.figma.variable-id'] = variable.id;
+    if (variable && !options.dryRun) {
+        if (!token.$extensions) token.$extensions = {};
+        token.$extensions['com.figma.variable-id'] = variable.id;
+    }
 }
 
 /**
- * Resolve a path string (e.g., "{primitives.color.blue.500}") to a Figma Variable
+ * Whether a token still sits where its variable's name places it when scanned, e.g.
+ * "Blue/500" at color.blue.500, or where it was when scanned
  */
-async function resolveAliasToVariable(ref: string, tokens: DesignTokens): Promise<VariableAlias | null> {
+function isScannedPath(variableName: string, token: Token, path: string[]): boolean {
+    const scannedPaths = [parseStyleName(variableName), token.$extensions?.originalPath];
+    return scannedPaths.some(scanned => scanned && getEffectivePath(scanned, token.type).join('/') === path.join('/'));
+}
+
+/**
+ * The value one mode of a variable should have, as an alias when it references a synced token.
+ * value is missing for aliases to variables a dry run would create.
+ */
+async function getDesiredValue(
+    modeValue: TokenModeValue,
+    resolvedType: VariableResolvedDataType,
+    token: Token,
+    context: SyncContext,
+    modeName?: string
+): Promise<{ value?: VariableValue; label: string; isAlias: boolean }> {
+    let { value } = modeValue;
+
+    if (isReferenceValue(value)) {
+        // It's an alias
+        const target = await resolveAliasToVariable(value, context);
+        if (target) {
+            return { value: figma.variables.createVariableAlias(target), label: `{${target.name}}`, isAlias: true };
+        }
+        if (context.syncedRefs.has(value.slice(1, -1))) {
+            return { label: `{${value.slice(1, -1).split('.').slice(1).join('/')}}`, isAlias: true };
+        }
+
+        // If alias cannot be resolved to a variable, try resolving to raw value
+        const rawValue = resolveTokenReference(value, context.allTokens, modeName);
+        if (rawValue === null || rawValue === '') {
+            throw new Error(`Could not resolve alias: ${value}`);
+        }
+        value = rawValue;
+    }
+
+    // It's a raw value
+    const converted = toVariableValue(value, resolvedType, token, context.options);
+    return { value: converted, label: await formatVariableValue(converted), isAlias: false };
+}
+
+function isVariableAlias(value: VariableValue): value is VariableAlias {
+    return typeof value === 'object' && value !== null && 'type' in value && value.type === 'VARIABLE_ALIAS';
+}
+
+function isColorValue(value: VariableValue): value is RGB | RGBA {
+    return typeof value === 'object' && value !== null && 'r' in value;
+}
+
+/**
+ * Compare variable values; colors are compared at 8-bit precision
+ */
+function isSameVariableValue(a: VariableValue, b: VariableValue): boolean {
+    if (isVariableAlias(a) || isVariableAlias(b)) {
+        return isVariableAlias(a) && isVariableAlias(b) && a.id === b.id;
+    }
+    if (isColorValue(a) || isColorValue(b)) {
+        return isColorValue(a) && isColorValue(b) && formatColor(a) === formatColor(b);
+    }
+    return a === b;
+}
+
+function formatColor(color: RGB | RGBA): string {
+    return rgbaToHex(color.r, color.g, color.b, 'a' in color ? color.a : 1);
+}
+
+/**
+ * Display string for a variable value: hex for colors, {name} for aliases
+ */
+async function formatVariableValue(value: VariableValue): Promise<string> {
+    if (isVariableAlias(value)) {
+        const target = await figma.variables.getVariableByIdAsync(value.id);
+        return `{${target ? target.name : value.id}}`;
+    }
+    if (isColorValue(value)) return formatColor(value);
+    return String(value);
+}
+
+/**
+ * Convert a token value to the value Figma expects for a variable type.
+ * Sizes are stored in px; opacities as percentages (0-100).
+ */
+function toVariableValue(
+    value: string | number | boolean,
+    resolvedType: VariableResolvedDataType,
+    token: Token,
+    options: SyncOptions
+): VariableValue {
+    switch (resolvedType) {
+        case 'COLOR': {
+            // Hex, or rgba() for translucent colors as written by rgbaToHex
+            const color = parseColor(String(value));
+            if (!color) {
+                throw new Error(`Could not parse color value: ${value}`);
+            }
+            return color;
+        }
+        case 'FLOAT': {
+            const n = typeof value === 'boolean' ? null : parseUnit(value, options.baseFontSize);
+            if (n === null) {
+                throw new Error(`Could not parse ${token.type} value: ${value}`);
+            }
+            // Only tokens marked as holding ratios are scaled; a plain 1 is 1%
+            if (token.type === 'opacity' && token.$extensions?.opacityRatio && !String(value).trim().endsWith('%')) {
+                return parseFloat((n * 100).toFixed(4));
+            }
+            return n;
+        }
+        case 'BOOLEAN':
+            return value === true || value === 'true';
+        case 'STRING':
+            return String(value);
+        default:
+            throw new Error(`Unsupported variable type: ${resolvedType}`);
+    }
+}
+
+/**
+ * Resolve a path string (e.g., "{primitives.color.blue.500}") to a Figma Variable.
+ * Tokens synced earlier in this run are looked up first.
+ */
+async function resolveAliasToVariable(ref: string, context: SyncContext): Promise<Variable | null> {
+    const synced = context.syncedRefs.get(ref.slice(1, -1));
+    if (synced) return synced;
+
     const path = ref.slice(1, -1).split('.'); // Remove { } and split
 
     // Navigate to find the target token
-    let current: any = tokens;
+    let current: any = context.allTokens;
     for (const part of path) {
         if (current && current[part]) current = current[part];
         else return null;
@@ -180,23 +447,66 @@ async function resolveAliasToVariable(ref: string, tokens: DesignTokens): Promis
 
     // Check if variable exists
     try {
-        const variable = await figma.variables.getVariableByIdAsync(targetToken.$extensions['com.figma.variable-id']);
-        if (variable) {
-            return figma.variables.createVariableAlias(variable);
-        }
+        return await figma.variables.getVariableByIdAsync(targetToken.$extensions['com.figma.variable-id']);
     } catch (e) { }
 
     return null;
 }
 
 /**
- * Get or create a variable collection
+ * Sync state of a collection, shared by every token written to it
+ */
+function addSyncCollection(collection: VariableCollection, context: SyncContext): SyncCollection {
+    const target: SyncCollection = {
+        name: collection.name,
+        collection,
+        modes: collection.modes.map(m => ({ name: m.name, modeId: m.modeId, isDefault: m.modeId === collection.defaultModeId })),
+        isFresh: collection.variableIds.length === 0 && collection.modes.length === 1 && collection.modes[0].name === 'Mode 1',
+    };
+    context.collections.set(collection.id, target);
+    return target;
+}
+
+/**
+ * The collection an existing variable lives in
  */
-async function getOrCreateCollection(name: string): Promise<VariableCollection> {
+async function getVariableCollection(variable: Variable, context: SyncContext): Promise<SyncCollection> {
+    const cached = context.collections.get(variable.variableCollectionId);
+    if (cached) return cached;
+
+    const collection = await figma.variables.getVariableCollectionByIdAsync(variable.variableCollectionId);
+    if (!collection) {
+        throw new Error(`Collection of variable ${variable.name} not found`);
+    }
+    return addSyncCollection(collection, context);
+}
+
+/**
+ * Find a collection by name, including one this sync created or would create
+ */
+async function findCollection(name: string, context: SyncContext): Promise<SyncCollection | undefined> {
+    const cached = Array.from(context.collections.values()).find(c => c.name === name);
+    if (cached) return cached;
+
     const collections = await figma.variables.getLocalVariableCollectionsAsync();
     const existing = collections.find(c => c.name === name);
+    return existing ? addSyncCollection(existing, context) : undefined;
+}
 
+/**
+ * Get or create a variable collection; in a dry run a missing one is only planned
+ */
+async function getOrCreateCollection(name: string, context: SyncContext): Promise<SyncCollection> {
+    const existing = await findCollection(name, context);
     if (existing) return existing;
 
-    return figma.variables.createVariableCollection(name);
+    let target: SyncCollection;
+    if (context.options.dryRun) {
+        target = { name, collection: null, modes: [{ name: 'Mode 1', isDefault: true }], isFresh: true };
+        context.collections.set(name, target);
+    } else {
+        target = addSyncCollection(figma.variables.createVariableCollection(name), context);
+    }
+    context.result.changes.push({ action: 'create-collection', path: name });
+    return target;
 }
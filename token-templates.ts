@@ -0,0 +1,149 @@
+/**
+ * Export Templates
+ * User-defined output formats rendered with a small mustache-style syntax:
+ *
+ *   {{name}}                  value from the current scope (dot paths allowed: {{token.name}})
+ *   {{#groups}}...{{/groups}} loop over a list, or render once if the value is truthy
+ *   {{^alias}}...{{/alias}}   render when the value is empty / false
+ *   {{! comment }}            ignored
+ *
+ * Inside sections, {{.}} is the current value; inside loops, @index, @first and @last are also available.
+ */
+
+export interface ExportTemplate {
+    id: string;
+    name: string;
+    extension: string; // File extension used for downloads, e.g. "yaml"
+    source: string;
+}
+
+type TemplateScope = { [key: string]: unknown };
+
+type TemplateNode =
+    | { kind: 'text'; text: string }
+    | { kind: 'var'; path: string }
+    | { kind: 'section'; path: string; inverted: boolean; children: TemplateNode[] };
+
+const TAG_PATTERN = /\{\{\s*([#^/!]?)\s*([^}]*?)\s*\}\}/g;
+
+/**
+ * Parse a template into a tree, throwing on unbalanced sections
+ */
+function parseTemplate(source: string): TemplateNode[] {
+    const root: TemplateNode[] = [];
+    const stack: { path: string; children: TemplateNode[] }[] = [{ path: '', children: root }];
+    let lastIndex = 0;
+    let match: RegExpExecArray | null;
+
+    TAG_PATTERN.lastIndex = 0;
+    while ((match = TAG_PATTERN.exec(source)) !== null) {
+        const current = stack[stack.length - 1];
+        if (match.index > lastIndex) {
+            current.children.push({ kind: 'text', text: source.slice(lastIndex, match.index) });
+        }
+        lastIndex = TAG_PATTERN.lastIndex;
+
+        const [, sigil, path] = match;
+        if (sigil === '!') continue;
+
+        if (sigil === '#' || sigil === '^') {
+            const section: TemplateNode = { kind: 'section', path, inverted: sigil === '^', children: [] };
+            current.children.push(section);
+            stack.push({ path, children: section.children });
+        } else if (sigil === '/') {
+            if (stack.length === 1 || current.path !== path) {
+                throw new Error(`Unexpected closing tag {{/${path}}}`);
+            }
+            stack.pop();
+        } else {
+            current.children.push({ kind: 'var', path });
+        }
+    }
+
+    if (stack.length > 1) {
+        throw new Error(`Unclosed section {{#${stack[stack.length - 1].path}}}`);
+    }
+    if (lastIndex < source.length) {
+        root.push({ kind: 'text', text: source.slice(lastIndex) });
+    }
+
+    return root;
+}
+
+/**
+ * Look a dotted path up through the scope chain, innermost first
+ */
+function lookup(scopes: TemplateScope[], path: string): unknown {
+    // "." is the value the innermost section is on, e.g. the current string in a list of strings
+    if (path === '.') {
+        const current = scopes[scopes.length - 1];
+        return current && '.' in current ? current['.'] : current;
+    }
+
+    const [head, ...rest] = path.split('.');
+    for (let i = scopes.length - 1; i >= 0; i--) {
+        if (scopes[i] && head in scopes[i]) {
+            return rest.reduce<unknown>(
+                (value, key) => (value && typeof value === 'object') ? (value as TemplateScope)[key] : undefined,
+                scopes[i][head]
+            );
+        }
+    }
+    return undefined;
+}
+
+function isEmpty(value: unknown): boolean {
+    return value === undefined || value === null || value === false || value === '' || (Array.isArray(value) && value.length === 0);
+}
+
+function renderNodes(nodes: TemplateNode[], scopes: TemplateScope[]): string {
+    return nodes.map(node => {
+        if (node.kind === 'text') return node.text;
+
+        const value = lookup(scopes, node.path);
+
+        if (node.kind === 'var') {
+            return isEmpty(value) && value !== false ? '' : String(value);
+        }
+
+        if (node.inverted) {
+            return isEmpty(value) ? renderNodes(node.children, scopes) : '';
+        }
+        if (isEmpty(value)) return '';
+
+        if (Array.isArray(value)) {
+            return value.map((item, index) => {
+                const itemScope: TemplateScope = (item && typeof item === 'object') ? { ...item, '.': item } : { '.': item };
+                itemScope['@index'] = index;
+                itemScope['@first'] = index === 0;
+                itemScope['@last'] = index === value.length - 1;
+                return renderNodes(node.children, [...scopes, itemScope]);
+            }).join('');
+        }
+
+        const scope: TemplateScope = typeof value === 'object' ? { ...value as TemplateScope, '.': value } : { '.': value };
+        return renderNodes(node.children, [...scopes, scope]);
+    }).join('');
+}
+
+/**
+ * Render a template against a context object
+ */
+export function renderTemplate(source: string, context: TemplateScope): string {
+    return renderNodes(parseTemplate(source), [context]);
+}
+
+/**
+ * Starting point for new templates, showing the available fields
+ */
+export const DEFAULT_TEMPLATE_SOURCE = `# {{collection}}
+{{#groups}}
+{{name}}:
+{{#tokens}}
+  {{path}}:
+    type: {{type}}
+    value: "{{value}}"
+{{#alias}}    alias: {{alias}}
+{{/alias}}{{#description}}    description: {{description}}
+{{/description}}{{/tokens}}
+{{/groups}}`;
@@ -0,0 +1,194 @@
+/**
+ * Export Transforms
+ * Named name/value/filter transforms that the exporters run through, in the
+ * spirit of Style Dictionary transforms. Presets pick an ordered list.
+ */
+
+import { CollectionVariableDetail } from './token-types';
+import type { ExportOptions } from './token-export';
+import { formatColor, formatUnit, isDimensionTokenType } from './token-utils';
+
+export interface NameTransform {
+    kind: 'name';
+    name: string;
+    description: string;
+    matcher?: (variable: CollectionVariableDetail) => boolean;
+    transform: (name: string, variable: CollectionVariableDetail, options: ExportOptions) => string;
+}
+
+export interface ValueTransform {
+    kind: 'value';
+    name: string;
+    description: string;
+    matcher?: (variable: CollectionVariableDetail) => boolean;
+    transform: (value: string | number, variable: CollectionVariableDetail, options: ExportOptions) => string | number;
+}
+
+export interface FilterTransform {
+    kind: 'filter';
+    name: string;
+    description: string;
+    filter: (variable: CollectionVariableDetail, options: ExportOptions) => boolean;
+}
+
+export type Transform = NameTransform | ValueTransform | FilterTransform;
+
+const registry = new Map<string, Transform>();
+
+/**
+ * Register a transform, replacing any existing transform with the same name
+ */
+export function registerTransform(transform: Transform): void {
+    registry.set(transform.name, transform);
+}
+
+// ----------------------------------------------------------------------
+// BUILT-IN TRANSFORMS
+// ----------------------------------------------------------------------
+
+function isNumeric(value: string | number): boolean {
+    return typeof value === 'number' || !isNaN(Number(value));
+}
+
+function isDimensionType(v: CollectionVariableDetail): boolean {
+    return isDimensionTokenType(v.type) || v.type === 'typography';
+}
+
+function isFontSize(v: CollectionVariableDetail): boolean {
+    return v.type === 'fontSize' || (isDimensionType(v) && /font-?size|text-?size/i.test(v.name.replace(/[\s/_]+/g, '-')));
+}
+
+registerTransform({
+    kind: 'value',
+    name: 'color/format',
+    description: 'Format colors with the selected color format',
+    matcher: v => v.type === 'color',
+    transform: (value, _v, options) => formatColor(String(value), options.colorFormat),
+});
+
+registerTransform({
+    kind: 'value',
+    name: 'size/px-to-rem-font-size',
+    description: 'Convert font sizes to rem, leaving other sizes alone',
+    matcher: isFontSize,
+    transform: (value, _v, options) => isNumeric(value) ? formatUnit(Number(value), 'rem', options.baseFontSize) : value,
+});
+
+registerTransform({
+    kind: 'value',
+    name: 'size/unit-per-variable',
+    description: 'Apply units chosen for individual variables',
+    matcher: isDimensionType,
+    transform: (value, v, options) => {
+        const unit = options.unitPerVariable?.get(v.id);
+        return unit && isNumeric(value) ? formatUnit(Number(value), unit, options.baseFontSize) : value;
+    },
+});
+
+registerTransform({
+    kind: 'value',
+    name: 'size/unit',
+    description: 'Apply the global unit to numeric values',
+    matcher: isDimensionType,
+    transform: (value, _v, options) => isNumeric(value) ? formatUnit(Number(value), options.unitFormat, options.baseFontSize) : value,
+});
+
+registerTransform({
+    kind: 'value',
+    name: 'opacity/ratio',
+    description: 'Convert Figma opacity percentages (0-100) to CSS ratios (0-1)',
+    matcher: v => v.type === 'opacity',
+    transform: value => isNumeric(value) ? parseFloat((Number(value) / 100).toFixed(4)) : value,
+});
+
+registerTransform({
+    kind: 'name',
+    name: 'name/lowercase',
+    description: 'Lowercase token names before the naming strategy is applied',
+    transform: name => name.toLowerCase(),
+});
+
+registerTransform({
+    kind: 'filter',
+    name: 'filter/exclude-private',
+    description: 'Skip variables with a path segment starting with "_" or "."',
+    filter: v => !v.name.split('/').some(part => /^[_.]/.test(part.trim())),
+});
+
+registerTransform({
+    kind: 'filter',
+    name: 'filter/exclude-aliases',
+    description: 'Only export variables with direct values',
+    filter: v => !v.isAlias,
+});
+
+/**
+ * Ordered transform lists. "default" reproduces the original export behaviour.
+ */
+export const TRANSFORM_PRESETS: { [preset: string]: string[] } = {
+    default: ['color/format', 'opacity/ratio', 'size/unit-per-variable', 'size/unit'],
+    'rem-font-sizes': ['color/format', 'opacity/ratio', 'size/px-to-rem-font-size', 'size/unit-per-variable', 'size/unit'],
+    'public-only': ['filter/exclude-private', 'color/format', 'opacity/ratio', 'size/unit-per-variable', 'size/unit'],
+    primitives: ['filter/exclude-aliases', 'color/format', 'opacity/ratio', 'size/unit-per-variable', 'size/unit'],
+};
+
+/**
+ * Registered transforms named in the options, in order; unknown names are skipped
+ */
+function getPipeline(options: ExportOptions): Transform[] {
+    const names = options.transforms || TRANSFORM_PRESETS.default;
+    return names
+        .map(name => registry.get(name))
+        .filter((t): t is Transform => t !== undefined);
+}
+
+/**
+ * Run filter and name transforms over the variables. Alias references are
+ * renamed too, so they keep pointing at the transformed names.
+ */
+export function applyVariableTransforms(
+    variables: CollectionVariableDetail[],
+    options: ExportOptions
+): CollectionVariableDetail[] {
+    const pipeline = getPipeline(options);
+    const filters = pipeline.filter((t): t is FilterTransform => t.kind === 'filter');
+    const nameTransforms = pipeline.filter((t): t is NameTransform => t.kind === 'name');
+
+    const filtered = variables.filter(v => filters.every(f => f.filter(v, options)));
+    if (nameTransforms.length === 0) return filtered;
+
+    const variablesByName = new Map(variables.map(v => [v.name, v]));
+    const renameRef = (name: string, v: CollectionVariableDetail) => nameTransforms.reduce(
+        (current, t) => (!t.matcher || t.matcher(v)) ? t.transform(current, v, options) : current,
+        name
+    );
+
+    return filtered.map(v => {
+        const valuesByMode: CollectionVariableDetail['valuesByMode'] = {};
+        Object.keys(v.valuesByMode).forEach(modeId => {
+            const modeVal = v.valuesByMode[modeId];
+            const raw = modeVal.value;
+            if (typeof raw === 'string' && raw.startsWith('{') && raw.endsWith('}')) {
+                const targetName = raw.slice(1, -1);
+                const target = variablesByName.get(targetName) || v;
+                valuesByMode[modeId] = { ...modeVal, value: `{${renameRef(targetName, target)}}` };
+            } else {
+                valuesByMode[modeId] = modeVal;
+            }
+        });
+        return { ...v, name: renameRef(v.name, v), valuesByMode };
+    });
+}
+
+/**
+ * Run value transforms over a primitive (non-alias) value
+ */
+export function applyValueTransforms(
+    value: string | number,
+    variable: CollectionVariableDetail,
+    options: ExportOptions
+): string | number {
+    return getPipeline(options)
+        .filter((t): t is ValueTransform => t.kind === 'value')
+        .reduce((current, t) => (!t.matcher || t.matcher(variable)) ? t.transform(current, variable, options) : current, value);
+}
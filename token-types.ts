@@ -3,7 +3,7 @@
  * Based on W3C Design Tokens Format with opinionated structure
  */
 
-export type TokenType = 'color' | 'spacing' | 'typography' | 'borderRadius' | 'number';
+export type TokenType = 'color' | 'spacing' | 'typography' | 'borderRadius' | 'fontSize' | 'lineHeight' | 'opacity' | 'fontFamily' | 'number' | 'boolean' | 'string' | 'shadow' | 'blur' | 'gradient' | 'grid';
 
 export type ColorFormat = 'hex' | 'rgb' | 'hsl';
 export type UnitFormat = 'px' | 'rem' | 'em' | 'none';
@@ -14,9 +14,98 @@ export interface NormalizationOptions {
   baseFontSize?: number; // for rem conversion, default 16
 }
 
+/**
+ * Typography properties of a text style. Sizes are in px; lineHeight is px,
+ * a percentage of the font size (e.g. '150%') or 'normal', and letterSpacing
+ * is px or a percentage of the font size.
+ */
+export interface TypographyValue {
+  fontFamily: string;
+  fontWeight: number;
+  fontStyle: 'normal' | 'italic';
+  fontSize: number;
+  lineHeight: number | string;
+  letterSpacing: number | string;
+  textCase: 'none' | 'uppercase' | 'lowercase' | 'capitalize' | 'small-caps';
+  aliases?: { [property in TypographyProperty]?: string }; // Names of variables bound to a property
+}
+
+export type TypographyProperty = Exclude<keyof TypographyValue, 'aliases'>;
+
+export interface ShadowLayer {
+  inset: boolean;
+  color: string; // As produced by rgbaToHex: hex, or rgba() when translucent
+  offsetX: number;
+  offsetY: number;
+  blur: number;
+  spread: number;
+  aliases?: { [property in Exclude<keyof ShadowLayer, 'aliases' | 'inset'>]?: string };
+}
+
+/**
+ * Visible effects of an effect style. Sizes are in px.
+ */
+export interface EffectValue {
+  shadows: ShadowLayer[];
+  blur?: number; // Layer blur radius
+  backgroundBlur?: number; // Background blur radius
+  aliases?: { blur?: string; backgroundBlur?: string };
+}
+
+export interface GradientStop {
+  position: number; // 0-1
+  color: string; // As produced by rgbaToHex
+  alias?: string; // Name of a variable bound to the stop color
+}
+
+/**
+ * Gradient of a paint style, with Figma's gradient transform already
+ * converted to CSS geometry for a square box
+ */
+export interface GradientValue {
+  type: 'linear' | 'radial' | 'angular' | 'diamond';
+  angle: number; // Degrees, CSS convention (0 = to top, clockwise): linear direction or conic start
+  center: { x: number; y: number }; // Fractions of the box, for radial/angular/diamond
+  radius: { x: number; y: number }; // Fractions of the box, for radial/diamond
+  stops: GradientStop[]; // Linear stop positions are along the CSS gradient line
+}
+
+/**
+ * One layout grid of a grid style. Sizes are in px.
+ */
+export interface GridLayout {
+  pattern: 'columns' | 'rows' | 'grid';
+  count?: number; // Undefined when the count is automatic
+  gutter: number;
+  margin: number;
+  sectionSize?: number; // Fixed column width / row height, or the cell size of a 'grid' pattern
+  alignment: 'stretch' | 'start' | 'end' | 'center';
+  aliases?: { count?: string; gutter?: string; margin?: string; sectionSize?: string };
+}
+
+export interface GridValue {
+  layouts: GridLayout[];
+}
+
+/**
+ * Structured value of a token scanned from a style
+ */
+export type CompositeValue = TypographyValue | EffectValue | GradientValue | GridValue;
+
+/**
+ * Value of a token in one mode of its collection. A string value wrapped
+ * in braces is a reference, e.g. "{primitives.color.blue.500}".
+ */
+export interface TokenModeValue {
+  value: string | number;
+  resolvedValue?: string | number;
+}
+
 export interface TokenValue {
   value: string | number;
   resolvedValue?: string | number; // Final primitive value after resolving aliases
+  modes?: { [modeName: string]: TokenModeValue }; // Every mode by name; value holds the default mode
+  composite?: CompositeValue; // Style tokens: value/resolvedValue then hold a CSS summary
   normalization?: NormalizationOptions; // User preference for export
   type: TokenType;
   description?: string;
@@ -24,6 +113,7 @@ export interface TokenValue {
     'com.figma.variable-id'?: string;
     'com.figma.style-id'?: string;
     originalPath?: string[];
+    opacityRatio?: boolean; // Opacity values are 0-1 ratios rather than Figma's 0-100 percentages
   };
 }
 
@@ -42,8 +132,10 @@ export interface TokenEditState {
 export interface TokenReference {
   value: string;
   resolvedValue?: string | number; // Final primitive value after resolving aliases
+  modes?: TokenValue['modes'];
   type: TokenType;
   description?: string;
+  $extensions?: TokenValue['$extensions'];
 }
 
 export type Token = TokenValue | TokenReference;
@@ -52,6 +144,11 @@ export interface TokenSet {
   [key: string]: TokenSet | Token;
 }
 
+/**
+ * Top-level group of DesignTokens; custom categories from categorization rules become extra keys
+ */
+export type TokenCategory = 'primitives' | 'semantic' | 'components' | 'uncategorized' | string;
+
 /**
  * Root token structure
  * Enforces separation between Primitives (raw values) and Semantic (aliases)
@@ -131,6 +228,7 @@ export interface CollectionVariableDetail {
   name: string;
   description?: string;
   type: TokenType; // Normalized type
+  typeOverridden?: boolean; // Type was set manually rather than inferred
   valuesByMode: { [modeId: string]: TokenValue | TokenReference };
   isAlias: boolean;
 }
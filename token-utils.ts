@@ -3,7 +3,7 @@
  * Functions for reading/writing tokens from Figma API
  */
 
-import { DesignTokens, TokenType, Token, TokenValue, TokenReference, TokenMetadata, CollectionVariableDetail } from './token-types';
+import { DesignTokens, TokenType, Token, TokenReference, TokenModeValue, TokenMetadata, CollectionVariableDetail, GradientValue } from './token-types';
 
 /**
  * Convert RGBA color to hex string
@@ -57,8 +57,9 @@ export function isTokenReference(token: Token): token is TokenReference {
 /**
  * Resolve a token reference path to the actual value
  * e.g., "{color.brand.primary}" -> "#2E9FB9"
+ * With a mode name, the target's value in that mode is used when it has one
  */
-export function resolveTokenReference(ref: string, tokens: DesignTokens): string | number | null {
+export function resolveTokenReference(ref: string, tokens: DesignTokens, modeName?: string, depth = 0): string | number | null {
   // Remove { } brackets
   const path = ref.slice(1, -1);
   const parts = path.split('.');
@@ -72,12 +73,27 @@ export function resolveTokenReference(ref: string, tokens: DesignTokens): string
     }
   }
 
+  if (!current || typeof current !== 'object' || !('value' in current)) {
+    return null;
+  }
+
   // If we found a token with a value
-  if (current && typeof current === 'object' && 'value' in current && !isTokenReference(current as Token)) {
-    return (current as TokenValue).value;
+  const token = current as Token;
+  const value = getTokenModeValue(token, modeName).value;
+  if (typeof value === 'string' && value.startsWith('{') && value.endsWith('}')) {
+    // Follow reference chains, guarding against cycles
+    return depth < 10 ? resolveTokenReference(value, tokens, modeName, depth + 1) : null;
   }
 
-  return null;
+  return value;
+}
+
+/**
+ * Get the value of a token in a mode, falling back to its default value
+ */
+export function getTokenModeValue(token: Token, modeName?: string): TokenModeValue {
+  const modeValue = modeName ? token.modes?.[modeName] : undefined;
+  return modeValue || { value: token.value, resolvedValue: token.resolvedValue };
 }
 
 /**
@@ -138,10 +154,36 @@ export function collectionHasColorVariables(variables: CollectionVariableDetail[
  * Check if a collection has any numeric variables
  */
 export function collectionHasNumericVariables(variables: CollectionVariableDetail[]): boolean {
-  return variables.some(v =>
-    v.type === 'number' ||
-    v.type === 'spacing' ||
-    v.type === 'borderRadius'
+  return variables.some(v => isDimensionTokenType(v.type));
+}
+
+/**
+ * Token types each Figma variable type can be exported as
+ */
+export const VARIABLE_TOKEN_TYPES: { [resolvedType: string]: TokenType[] } = {
+  COLOR: ['color'],
+  FLOAT: ['number', 'spacing', 'borderRadius', 'fontSize', 'lineHeight', 'opacity'],
+  STRING: ['string', 'fontFamily'],
+  BOOLEAN: ['boolean'],
+};
+
+/**
+ * Token types a variable can be switched to without changing its Figma type
+ */
+export function getCompatibleTokenTypes(type: TokenType): TokenType[] {
+  return Object.values(VARIABLE_TOKEN_TYPES).find(types => types.includes(type)) || [type];
+}
+
+/**
+ * Check if a token type holds a size that takes a unit (px, rem, ...)
+ */
+export function isDimensionTokenType(type: TokenType): boolean {
+  return (
+    type === 'number' ||
+    type === 'spacing' ||
+    type === 'borderRadius' ||
+    type === 'fontSize' ||
+    type === 'lineHeight'
   );
 }
 
@@ -153,30 +195,10 @@ export function formatColor(value: string, format: string): string {
   // If value matches typical alias pattern (e.g. {color.blue}), skip formatting
   if (value.startsWith('{')) return value;
 
-  // Attempt to parse if not already normalized or if specific handling needed
-  let r = 0, g = 0, b = 0, a = 1;
-  let parsed = false;
-
-  // Simple Hex parse (if hex to hex, we might just return, but if hex to rgb...)
-  if (value.startsWith('#')) {
-    try {
-      const rgba = hexToRgba(value);
-      r = rgba.r; g = rgba.g; b = rgba.b; a = rgba.a;
-      parsed = true;
-    } catch (e) { /* ignore */ }
-  } else if (value.startsWith('rgb')) {
-    const match = value.match(/[\d.]+/g);
-    if (match && match.length >= 3) {
-      r = parseFloat(match[0]) / 255;
-      g = parseFloat(match[1]) / 255;
-      b = parseFloat(match[2]) / 255;
-      if (match[3]) a = parseFloat(match[3]);
-      parsed = true;
-    }
-  }
-
+  const parsed = parseColor(value);
   if (!parsed) return value; // Return as-is if parsing failed
 
+  const { r, g, b, a } = parsed;
   const R = (n: number) => Math.round(n);
   const F = (n: number) => parseFloat(n.toFixed(3));
 
@@ -200,6 +222,97 @@ export function formatColor(value: string, format: string): string {
   }
 }
 
+/**
+ * Parse a hex or rgb()/rgba() color string into 0-1 RGBA channels
+ * Returns null when the value is not a color we understand
+ */
+export function parseColor(value: string): { r: number; g: number; b: number; a: number } | null {
+  if (!value) return null;
+
+  // Simple Hex parse (if hex to hex, we might just return, but if hex to rgb...)
+  if (value.startsWith('#')) {
+    try {
+      return hexToRgba(value);
+    } catch (e) { /* ignore */ }
+  } else if (value.startsWith('rgb')) {
+    const match = value.match(/[\d.]+/g);
+    if (match && match.length >= 3) {
+      return {
+        r: parseFloat(match[0]) / 255,
+        g: parseFloat(match[1]) / 255,
+        b: parseFloat(match[2]) / 255,
+        a: match[3] ? parseFloat(match[3]) : 1,
+      };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * CSS `font` shorthand, e.g. `italic 700 32px/1.25 "Inter"`.
+ * Parts are passed pre-formatted so callers can apply units or var() references.
+ */
+export function formatFontShorthand(parts: {
+  fontStyle?: string;
+  fontWeight: string | number;
+  fontSize: string;
+  lineHeight: string;
+  fontFamily: string;
+}): string {
+  const style = parts.fontStyle && parts.fontStyle !== 'normal' ? `${parts.fontStyle} ` : '';
+  return `${style}${parts.fontWeight} ${parts.fontSize}/${parts.lineHeight} ${parts.fontFamily}`;
+}
+
+/**
+ * CSS `box-shadow` value for shadow layers with pre-formatted parts,
+ * e.g. `0px 4px 8px 0px #0000001a, inset 0px 1px 0px 0px #ffffff33`
+ */
+export function formatBoxShadow(layers: {
+  inset: boolean;
+  offsetX: string;
+  offsetY: string;
+  blur: string;
+  spread: string;
+  color: string;
+}[]): string {
+  if (layers.length === 0) return 'none';
+  return layers
+    .map(l => `${l.inset ? 'inset ' : ''}${l.offsetX} ${l.offsetY} ${l.blur} ${l.spread} ${l.color}`)
+    .join(', ');
+}
+
+/**
+ * CSS gradient function for a gradient with pre-formatted stop colors,
+ * e.g. `linear-gradient(90deg, #ff0000 0%, #0000ff 100%)`
+ * Diamond gradients have no CSS equivalent and are approximated with a radial gradient.
+ */
+export function formatCssGradient(
+  gradient: Pick<GradientValue, 'type' | 'angle' | 'center' | 'radius'>,
+  stops: { color: string; position: number }[]
+): string {
+  const pct = (n: number) => `${parseFloat((n * 100).toFixed(2))}%`;
+  const deg = (n: number) => `${parseFloat(n.toFixed(2))}deg`;
+  const stopList = stops.map(stop => `${stop.color} ${pct(stop.position)}`).join(', ');
+  const at = `at ${pct(gradient.center.x)} ${pct(gradient.center.y)}`;
+
+  switch (gradient.type) {
+    case 'linear':
+      return `linear-gradient(${deg(gradient.angle)}, ${stopList})`;
+    case 'angular':
+      return `conic-gradient(from ${deg(gradient.angle)} ${at}, ${stopList})`;
+    default:
+      return `radial-gradient(ellipse ${pct(gradient.radius.x)} ${pct(gradient.radius.y)} ${at}, ${stopList})`;
+  }
+}
+
+/**
+ * Convert a percentage of the font size (e.g. '150%') into a unitless ratio
+ */
+export function percentToRatio(value: string): number {
+  return parseFloat((parseFloat(value) / 100).toFixed(4));
+}
+
 export function formatUnit(value: number, unit: string, baseFontSize: number = 16): string {
   if (isNaN(value)) return String(value);
 
@@ -212,6 +325,21 @@ export function formatUnit(value: number, unit: string, baseFontSize: number = 1
   }
 }
 
+/**
+ * Parse a size written by formatUnit back to px, e.g. '1.5rem' -> 24.
+ * Unitless numbers and percentages are returned as-is; other units give null.
+ */
+export function parseUnit(value: string | number, baseFontSize: number = 16): number | null {
+  if (typeof value === 'number') return value;
+
+  const match = value.trim().match(/^(-?\d*\.?\d+)\s*(px|rem|em|%)?$/i);
+  if (!match) return null;
+
+  const n = parseFloat(match[1]);
+  const unit = (match[2] || '').toLowerCase();
+  return unit === 'rem' || unit === 'em' ? parseFloat((n * baseFontSize).toFixed(4)) : n;
+}
+
 function rgbToHsl(r: number, g: number, b: number) {
   const max = Math.max(r, g, b), min = Math.min(r, g, b);
   let h = 0, s = 0, l = (max + min) / 2;
@@ -24,6 +24,18 @@
     return a;
   };
   var __spreadProps = (a, b) => __defProps(a, __getOwnPropDescs(b));
+  var __objRest = (source, exclude) => {
+    var target = {};
+    for (var prop in source)
+      if (__hasOwnProp.call(source, prop) && exclude.indexOf(prop) < 0)
+        target[prop] = source[prop];
+    if (source != null && __getOwnPropSymbols)
+      for (var prop of __getOwnPropSymbols(source)) {
+        if (exclude.indexOf(prop) < 0 && __propIsEnum.call(source, prop))
+          target[prop] = source[prop];
+      }
+    return target;
+  };
   var __commonJS = (cb, mod) => function __require() {
     return mod || (0, cb[__getOwnPropNames(cb)[0]])((mod = { exports: {} }).exports, mod), mod.exports;
   };
@@ -7299,36 +7311,26 @@
     return variables.some((v) => v.type === "color");
   }
   function collectionHasNumericVariables(variables) {
-    return variables.some(
-      (v) => v.type === "number" || v.type === "spacing" || v.type === "borderRadius"
-    );
+    return variables.some((v) => isDimensionTokenType(v.type));
+  }
+  var VARIABLE_TOKEN_TYPES = {
+    COLOR: ["color"],
+    FLOAT: ["number", "spacing", "borderRadius", "fontSize", "lineHeight", "opacity"],
+    STRING: ["string", "fontFamily"],
+    BOOLEAN: ["boolean"]
+  };
+  function getCompatibleTokenTypes(type) {
+    return Object.values(VARIABLE_TOKEN_TYPES).find((types) => types.includes(type)) || [type];
+  }
+  function isDimensionTokenType(type) {
+    return type === "number" || type === "spacing" || type === "borderRadius" || type === "fontSize" || type === "lineHeight";
   }
   function formatColor(value, format) {
     if (!value) return value;
     if (value.startsWith("{")) return value;
-    let r = 0, g = 0, b = 0, a = 1;
-    let parsed = false;
-    if (value.startsWith("#")) {
-      try {
-        const rgba = hexToRgba(value);
-        r = rgba.r;
-        g = rgba.g;
-        b = rgba.b;
-        a = rgba.a;
-        parsed = true;
-      } catch (e) {
-      }
-    } else if (value.startsWith("rgb")) {
-      const match = value.match(/[\d.]+/g);
-      if (match && match.length >= 3) {
-        r = parseFloat(match[0]) / 255;
-        g = parseFloat(match[1]) / 255;
-        b = parseFloat(match[2]) / 255;
-        if (match[3]) a = parseFloat(match[3]);
-        parsed = true;
-      }
-    }
+    const parsed = parseColor(value);
     if (!parsed) return value;
+    const { r, g, b, a } = parsed;
     const R = (n) => Math.round(n);
     const F = (n) => parseFloat(n.toFixed(3));
     switch (format) {
@@ -7350,6 +7352,51 @@
         return value;
     }
   }
+  function parseColor(value) {
+    if (!value) return null;
+    if (value.startsWith("#")) {
+      try {
+        return hexToRgba(value);
+      } catch (e) {
+      }
+    } else if (value.startsWith("rgb")) {
+      const match = value.match(/[\d.]+/g);
+      if (match && match.length >= 3) {
+        return {
+          r: parseFloat(match[0]) / 255,
+          g: parseFloat(match[1]) / 255,
+          b: parseFloat(match[2]) / 255,
+          a: match[3] ? parseFloat(match[3]) : 1
+        };
+      }
+    }
+    return null;
+  }
+  function formatFontShorthand(parts) {
+    const style = parts.fontStyle && parts.fontStyle !== "normal" ? `${parts.fontStyle} ` : "";
+    return `${style}${parts.fontWeight} ${parts.fontSize}/${parts.lineHeight} ${parts.fontFamily}`;
+  }
+  function formatBoxShadow(layers) {
+    if (layers.length === 0) return "none";
+    return layers.map((l) => `${l.inset ? "inset " : ""}${l.offsetX} ${l.offsetY} ${l.blur} ${l.spread} ${l.color}`).join(", ");
+  }
+  function formatCssGradient(gradient, stops) {
+    const pct = (n) => `${parseFloat((n * 100).toFixed(2))}%`;
+    const deg = (n) => `${parseFloat(n.toFixed(2))}deg`;
+    const stopList = stops.map((stop) => `${stop.color} ${pct(stop.position)}`).join(", ");
+    const at = `at ${pct(gradient.center.x)} ${pct(gradient.center.y)}`;
+    switch (gradient.type) {
+      case "linear":
+        return `linear-gradient(${deg(gradient.angle)}, ${stopList})`;
+      case "angular":
+        return `conic-gradient(from ${deg(gradient.angle)} ${at}, ${stopList})`;
+      default:
+        return `radial-gradient(ellipse ${pct(gradient.radius.x)} ${pct(gradient.radius.y)} ${at}, ${stopList})`;
+    }
+  }
+  function percentToRatio(value) {
+    return parseFloat((parseFloat(value) / 100).toFixed(4));
+  }
   function formatUnit(value, unit, baseFontSize = 16) {
     if (isNaN(value)) return String(value);
     switch (unit) {
@@ -7424,8 +7471,216 @@
     }
   }
 
+  // token-transforms.ts
+  var registry = /* @__PURE__ */ new Map();
+  function registerTransform(transform) {
+    registry.set(transform.name, transform);
+  }
+  function isNumeric(value) {
+    return typeof value === "number" || !isNaN(Number(value));
+  }
+  function isDimensionType(v) {
+    return isDimensionTokenType(v.type) || v.type === "typography";
+  }
+  function isFontSize(v) {
+    return v.type === "fontSize" || isDimensionType(v) && /font-?size|text-?size/i.test(v.name.replace(/[\s/_]+/g, "-"));
+  }
+  registerTransform({
+    kind: "value",
+    name: "color/format",
+    description: "Format colors with the selected color format",
+    matcher: (v) => v.type === "color",
+    transform: (value, _v, options) => formatColor(String(value), options.colorFormat)
+  });
+  registerTransform({
+    kind: "value",
+    name: "size/px-to-rem-font-size",
+    description: "Convert font sizes to rem, leaving other sizes alone",
+    matcher: isFontSize,
+    transform: (value, _v, options) => isNumeric(value) ? formatUnit(Number(value), "rem", options.baseFontSize) : value
+  });
+  registerTransform({
+    kind: "value",
+    name: "size/unit-per-variable",
+    description: "Apply units chosen for individual variables",
+    matcher: isDimensionType,
+    transform: (value, v, options) => {
+      var _a;
+      const unit = (_a = options.unitPerVariable) == null ? void 0 : _a.get(v.id);
+      return unit && isNumeric(value) ? formatUnit(Number(value), unit, options.baseFontSize) : value;
+    }
+  });
+  registerTransform({
+    kind: "value",
+    name: "size/unit",
+    description: "Apply the global unit to numeric values",
+    matcher: isDimensionType,
+    transform: (value, _v, options) => isNumeric(value) ? formatUnit(Number(value), options.unitFormat, options.baseFontSize) : value
+  });
+  registerTransform({
+    kind: "value",
+    name: "opacity/ratio",
+    description: "Convert Figma opacity percentages (0-100) to CSS ratios (0-1)",
+    matcher: (v) => v.type === "opacity",
+    transform: (value) => isNumeric(value) ? parseFloat((Number(value) / 100).toFixed(4)) : value
+  });
+  registerTransform({
+    kind: "name",
+    name: "name/lowercase",
+    description: "Lowercase token names before the naming strategy is applied",
+    transform: (name) => name.toLowerCase()
+  });
+  registerTransform({
+    kind: "filter",
+    name: "filter/exclude-private",
+    description: 'Skip variables with a path segment starting with "_" or "."',
+    filter: (v) => !v.name.split("/").some((part) => /^[_.]/.test(part.trim()))
+  });
+  registerTransform({
+    kind: "filter",
+    name: "filter/exclude-aliases",
+    description: "Only export variables with direct values",
+    filter: (v) => !v.isAlias
+  });
+  var TRANSFORM_PRESETS = {
+    default: ["color/format", "opacity/ratio", "size/unit-per-variable", "size/unit"],
+    "rem-font-sizes": ["color/format", "opacity/ratio", "size/px-to-rem-font-size", "size/unit-per-variable", "size/unit"],
+    "public-only": ["filter/exclude-private", "color/format", "opacity/ratio", "size/unit-per-variable", "size/unit"],
+    primitives: ["filter/exclude-aliases", "color/format", "opacity/ratio", "size/unit-per-variable", "size/unit"]
+  };
+  function getPipeline(options) {
+    const names = options.transforms || TRANSFORM_PRESETS.default;
+    return names.map((name) => registry.get(name)).filter((t) => t !== void 0);
+  }
+  function applyVariableTransforms(variables, options) {
+    const pipeline = getPipeline(options);
+    const filters = pipeline.filter((t) => t.kind === "filter");
+    const nameTransforms = pipeline.filter((t) => t.kind === "name");
+    const filtered = variables.filter((v) => filters.every((f) => f.filter(v, options)));
+    if (nameTransforms.length === 0) return filtered;
+    const variablesByName = new Map(variables.map((v) => [v.name, v]));
+    const renameRef = (name, v) => nameTransforms.reduce(
+      (current, t) => !t.matcher || t.matcher(v) ? t.transform(current, v, options) : current,
+      name
+    );
+    return filtered.map((v) => {
+      const valuesByMode = {};
+      Object.keys(v.valuesByMode).forEach((modeId) => {
+        const modeVal = v.valuesByMode[modeId];
+        const raw = modeVal.value;
+        if (typeof raw === "string" && raw.startsWith("{") && raw.endsWith("}")) {
+          const targetName = raw.slice(1, -1);
+          const target = variablesByName.get(targetName) || v;
+          valuesByMode[modeId] = __spreadProps(__spreadValues({}, modeVal), { value: `{${renameRef(targetName, target)}}` });
+        } else {
+          valuesByMode[modeId] = modeVal;
+        }
+      });
+      return __spreadProps(__spreadValues({}, v), { name: renameRef(v.name, v), valuesByMode });
+    });
+  }
+  function applyValueTransforms(value, variable, options) {
+    return getPipeline(options).filter((t) => t.kind === "value").reduce((current, t) => !t.matcher || t.matcher(variable) ? t.transform(current, variable, options) : current, value);
+  }
+
+  // token-templates.ts
+  var TAG_PATTERN = /\{\{\s*([#^/!]?)\s*([^}]*?)\s*\}\}/g;
+  function parseTemplate(source) {
+    const root = [];
+    const stack = [{ path: "", children: root }];
+    let lastIndex = 0;
+    let match;
+    TAG_PATTERN.lastIndex = 0;
+    while ((match = TAG_PATTERN.exec(source)) !== null) {
+      const current = stack[stack.length - 1];
+      if (match.index > lastIndex) {
+        current.children.push({ kind: "text", text: source.slice(lastIndex, match.index) });
+      }
+      lastIndex = TAG_PATTERN.lastIndex;
+      const [, sigil, path] = match;
+      if (sigil === "!") continue;
+      if (sigil === "#" || sigil === "^") {
+        const section = { kind: "section", path, inverted: sigil === "^", children: [] };
+        current.children.push(section);
+        stack.push({ path, children: section.children });
+      } else if (sigil === "/") {
+        if (stack.length === 1 || current.path !== path) {
+          throw new Error(`Unexpected closing tag {{/${path}}}`);
+        }
+        stack.pop();
+      } else {
+        current.children.push({ kind: "var", path });
+      }
+    }
+    if (stack.length > 1) {
+      throw new Error(`Unclosed section {{#${stack[stack.length - 1].path}}}`);
+    }
+    if (lastIndex < source.length) {
+      root.push({ kind: "text", text: source.slice(lastIndex) });
+    }
+    return root;
+  }
+  function lookup(scopes, path) {
+    if (path === ".") {
+      const current = scopes[scopes.length - 1];
+      return current && "." in current ? current["."] : current;
+    }
+    const [head, ...rest] = path.split(".");
+    for (let i = scopes.length - 1; i >= 0; i--) {
+      if (scopes[i] && head in scopes[i]) {
+        return rest.reduce(
+          (value, key) => value && typeof value === "object" ? value[key] : void 0,
+          scopes[i][head]
+        );
+      }
+    }
+    return void 0;
+  }
+  function isEmpty(value) {
+    return value === void 0 || value === null || value === false || value === "" || Array.isArray(value) && value.length === 0;
+  }
+  function renderNodes(nodes, scopes) {
+    return nodes.map((node) => {
+      if (node.kind === "text") return node.text;
+      const value = lookup(scopes, node.path);
+      if (node.kind === "var") {
+        return isEmpty(value) && value !== false ? "" : String(value);
+      }
+      if (node.inverted) {
+        return isEmpty(value) ? renderNodes(node.children, scopes) : "";
+      }
+      if (isEmpty(value)) return "";
+      if (Array.isArray(value)) {
+        return value.map((item, index) => {
+          const itemScope = item && typeof item === "object" ? __spreadProps(__spreadValues({}, item), { ".": item }) : { ".": item };
+          itemScope["@index"] = index;
+          itemScope["@first"] = index === 0;
+          itemScope["@last"] = index === value.length - 1;
+          return renderNodes(node.children, [...scopes, itemScope]);
+        }).join("");
+      }
+      const scope = typeof value === "object" ? __spreadProps(__spreadValues({}, value), { ".": value }) : { ".": value };
+      return renderNodes(node.children, [...scopes, scope]);
+    }).join("");
+  }
+  function renderTemplate(source, context) {
+    return renderNodes(parseTemplate(source), [context]);
+  }
+  var DEFAULT_TEMPLATE_SOURCE = `# {{collection}}
+{{#groups}}
+{{name}}:
+{{#tokens}}
+  {{path}}:
+    type: {{type}}
+    value: "{{value}}"
+{{#alias}}    alias: {{alias}}
+{{/alias}}{{#description}}    description: {{description}}
+{{/description}}{{/tokens}}
+{{/groups}}`;
+
   // token-export.ts
   function generateExport(variables, options, collectionName) {
+    variables = applyVariableTransforms(variables, options);
     switch (options.format) {
       case "css":
         return generateCSS(variables, options);
@@ -7434,19 +7689,169 @@
       case "json":
         return generateJSON(variables, options);
       case "dtcg":
-        return generateDTCG(variables, options, collectionName);
+        return options.dtcgModeLayout === "files" ? joinExportFiles(generateDTCGFiles(variables, options)) : generateDTCG(variables, options);
+      case "tailwind":
+        return generateTailwind(variables, options);
+      case "swift":
+        return generateSwift(variables, options, collectionName);
+      case "android":
+        return joinExportFiles(generateAndroidResources(variables, options));
+      case "compose":
+        return generateCompose(variables, options, collectionName);
+      case "dart":
+        return generateDart(variables, options, collectionName);
+      case "ts":
+        return generateTypeScript(variables, options, collectionName);
+      case "tokens-studio":
+        return joinExportFiles(generateTokensStudioFiles(variables, options, collectionName));
+      case "template":
+        return generateFromTemplate(variables, options, collectionName);
       default:
         return "// Unknown format";
     }
   }
-  function normalizeDashName(name) {
-    return name.toLowerCase().replace(/\//g, "-").replace(/\s+/g, "-");
+  function isMultiFileExport(options) {
+    return options.format === "android" || options.format === "tokens-studio" || options.format === "dtcg" && options.dtcgModeLayout === "files";
   }
-  function normalizeDotName(name) {
-    return name.toLowerCase().replace(/\//g, ".").replace(/\s+/g, "-");
+  function generateExportFiles(variables, options, collectionName) {
+    var _a;
+    if (isMultiFileExport(options)) {
+      const transformed = applyVariableTransforms(variables, options);
+      if (options.format === "android") return generateAndroidResources(transformed, options);
+      if (options.format === "tokens-studio") return generateTokensStudioFiles(transformed, options, collectionName, true);
+      return generateDTCGFiles(transformed, options);
+    }
+    const extension = options.format === "template" && ((_a = options.template) == null ? void 0 : _a.extension) ? options.template.extension : EXPORT_FILE_EXTENSIONS[options.format];
+    return [{
+      path: `${cleanPathSegment(collectionName) || "tokens"}.${extension}`,
+      content: generateExport(variables, options, collectionName)
+    }];
   }
-  function processValue(v, modeId, options) {
+  var EXPORT_FILE_EXTENSIONS = {
+    css: "css",
+    scss: "scss",
+    json: "json",
+    dtcg: "tokens.json",
+    tailwind: "tailwind.config.js",
+    swift: "swift",
+    android: "xml",
+    compose: "kt",
+    dart: "dart",
+    ts: "ts",
+    "tokens-studio": "json",
+    template: "txt"
+  };
+  function mergeCollections(collections, name = "Tokens") {
+    const themed = collections.filter((c) => c.modes.length > 1);
+    const modeSources = themed.length > 0 ? themed : collections.slice(0, 1);
+    const modeNames = [];
+    modeSources.forEach((c) => c.modes.forEach((m) => {
+      if (!modeNames.includes(m.name)) modeNames.push(m.name);
+    }));
+    const modes = modeNames.map((modeName) => ({ modeId: `merged:${modeName}`, name: modeName }));
+    const variables = [];
+    collections.forEach((c) => {
+      if (c.modes.length === 0) return;
+      c.variables.forEach((v) => {
+        const valuesByMode = {};
+        modes.forEach((mode) => {
+          const sourceMode = c.modes.find((m) => m.name === mode.name) || c.modes[0];
+          const value = v.valuesByMode[sourceMode.modeId];
+          if (value) valuesByMode[mode.modeId] = value;
+        });
+        variables.push(__spreadProps(__spreadValues({}, v), { valuesByMode }));
+      });
+    });
+    return { collectionId: "merged", name, modes, variables };
+  }
+  function generateCollectionsExport(collections, options, layout) {
+    if (layout === "combined") {
+      const merged = mergeCollections(collections);
+      return generateExport(merged.variables, __spreadProps(__spreadValues({}, options), { modes: merged.modes }), merged.name);
+    }
+    return joinExportFiles(collections.map((c) => ({
+      path: `${cleanPathSegment(c.name)}.${EXPORT_FILE_EXTENSIONS[options.format]}`,
+      content: generateExport(c.variables, __spreadProps(__spreadValues({}, options), { modes: c.modes }), c.name)
+    })));
+  }
+  function joinExportFiles(files) {
+    return files.map((file) => {
+      let banner = `// ${file.path}`;
+      if (file.path.endsWith(".xml")) banner = `<!-- ${file.path} -->`;
+      else if (file.path.endsWith(".css")) banner = `/* ${file.path} */`;
+      return `${banner}
+${file.content}`;
+    }).join("\n\n");
+  }
+  function getTokenPath(name, naming = {}) {
+    const segments = name.split("/").map((part) => part.trim()).filter((part) => part.length > 0);
+    const stripPaths = (naming.stripSegments || []).map((strip) => strip.split("/").map((part) => part.trim().toLowerCase()).filter((part) => part.length > 0)).filter((parts) => parts.length > 0);
+    let stripped = true;
+    while (stripped) {
+      stripped = false;
+      for (const parts of stripPaths) {
+        if (segments.length > parts.length && parts.every((part, i) => segments[i].toLowerCase() === part)) {
+          segments.splice(0, parts.length);
+          stripped = true;
+          break;
+        }
+      }
+    }
+    const prefix = (naming.prefix || "").trim().replace(/^(--|\$)/, "").replace(/[-_./\s]+$/, "");
+    if (prefix) {
+      segments.unshift(...prefix.split("/").filter((part) => part.length > 0));
+    }
+    return segments;
+  }
+  function cleanPathSegment(part) {
+    return part.toLowerCase().replace(/\s+/g, "-");
+  }
+  function formatTokenName(name, naming, namingCase) {
+    const path = getTokenPath(name, naming);
+    switch (namingCase) {
+      case "dot":
+        return path.map(cleanPathSegment).join(".");
+      case "camel":
+        return normalizeCamelName(path.join("/"));
+      case "snake":
+        return normalizeSnakeName(path.join("/"));
+      case "constant":
+        return normalizeSnakeName(path.join("/")).toUpperCase();
+      default:
+        return path.map(cleanPathSegment).join("-");
+    }
+  }
+  function getWebName(name, options) {
     var _a;
+    return formatTokenName(name, options.naming, ((_a = options.naming) == null ? void 0 : _a.case) || "kebab");
+  }
+  function getJSONName(name, options) {
+    var _a;
+    return formatTokenName(name, options.naming, ((_a = options.naming) == null ? void 0 : _a.case) || "dot");
+  }
+  function normalizeCamelName(name) {
+    const words = name.split(/[^a-zA-Z0-9]+/).filter((w) => w.length > 0);
+    const camel = words.map((w, i) => i === 0 ? w.charAt(0).toLowerCase() + w.slice(1) : w.charAt(0).toUpperCase() + w.slice(1)).join("");
+    return /^\d/.test(camel) ? `_${camel}` : camel;
+  }
+  function normalizeSnakeName(name) {
+    const snake = name.replace(/([a-z0-9])([A-Z])/g, "$1_$2").split(/[^a-zA-Z0-9]+/).filter((w) => w.length > 0).join("_").toLowerCase();
+    return /^\d/.test(snake) ? `_${snake}` : snake;
+  }
+  function normalizePascalName(name) {
+    const camel = normalizeCamelName(name).replace(/^_/, "");
+    return camel.charAt(0).toUpperCase() + camel.slice(1);
+  }
+  function getResolvedValue(v, modeId) {
+    const modeVal = v.valuesByMode[modeId];
+    if (!modeVal) return void 0;
+    return modeVal.resolvedValue !== void 0 ? modeVal.resolvedValue : modeVal.value;
+  }
+  function getOpacityRatio(value) {
+    return parseFloat((Number(value) / 100).toFixed(4));
+  }
+  function processValue(v, modeId, options) {
+    var _a, _b;
     const modeVal = v.valuesByMode[modeId];
     if (!modeVal) return "null";
     const isResolved = options.aliasMode === "resolved";
@@ -7456,113 +7861,1180 @@
     }
     if (!isResolved && typeof rawValue === "string" && rawValue.startsWith("{") && rawValue.endsWith("}")) {
       const rawName = rawValue.substring(1, rawValue.length - 1);
-      switch (options.format) {
-        case "css":
-          return `var(--${normalizeDashName(rawName)})`;
-        case "scss":
-          return `$${normalizeDashName(rawName)}`;
-        case "json":
-          return `{${normalizeDotName(rawName)}}`;
-        // Non-spec JSON still uses brackets but normalized dots
-        case "dtcg":
-          return { $ref: normalizeDotName(rawName) };
-        default:
-          return rawValue;
-      }
+      return (_a = formatAliasReference(rawName, options)) != null ? _a : rawValue;
     }
-    if (v.type === "color") {
-      return formatColor(String(rawValue), options.colorFormat);
+    if ("composite" in modeVal && modeVal.composite) {
+      const canReference = ["css", "scss", "tailwind", "ts"].includes(options.format);
+      return (_b = getCssCompositeValue(v, modeId, canReference ? options : __spreadProps(__spreadValues({}, options), { aliasMode: "resolved" }))) != null ? _b : rawValue;
     }
-    if (v.type === "number" || v.type === "spacing" || v.type === "borderRadius" || v.type === "typography") {
-      if (typeof rawValue === "number" || !isNaN(Number(rawValue))) {
-        const unit = ((_a = options.unitPerVariable) == null ? void 0 : _a.get(v.id)) || options.unitFormat;
-        return formatUnit(Number(rawValue), unit, options.baseFontSize);
-      }
+    const value = String(applyValueTransforms(rawValue, v, options));
+    if (v.type === "string" && (options.format === "css" || options.format === "scss")) {
+      return quoteCssString(value);
     }
-    return String(rawValue);
+    return value;
+  }
+  function quoteCssString(value) {
+    return `"${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\A ")}"`;
+  }
+  function getTypedValue(v, value) {
+    if (v.type === "boolean" && (value === "true" || value === "false")) return value === "true";
+    return value;
+  }
+  function formatAliasReference(rawName, options) {
+    switch (options.format) {
+      case "css":
+      case "tailwind":
+      case "ts":
+        return `var(--${getWebName(rawName, options)})`;
+      case "scss":
+        return `$${getWebName(rawName, options)}`;
+      case "json":
+        return `{${getJSONName(rawName, options)}}`;
+      // Non-spec JSON still uses brackets but normalized dots
+      case "dtcg":
+      case "tokens-studio":
+      case "template":
+        return `{${formatTokenName(rawName, options.naming, "dot")}}`;
+      // DTCG / Tokens Studio alias syntax
+      default:
+        return null;
+    }
+  }
+  function getComposite(v, modeId) {
+    const modeVal = v.valuesByMode[modeId];
+    return modeVal && "composite" in modeVal ? modeVal.composite : void 0;
+  }
+  function isStyleToken(v) {
+    return Object.values(v.valuesByMode).some((val) => "composite" in val);
+  }
+  function getTypography(v, modeId) {
+    const composite = getComposite(v, modeId);
+    return composite && "fontFamily" in composite ? composite : void 0;
+  }
+  function getEffect(v, modeId) {
+    const composite = getComposite(v, modeId);
+    return composite && "shadows" in composite ? composite : void 0;
+  }
+  function getGradient(v, modeId) {
+    const composite = getComposite(v, modeId);
+    return composite && "stops" in composite ? composite : void 0;
+  }
+  function getGrid(v, modeId) {
+    const composite = getComposite(v, modeId);
+    return composite && "layouts" in composite ? composite : void 0;
+  }
+  function getCompositeAlias(variableName, options) {
+    return variableName && options.aliasMode === "alias" ? formatAliasReference(variableName, options) : null;
+  }
+  function formatCompositeSize(v, property, px, options) {
+    const cssProperty = property.replace(/[A-Z]/g, (c) => `-${c.toLowerCase()}`);
+    const value = String(applyValueTransforms(px, __spreadProps(__spreadValues({}, v), { name: `${v.name}/${cssProperty}` }), options));
+    return isNaN(Number(value)) ? value : `${value}px`;
+  }
+  function getCssTypography(v, modeId, options) {
+    const typography = getTypography(v, modeId);
+    if (!typography) return null;
+    const alias = (property) => {
+      var _a;
+      return getCompositeAlias((_a = typography.aliases) == null ? void 0 : _a[property], options);
+    };
+    let lineHeight = String(typography.lineHeight);
+    if (typeof typography.lineHeight === "number") lineHeight = formatCompositeSize(v, "lineHeight", typography.lineHeight, options);
+    else if (lineHeight.endsWith("%")) lineHeight = String(percentToRatio(lineHeight));
+    let letterSpacing = String(typography.letterSpacing);
+    if (typeof typography.letterSpacing === "number") letterSpacing = formatCompositeSize(v, "letterSpacing", typography.letterSpacing, options);
+    else if (letterSpacing.endsWith("%")) letterSpacing = `${percentToRatio(letterSpacing)}em`;
+    const declarations = [
+      ["font-family", alias("fontFamily") || JSON.stringify(typography.fontFamily)],
+      ["font-weight", alias("fontWeight") || String(typography.fontWeight)]
+    ];
+    if (typography.fontStyle !== "normal") declarations.push(["font-style", typography.fontStyle]);
+    declarations.push(
+      ["font-size", alias("fontSize") || formatCompositeSize(v, "fontSize", typography.fontSize, options)],
+      ["line-height", alias("lineHeight") || lineHeight],
+      ["letter-spacing", alias("letterSpacing") || letterSpacing]
+    );
+    if (typography.textCase === "small-caps") declarations.push(["font-variant-caps", "small-caps"]);
+    else if (typography.textCase !== "none") declarations.push(["text-transform", typography.textCase]);
+    return declarations;
+  }
+  function getCssCompositeValue(v, modeId, options) {
+    const effect = getEffect(v, modeId);
+    if (effect) return getCssEffect(v, effect, options);
+    const gradient = getGradient(v, modeId);
+    if (gradient) {
+      return formatCssGradient(gradient, gradient.stops.map((stop) => ({
+        color: formatCompositeColor(v, stop.color, stop.alias, options),
+        position: stop.position
+      })));
+    }
+    const declarations = getCssTypography(v, modeId, options);
+    if (!declarations) return null;
+    const get = (property) => {
+      var _a;
+      return ((_a = declarations.find(([name]) => name === property)) == null ? void 0 : _a[1]) || "";
+    };
+    return formatFontShorthand({
+      fontStyle: get("font-style"),
+      fontWeight: get("font-weight"),
+      fontSize: get("font-size"),
+      lineHeight: get("line-height"),
+      fontFamily: get("font-family")
+    });
+  }
+  function getGridProperties(v, modeId, options) {
+    const grid = getGrid(v, modeId);
+    if (!grid) return null;
+    const properties = [];
+    const occurrences = /* @__PURE__ */ new Map();
+    grid.layouts.forEach((layout) => {
+      var _a;
+      const alias = (key) => {
+        var _a2;
+        return getCompositeAlias((_a2 = layout.aliases) == null ? void 0 : _a2[key], options);
+      };
+      const size = (key, px) => alias(key) || formatCompositeSize(v, key, px, options);
+      const occurrence = (occurrences.get(layout.pattern) || 0) + 1;
+      occurrences.set(layout.pattern, occurrence);
+      const suffix = occurrence > 1 ? `-${occurrence}` : "";
+      if (layout.pattern === "grid") {
+        properties.push([`grid-size${suffix}`, size("sectionSize", (_a = layout.sectionSize) != null ? _a : 0)]);
+        return;
+      }
+      const single = layout.pattern === "columns" ? "column" : "row";
+      properties.push(
+        [`${layout.pattern}${suffix}`, alias("count") || (layout.count !== void 0 ? String(layout.count) : "auto")],
+        [`${single}-gutter${suffix}`, size("gutter", layout.gutter)],
+        [`${single}-margin${suffix}`, size("margin", layout.margin)]
+      );
+      if (layout.sectionSize !== void 0) {
+        properties.push([`${single}-${layout.pattern === "columns" ? "width" : "height"}${suffix}`, size("sectionSize", layout.sectionSize)]);
+      }
+      properties.push([`${single}-alignment${suffix}`, layout.alignment]);
+    });
+    return properties;
+  }
+  function formatCompositeColor(v, color, aliasName, options) {
+    const alias = getCompositeAlias(aliasName, options);
+    if (alias) return alias;
+    const rgba = parseColor(color);
+    const colorOptions = options.colorFormat === "hex" && rgba && rgba.a < 1 ? __spreadProps(__spreadValues({}, options), { colorFormat: "rgba" }) : options;
+    return String(applyValueTransforms(color, __spreadProps(__spreadValues({}, v), { type: "color" }), colorOptions));
+  }
+  function getShadowSize(v, layer, property, options) {
+    var _a;
+    return getCompositeAlias((_a = layer.aliases) == null ? void 0 : _a[property], options) || formatCompositeSize(v, property, layer[property], options);
+  }
+  function getBlurSize(v, effect, options) {
+    var _a, _b;
+    const key = effect.blur !== void 0 ? "blur" : "backgroundBlur";
+    return getCompositeAlias((_a = effect.aliases) == null ? void 0 : _a[key], options) || formatCompositeSize(v, "blur", (_b = effect[key]) != null ? _b : 0, options);
+  }
+  function getCssEffect(v, effect, options) {
+    if (effect.shadows.length === 0) return `blur(${getBlurSize(v, effect, options)})`;
+    return formatBoxShadow(effect.shadows.map((layer) => {
+      var _a;
+      return {
+        inset: layer.inset,
+        offsetX: getShadowSize(v, layer, "offsetX", options),
+        offsetY: getShadowSize(v, layer, "offsetY", options),
+        blur: getShadowSize(v, layer, "blur", options),
+        spread: getShadowSize(v, layer, "spread", options),
+        color: formatCompositeColor(v, layer.color, (_a = layer.aliases) == null ? void 0 : _a.color, options)
+      };
+    }));
+  }
+  function getDTCGComposite(v, modeId, options) {
+    const gradient = getGradient(v, modeId);
+    if (gradient) {
+      return gradient.stops.map((stop) => ({
+        color: formatCompositeColor(v, stop.color, stop.alias, options),
+        position: stop.position
+      }));
+    }
+    const effect = getEffect(v, modeId);
+    if (effect && effect.shadows.length === 0) return getBlurSize(v, effect, options);
+    if (effect) {
+      return effect.shadows.map((layer) => {
+        var _a;
+        const shadow = {
+          color: formatCompositeColor(v, layer.color, (_a = layer.aliases) == null ? void 0 : _a.color, options),
+          offsetX: getShadowSize(v, layer, "offsetX", options),
+          offsetY: getShadowSize(v, layer, "offsetY", options),
+          blur: getShadowSize(v, layer, "blur", options),
+          spread: getShadowSize(v, layer, "spread", options)
+        };
+        if (layer.inset) shadow.inset = true;
+        return shadow;
+      });
+    }
+    return getDTCGTypography(v, modeId, options);
+  }
+  function getDTCGTypography(v, modeId, options) {
+    const typography = getTypography(v, modeId);
+    if (!typography) return null;
+    const alias = (property) => {
+      var _a;
+      return getCompositeAlias((_a = typography.aliases) == null ? void 0 : _a[property], options);
+    };
+    let lineHeight = 1.2;
+    if (typeof typography.lineHeight === "number") lineHeight = parseFloat((typography.lineHeight / typography.fontSize).toFixed(4));
+    else if (typography.lineHeight.endsWith("%")) lineHeight = percentToRatio(typography.lineHeight);
+    const letterSpacingPx = typeof typography.letterSpacing === "number" ? typography.letterSpacing : parseFloat((percentToRatio(typography.letterSpacing) * typography.fontSize).toFixed(4));
+    return {
+      fontFamily: alias("fontFamily") || typography.fontFamily,
+      fontWeight: alias("fontWeight") || typography.fontWeight,
+      fontSize: alias("fontSize") || formatCompositeSize(v, "fontSize", typography.fontSize, options),
+      lineHeight: alias("lineHeight") || lineHeight,
+      letterSpacing: alias("letterSpacing") || formatCompositeSize(v, "letterSpacing", letterSpacingPx, options)
+    };
+  }
+  function normalizeModeName(name) {
+    return name.toLowerCase().replace(/\s+/g, "-");
+  }
+  function getCssModeSelector(mode, strategy) {
+    const modeKey = normalizeModeName(mode.name);
+    if (strategy === "media-query" && (modeKey === "dark" || modeKey === "light")) {
+      return { open: [`@media (prefers-color-scheme: ${modeKey}) {`, "  :root {"], close: ["  }", "}"] };
+    }
+    if (strategy === "class") {
+      return { open: [`.theme-${modeKey} {`], close: ["}"] };
+    }
+    return { open: [`[data-theme="${modeKey}"] {`], close: ["}"] };
   }
   function generateCSS(variables, options) {
-    const sections = [];
-    options.modes.forEach((mode) => {
-      const lines = [`/* Mode: ${mode.name} */`, ":root {"];
+    const defaultMode = options.modes.find((m) => m.modeId === options.defaultModeId) || options.modes[0];
+    if (!defaultMode) return "";
+    const strategy = options.cssThemeStrategy || "data-attribute";
+    const defaultValues = /* @__PURE__ */ new Map();
+    const rootLines = [`/* Mode: ${defaultMode.name} (default) */`, ":root {"];
+    variables.forEach((v) => {
+      getCssCustomProperties(v, defaultMode.modeId, options).forEach(([name, val]) => {
+        defaultValues.set(name, val);
+        rootLines.push(`  --${name}: ${val};`);
+      });
+    });
+    rootLines.push("}");
+    const sections = [rootLines.join("\n")];
+    options.modes.filter((mode) => mode !== defaultMode).forEach((mode) => {
+      const { open, close } = getCssModeSelector(mode, strategy);
+      const indent = "  ".repeat(open.length);
+      const lines = [];
       variables.forEach((v) => {
-        const val = processValue(v, mode.modeId, options);
-        const name = normalizeDashName(v.name);
-        lines.push(`  --${name}: ${val};`);
+        getCssCustomProperties(v, mode.modeId, options).forEach(([name, val]) => {
+          if (val !== defaultValues.get(name)) {
+            lines.push(`${indent}--${name}: ${val};`);
+          }
+        });
       });
-      lines.push("}");
-      sections.push(lines.join("\n"));
+      if (lines.length === 0) return;
+      sections.push([`/* Mode: ${mode.name} */`, ...open, ...lines, ...close].join("\n"));
     });
+    const typographyClasses = variables.map((v) => {
+      const declarations = getCssTypography(v, defaultMode.modeId, options);
+      if (!declarations) return null;
+      return [
+        `.${getWebName(v.name, options)} {`,
+        ...declarations.map(([property, value]) => `  ${property}: ${value};`),
+        "}"
+      ].join("\n");
+    }).filter((block) => block !== null);
+    if (typographyClasses.length > 0) {
+      sections.push(["/* Typography */", ...typographyClasses].join("\n"));
+    }
     return sections.join("\n\n");
   }
+  function getCssCustomProperties(v, modeId, options) {
+    const name = getWebName(v.name, options);
+    const grid = getGridProperties(v, modeId, options);
+    if (grid) return grid.map(([key, value]) => [`${name}-${key}`, value]);
+    return [[name, String(processValue(v, modeId, options))]];
+  }
   function generateSCSS(variables, options) {
     const sections = [];
     options.modes.forEach((mode) => {
       const lines = [`// Mode: ${mode.name}`];
+      const breakpoints = [];
       variables.forEach((v) => {
-        const val = processValue(v, mode.modeId, options);
-        const name = normalizeDashName(v.name);
-        lines.push(`$${name}: ${val};`);
+        const name = getWebName(v.name, options);
+        const typography = getCssTypography(v, mode.modeId, options);
+        if (getGrid(v, mode.modeId)) {
+          breakpoints.push(v);
+          return;
+        }
+        if (typography) {
+          lines.push(`$${name}: (`, ...typography.map(
+            ([property, value], i) => `  ${property}: ${value}${i < typography.length - 1 ? "," : ""}`
+          ), ");");
+          return;
+        }
+        lines.push(`$${name}: ${processValue(v, mode.modeId, options)};`);
       });
+      if (breakpoints.length > 0) {
+        lines.push(...getSCSSBreakpointMap(breakpoints, mode.modeId, options));
+      }
       sections.push(lines.join("\n"));
     });
     return sections.join("\n\n");
   }
+  function getSCSSBreakpointMap(variables, modeId, options) {
+    const paths = variables.map((v) => getTokenPath(v.name, options.naming).map(cleanPathSegment));
+    while (paths.every((path) => path.length > 1 && path[0] === paths[0][0])) {
+      paths.forEach((path) => path.shift());
+    }
+    const lines = [`$${getWebName("grid/breakpoints", options)}: (`];
+    variables.forEach((v, index) => {
+      const properties = getGridProperties(v, modeId, options) || [];
+      lines.push(`  ${paths[index].join("-")}: (`);
+      properties.forEach(([key, value], i) => lines.push(`    ${key}: ${value}${i < properties.length - 1 ? "," : ""}`));
+      lines.push(`  )${index < variables.length - 1 ? "," : ""}`);
+    });
+    lines.push(");");
+    return lines;
+  }
   function generateJSON(variables, options) {
     const root = {};
     options.modes.forEach((mode) => {
-      const modeKey = mode.name.toLowerCase().replace(/\s+/g, "-");
+      const modeKey = normalizeModeName(mode.name);
       const modeObj = {};
       variables.forEach((v) => {
-        const name = normalizeDotName(v.name);
-        modeObj[name] = processValue(v, mode.modeId, options);
+        const name = getJSONName(v.name, options);
+        modeObj[name] = getTypedValue(v, processValue(v, mode.modeId, options));
       });
       root[modeKey] = modeObj;
     });
     return JSON.stringify(root, null, 2);
   }
-  function generateDTCG(variables, options, collectionName) {
-    const root = {
-      $modes: {}
-    };
-    options.modes.forEach((mode) => {
-      const modeKey = mode.name.toLowerCase().replace(/\s+/g, "-");
-      const modeRoot = {};
+  var UNTYPED_DTCG_TYPES = ["boolean", "string"];
+  function getDTCGType(v, value) {
+    if (v.type === "color") return "color";
+    if (v.type === "fontFamily") return "fontFamily";
+    if (UNTYPED_DTCG_TYPES.includes(v.type)) return void 0;
+    if (typeof value === "object") return v.type;
+    if (typeof value === "string" && value.startsWith("{")) return void 0;
+    if (typeof value === "number") return "number";
+    if (typeof value === "boolean") return void 0;
+    if (/^-?[\d.]+[a-z%]+$/i.test(value)) return "dimension";
+    return void 0;
+  }
+  function getDTCGValue(v, modeId, options) {
+    const composite = getDTCGComposite(v, modeId, options);
+    if (composite !== null) return composite;
+    const val = getTypedValue(v, processValue(v, modeId, options));
+    if (typeof val === "number" || typeof val === "boolean") return val;
+    if (v.type !== "color" && v.type !== "string" && typeof val === "string" && val.trim() !== "" && !isNaN(Number(val))) return Number(val);
+    return String(val);
+  }
+  function isDTCGToken(node) {
+    return "$value" in node;
+  }
+  function getDTCGChildren(node) {
+    return Object.keys(node).filter((key) => !key.startsWith("$")).map((key) => node[key]);
+  }
+  function inheritDTCGTypes(group, isRoot) {
+    const children = getDTCGChildren(group);
+    const childTypes = children.map((child) => isDTCGToken(child) ? child.$type : inheritDTCGTypes(child, false));
+    const sharedType = childTypes[0];
+    if (!sharedType || childTypes.some((type) => type !== sharedType)) return void 0;
+    if (isRoot) return sharedType;
+    children.forEach((child) => {
+      delete child.$type;
+    });
+    const entries = Object.keys(group).map((key) => [key, group[key]]);
+    entries.forEach(([key]) => {
+      delete group[key];
+    });
+    group.$type = sharedType;
+    entries.forEach(([key, value]) => {
+      group[key] = value;
+    });
+    return sharedType;
+  }
+  function getGroupTokenPaths(paths) {
+    const tokenPaths = new Set(paths.map((path) => path.join(".")));
+    const groupPaths = /* @__PURE__ */ new Set();
+    paths.forEach((path) => {
+      for (let i = 1; i < path.length; i++) {
+        const parent2 = path.slice(0, i).join(".");
+        if (tokenPaths.has(parent2)) groupPaths.add(parent2);
+      }
+    });
+    return groupPaths;
+  }
+  function redirectGroupTokenRefs(value, groupPaths) {
+    if (typeof value === "string") {
+      const match = value.match(/^\{(.+)\}$/);
+      return match && groupPaths.has(match[1]) ? `{${match[1]}.DEFAULT}` : value;
+    }
+    if (Array.isArray(value)) return value.map((item) => redirectGroupTokenRefs(item, groupPaths));
+    if (typeof value === "object") {
+      const result = {};
+      Object.keys(value).forEach((key) => {
+        result[key] = redirectGroupTokenRefs(value[key], groupPaths);
+      });
+      return result;
+    }
+    return value;
+  }
+  function buildDTCGTree(variables, modeId, options, extraModes) {
+    const root = {};
+    const exported = variables.filter((v) => v.valuesByMode[modeId] && !getGrid(v, modeId));
+    const groupPaths = getGroupTokenPaths(exported.map((v) => getTokenPath(v.name, options.naming).map(cleanPathSegment)));
+    exported.forEach((v) => {
+      const path = getTokenPath(v.name, options.naming).map(cleanPathSegment);
+      if (groupPaths.has(path.join("."))) path.push("DEFAULT");
+      const value = redirectGroupTokenRefs(getDTCGValue(v, modeId, options), groupPaths);
+      let current = root;
+      path.slice(0, -1).forEach((part) => {
+        const next = current[part];
+        if (!next || typeof next !== "object" || isDTCGToken(next)) current[part] = {};
+        current = current[part];
+      });
+      const leaf = { $value: value };
+      const type = getDTCGType(v, value);
+      if (type) leaf.$type = type;
+      if (v.description) leaf.$description = v.description;
+      if (extraModes.length > 0) {
+        const modeValues = {};
+        extraModes.forEach((mode) => {
+          modeValues[normalizeModeName(mode.name)] = redirectGroupTokenRefs(getDTCGValue(v, mode.modeId, options), groupPaths);
+        });
+        leaf.$extensions = { mode: modeValues };
+      }
+      const gradient = getGradient(v, modeId);
+      if (gradient) {
+        leaf.$extensions = __spreadProps(__spreadValues({}, leaf.$extensions), { "com.figma.gradient": { type: gradient.type, angle: gradient.angle } });
+      }
+      if (UNTYPED_DTCG_TYPES.includes(v.type)) {
+        leaf.$extensions = __spreadProps(__spreadValues({}, leaf.$extensions), { "com.figma.type": v.type });
+      }
+      current[path[path.length - 1]] = leaf;
+    });
+    inheritDTCGTypes(root, true);
+    return root;
+  }
+  function generateDTCG(variables, options) {
+    const defaultMode = options.modes[0];
+    if (!defaultMode) return "{}";
+    const extraModes = options.modes.length > 1 ? options.modes : [];
+    return JSON.stringify(buildDTCGTree(variables, defaultMode.modeId, options, extraModes), null, 2);
+  }
+  function generateDTCGFiles(variables, options) {
+    return options.modes.map((mode) => ({
+      path: `${normalizeModeName(mode.name)}.tokens.json`,
+      content: JSON.stringify(buildDTCGTree(variables, mode.modeId, options, []), null, 2)
+    }));
+  }
+  var TAILWIND_SECTIONS = {
+    colors: ["color", "colors"],
+    spacing: ["spacing", "space"],
+    borderRadius: ["radius", "radii", "border-radius", "borderradius", "rounded"],
+    fontSize: ["font-size", "fontsize", "font-sizes", "text"],
+    lineHeight: ["line-height", "lineheight", "leading"],
+    fontFamily: ["font-family", "fontfamily", "font-families"],
+    opacity: ["opacity"],
+    boxShadow: ["shadow", "shadows", "box-shadow", "elevation"],
+    backgroundImage: ["gradient", "gradients"]
+  };
+  function getTailwindSection(v) {
+    if (v.type === "color") return "colors";
+    if (v.type === "shadow") return "boxShadow";
+    if (v.type === "gradient") return "backgroundImage";
+    if (isStyleToken(v)) return null;
+    if (v.type === "spacing") return "spacing";
+    if (v.type === "borderRadius") return "borderRadius";
+    if (v.type === "fontSize" || v.type === "lineHeight" || v.type === "fontFamily" || v.type === "opacity") return v.type;
+    if (v.type === "number" || v.type === "typography") {
+      const first = v.name.split("/")[0].trim().toLowerCase().replace(/\s+/g, "-");
+      const section = Object.keys(TAILWIND_SECTIONS).find((key) => TAILWIND_SECTIONS[key].includes(first));
+      if (section && !["colors", "boxShadow", "backgroundImage"].includes(section)) return section;
+      if (v.type === "number") return "spacing";
+    }
+    return null;
+  }
+  function generateTailwind(variables, options) {
+    const mode = options.modes[0];
+    const extend = {};
+    if (mode) {
       variables.forEach((v) => {
-        const val = processValue(v, mode.modeId, options);
-        const path = v.name.split("/");
-        let current = modeRoot;
-        path.forEach((part, index) => {
-          const cleanPart = part.toLowerCase().replace(/\s+/g, "-");
-          if (!current[cleanPart]) current[cleanPart] = {};
-          if (index === path.length - 1) {
-            const leaf = {
-              $type: v.type,
-              $description: v.description
-            };
-            if (val && typeof val === "object" && val.$ref) {
-              leaf.$value = { $ref: val.$ref };
-            } else {
-              leaf.$value = val;
-            }
-            current[cleanPart] = leaf;
+        const section = getTailwindSection(v);
+        if (!section) return;
+        const path = getTokenPath(v.name, options.naming).map(cleanPathSegment);
+        if (path.length > 1 && TAILWIND_SECTIONS[section].includes(path[0])) {
+          path.shift();
+        }
+        if (!extend[section]) extend[section] = {};
+        setTailwindValue(extend[section], path, String(processValue(v, mode.modeId, options)));
+      });
+    }
+    const config = { theme: { extend } };
+    return [
+      `/** @type {import('tailwindcss').Config} */`,
+      `module.exports = ${JSON.stringify(config, null, 2)};`
+    ].join("\n");
+  }
+  function setTailwindValue(root, path, value) {
+    let current = root;
+    path.forEach((part, index) => {
+      const existing = current[part];
+      if (index === path.length - 1) {
+        if (existing && typeof existing === "object") {
+          existing.DEFAULT = value;
+        } else {
+          current[part] = value;
+        }
+        return;
+      }
+      if (typeof existing === "string") {
+        current[part] = { DEFAULT: existing };
+      } else if (!existing) {
+        current[part] = {};
+      }
+      current = current[part];
+    });
+  }
+  function getAppearanceModes(modes) {
+    const light = modes.find((m) => /light/i.test(m.name)) || modes.find((m) => !/dark/i.test(m.name)) || modes[0];
+    const dark = modes.find((m) => m !== light && /dark/i.test(m.name)) || modes.find((m) => m !== light);
+    return { light, dark };
+  }
+  function formatSwiftNumber(n) {
+    return String(parseFloat(n.toFixed(3)));
+  }
+  function formatSwiftColorComponents(value, alphaLabel) {
+    const rgba = parseColor(String(value));
+    if (!rgba) return null;
+    const F = formatSwiftNumber;
+    return `red: ${F(rgba.r)}, green: ${F(rgba.g)}, blue: ${F(rgba.b)}, ${alphaLabel}: ${F(rgba.a)}`;
+  }
+  function generateSwift(variables, options, collectionName) {
+    const { light, dark } = getAppearanceModes(options.modes);
+    const colors = [];
+    const numbers = [];
+    const others = [];
+    if (light) {
+      variables.forEach((v) => {
+        if (isStyleToken(v)) return;
+        const name = formatTokenName(v.name, options.naming, "camel");
+        const lightValue = getResolvedValue(v, light.modeId);
+        if (lightValue === void 0) return;
+        if (v.type === "color") {
+          const lightColor = formatSwiftColorComponents(lightValue, "alpha");
+          if (!lightColor) return;
+          const darkColor = dark ? formatSwiftColorComponents(getResolvedValue(v, dark.modeId), "alpha") : null;
+          if (darkColor && darkColor !== lightColor) {
+            colors.push(
+              `    static let ${name} = Color(UIColor { traitCollection in`,
+              `        traitCollection.userInterfaceStyle == .dark`,
+              `            ? UIColor(${darkColor})`,
+              `            : UIColor(${lightColor})`,
+              `    })`
+            );
           } else {
-            current = current[cleanPart];
+            colors.push(`    static let ${name} = Color(${formatSwiftColorComponents(lightValue, "opacity")})`);
           }
+        } else if (v.type === "boolean") {
+          others.push(`    public static let ${name} = ${lightValue === "true"}`);
+        } else if (v.type !== "string" && (typeof lightValue === "number" || lightValue !== "" && !isNaN(Number(lightValue)))) {
+          const n = v.type === "opacity" ? getOpacityRatio(lightValue) : Number(lightValue);
+          numbers.push(`    static let ${name}: CGFloat = ${formatSwiftNumber(n)}`);
+        } else {
+          others.push(`    public static let ${name} = ${JSON.stringify(String(lightValue))}`);
+        }
+      });
+    }
+    const sections = [
+      `// ${collectionName}`,
+      "// Generated by Design Tokens Manager",
+      "",
+      "import SwiftUI",
+      "import UIKit"
+    ];
+    if (colors.length > 0) {
+      sections.push("", "public extension Color {", ...colors, "}");
+    }
+    if (numbers.length > 0) {
+      sections.push("", "public extension CGFloat {", ...numbers, "}");
+    }
+    if (others.length > 0) {
+      sections.push("", `public enum ${normalizePascalName(collectionName) || "Tokens"} {`, ...others, "}");
+    }
+    return sections.join("\n");
+  }
+  function formatArgbHex(value) {
+    const rgba = parseColor(String(value));
+    if (!rgba) return null;
+    const toHex = (n) => Math.round(n * 255).toString(16).padStart(2, "0");
+    return `${toHex(rgba.a)}${toHex(rgba.r)}${toHex(rgba.g)}${toHex(rgba.b)}`.toUpperCase();
+  }
+  function isNumericValue(value) {
+    return typeof value === "number" || value !== void 0 && value !== "" && !isNaN(Number(value));
+  }
+  function getAndroidDimenUnit(v) {
+    if (v.type === "fontSize" || v.type === "lineHeight") return "sp";
+    return /font|text|line-?height|letter/i.test(v.name) ? "sp" : "dp";
+  }
+  function escapeXml(value) {
+    return value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, '\\"').replace(/'/g, "\\'");
+  }
+  function getAndroidResource(v, modeId, options) {
+    const modeVal = v.valuesByMode[modeId];
+    if (!modeVal) return null;
+    const resolved = getResolvedValue(v, modeId);
+    let kind;
+    if (v.type === "color") kind = "color";
+    else if (v.type === "boolean") kind = "bool";
+    else if (v.type === "opacity" && isNumericValue(resolved)) kind = "float";
+    else if (v.type !== "string" && isNumericValue(resolved)) kind = "dimen";
+    else kind = "string";
+    const raw = modeVal.value;
+    if (options.aliasMode === "alias" && typeof raw === "string" && raw.startsWith("{") && raw.endsWith("}")) {
+      return { kind, value: `@${kind === "float" ? "dimen" : kind}/${formatTokenName(raw.slice(1, -1), options.naming, "snake")}` };
+    }
+    if (resolved === void 0) return null;
+    if (kind === "color") {
+      const argb = formatArgbHex(resolved);
+      return argb ? { kind, value: `#${argb}` } : null;
+    }
+    if (kind === "dimen") {
+      return { kind, value: `${Number(resolved)}${getAndroidDimenUnit(v)}` };
+    }
+    if (kind === "float") {
+      return { kind, value: String(getOpacityRatio(resolved)) };
+    }
+    if (kind === "bool") {
+      return { kind, value: String(resolved === "true") };
+    }
+    return { kind, value: escapeXml(String(resolved)) };
+  }
+  function generateAndroidResources(variables, options) {
+    const { light, dark } = getAppearanceModes(options.modes);
+    if (!light) return [];
+    const resources = { color: [], dimen: [], float: [], bool: [], string: [] };
+    const nightColors = [];
+    variables.forEach((v) => {
+      if (isStyleToken(v)) return;
+      const name = formatTokenName(v.name, options.naming, "snake");
+      const res = getAndroidResource(v, light.modeId, options);
+      if (!res) return;
+      resources[res.kind].push(res.kind === "float" ? `    <item name="${name}" type="dimen" format="float">${res.value}</item>` : `    <${res.kind} name="${name}">${res.value}</${res.kind}>`);
+      if (dark && res.kind === "color") {
+        const night = getAndroidResource(v, dark.modeId, options);
+        if (night && night.value !== res.value) {
+          nightColors.push(`    <color name="${name}">${night.value}</color>`);
+        }
+      }
+    });
+    const toXml = (lines) => [
+      '<?xml version="1.0" encoding="utf-8"?>',
+      "<resources>",
+      ...lines,
+      "</resources>"
+    ].join("\n");
+    const files = [];
+    if (resources.color.length > 0) files.push({ path: "values/colors.xml", content: toXml(resources.color) });
+    if (resources.dimen.length + resources.float.length > 0) {
+      files.push({ path: "values/dimens.xml", content: toXml([...resources.dimen, ...resources.float]) });
+    }
+    if (resources.bool.length > 0) files.push({ path: "values/bools.xml", content: toXml(resources.bool) });
+    if (resources.string.length > 0) files.push({ path: "values/strings.xml", content: toXml(resources.string) });
+    if (nightColors.length > 0) files.push({ path: "values-night/colors.xml", content: toXml(nightColors) });
+    return files;
+  }
+  function getComposeProperty(v, modeId, naming) {
+    const value = getResolvedValue(v, modeId);
+    if (value === void 0 || isStyleToken(v)) return null;
+    const name = formatTokenName(v.name, naming, "camel");
+    if (v.type === "color") {
+      const argb = formatArgbHex(value);
+      return argb ? `val ${name} = Color(0x${argb})` : null;
+    }
+    if (v.type === "boolean") {
+      return `const val ${name} = ${value === "true"}`;
+    }
+    if (v.type === "opacity" && isNumericValue(value)) {
+      return `const val ${name} = ${getOpacityRatio(value)}f`;
+    }
+    if (v.type !== "string" && isNumericValue(value)) {
+      return `val ${name} = ${Number(value)}.${getAndroidDimenUnit(v)}`;
+    }
+    return `const val ${name} = ${JSON.stringify(String(value))}`;
+  }
+  function generateCompose(variables, options, collectionName) {
+    const lines = [
+      `// ${collectionName}`,
+      "// Generated by Design Tokens Manager",
+      "",
+      "import androidx.compose.ui.graphics.Color",
+      "import androidx.compose.ui.unit.dp",
+      "import androidx.compose.ui.unit.sp",
+      "",
+      "object Tokens {"
+    ];
+    const collectProperties = (modeId, indent) => variables.map((v) => getComposeProperty(v, modeId, options.naming)).filter((p) => p !== null).map((p) => `${indent}${p}`);
+    if (options.modes.length === 1) {
+      lines.push(...collectProperties(options.modes[0].modeId, "    "));
+    } else {
+      options.modes.forEach((mode, index) => {
+        if (index > 0) lines.push("");
+        lines.push(`    object ${normalizePascalName(mode.name) || `Mode${index + 1}`} {`);
+        lines.push(...collectProperties(mode.modeId, "        "));
+        lines.push("    }");
+      });
+    }
+    lines.push("}");
+    return lines.join("\n");
+  }
+  function getDartLiteral(field, modeId) {
+    const value = getResolvedValue(field.variable, modeId);
+    if (field.dartType === "Color") {
+      const argb = formatArgbHex(value);
+      return `Color(0x${argb || "00000000"})`;
+    }
+    if (field.dartType === "double") {
+      const n = field.variable.type === "opacity" && value !== void 0 ? getOpacityRatio(value) : Number(value);
+      return isNaN(n) ? "0.0" : Number.isInteger(n) ? `${n}.0` : String(n);
+    }
+    if (field.dartType === "bool") {
+      return String(value === "true");
+    }
+    return `'${String(value != null ? value : "").replace(/\\/g, "\\\\").replace(/'/g, "\\'").replace(/\$/g, "\\$")}'`;
+  }
+  var DART_RESERVED_WORDS = /* @__PURE__ */ new Set([
+    "assert",
+    "await",
+    "break",
+    "case",
+    "catch",
+    "class",
+    "const",
+    "continue",
+    "default",
+    "do",
+    "else",
+    "enum",
+    "extends",
+    "false",
+    "final",
+    "finally",
+    "for",
+    "if",
+    "in",
+    "is",
+    "new",
+    "null",
+    "rethrow",
+    "return",
+    "super",
+    "switch",
+    "this",
+    "throw",
+    "true",
+    "try",
+    "var",
+    "void",
+    "while",
+    "with",
+    "yield",
+    "copyWith",
+    "lerp",
+    "type",
+    "hashCode",
+    "runtimeType",
+    "toString",
+    "noSuchMethod"
+  ]);
+  function getDartModeName(name, index) {
+    const camel = normalizeCamelName(name).replace(/^_+/, "");
+    if (!camel) return `mode${index + 1}`;
+    if (/^\d/.test(camel)) return `mode${camel}`;
+    return DART_RESERVED_WORDS.has(camel) ? `${camel}Mode` : camel;
+  }
+  function getDartFieldName(name, index, taken) {
+    const camel = name.replace(/^_+/, "");
+    let field = camel;
+    if (!camel) field = `token${index + 1}`;
+    else if (/^\d/.test(camel)) field = `token${camel}`;
+    else if (DART_RESERVED_WORDS.has(camel) || taken.has(camel)) field = `${camel}Token`;
+    let unique = field;
+    for (let n = 2; taken.has(unique); n++) unique = `${field}${n}`;
+    taken.add(unique);
+    return unique;
+  }
+  function generateDart(variables, options, collectionName) {
+    const baseName = normalizePascalName(collectionName) || "Design";
+    const className = baseName.endsWith("Tokens") ? baseName : `${baseName}Tokens`;
+    const firstMode = options.modes[0];
+    const modeNames = options.modes.map((mode, index) => getDartModeName(mode.name, index));
+    const takenNames = new Set(modeNames);
+    const fields = variables.filter((v) => firstMode && !isStyleToken(v) && getResolvedValue(v, firstMode.modeId) !== void 0).map((v, index) => {
+      let dartType = "String";
+      if (v.type === "color") dartType = "Color";
+      else if (v.type === "boolean") dartType = "bool";
+      else if (v.type !== "string" && isNumericValue(getResolvedValue(v, firstMode.modeId))) dartType = "double";
+      const name = getDartFieldName(formatTokenName(v.name, options.naming, "camel"), index, takenNames);
+      return { name, dartType, variable: v };
+    });
+    const lerpField = (f) => {
+      if (f.dartType === "Color") return `Color.lerp(${f.name}, other.${f.name}, t)!`;
+      if (f.dartType === "double") return `lerpDouble(${f.name}, other.${f.name}, t)!`;
+      return `t < 0.5 ? ${f.name} : other.${f.name}`;
+    };
+    const lines = [
+      `// ${collectionName}`,
+      "// Generated by Design Tokens Manager",
+      "",
+      "import 'dart:ui' show lerpDouble;",
+      "",
+      "import 'package:flutter/material.dart';",
+      "",
+      "@immutable",
+      `class ${className} extends ThemeExtension<${className}> {`,
+      `  const ${className}({`,
+      ...fields.map((f) => `    required this.${f.name},`),
+      "  });",
+      "",
+      ...fields.map((f) => `  final ${f.dartType} ${f.name};`)
+    ];
+    options.modes.forEach((mode, index) => {
+      lines.push("");
+      lines.push(`  static const ${modeNames[index]} = ${className}(`);
+      fields.forEach((f) => lines.push(`    ${f.name}: ${getDartLiteral(f, mode.modeId)},`));
+      lines.push("  );");
+    });
+    lines.push(
+      "",
+      "  @override",
+      `  ${className} copyWith({`,
+      ...fields.map((f) => `    ${f.dartType}? ${f.name},`),
+      "  }) {",
+      `    return ${className}(`,
+      ...fields.map((f) => `      ${f.name}: ${f.name} ?? this.${f.name},`),
+      "    );",
+      "  }",
+      "",
+      "  @override",
+      `  ${className} lerp(${className}? other, double t) {`,
+      `    if (other is! ${className}) return this;`,
+      `    return ${className}(`,
+      ...fields.map((f) => `      ${f.name}: ${lerpField(f)},`),
+      "    );",
+      "  }",
+      "}"
+    );
+    return lines.join("\n");
+  }
+  function generateTypeScript(variables, options, collectionName) {
+    const defaultMode = options.modes[0];
+    const lines = [
+      `// ${collectionName}`,
+      "// Generated by Design Tokens Manager"
+    ];
+    if (!defaultMode) return lines.join("\n");
+    const tokenPath = (v) => formatTokenName(v.name, options.naming, "dot");
+    const toObjectLines = (modeId, indent) => variables.map(
+      (v) => `${indent}${JSON.stringify(tokenPath(v))}: ${JSON.stringify(getTypedValue(v, processValue(v, modeId, options)))},`
+    );
+    lines.push("", "export const tokens = {", ...toObjectLines(defaultMode.modeId, "  "), "} as const;");
+    lines.push("", "export const tokensByMode = {");
+    options.modes.forEach((mode) => {
+      lines.push(`  ${JSON.stringify(normalizeModeName(mode.name))}: {`, ...toObjectLines(mode.modeId, "    "), "  },");
+    });
+    lines.push("} as const;");
+    lines.push("", "export type TokenName = keyof typeof tokens;");
+    lines.push("export type TokenMode = keyof typeof tokensByMode;");
+    const namesByType = /* @__PURE__ */ new Map();
+    variables.forEach((v) => {
+      const names = namesByType.get(v.type) || [];
+      names.push(JSON.stringify(tokenPath(v)));
+      namesByType.set(v.type, names);
+    });
+    namesByType.forEach((names, type) => {
+      lines.push(`export type ${normalizePascalName(type)}Token = ${names.join(" | ")};`);
+    });
+    if (options.tsCssVarHelper) {
+      lines.push("", "const cssVarNames: Record<TokenName, string> = {");
+      variables.forEach((v) => lines.push(`  ${JSON.stringify(tokenPath(v))}: ${JSON.stringify(getWebName(v.name, options))},`));
+      lines.push("};");
+      lines.push(
+        "",
+        "/**",
+        " * CSS custom property reference for a token, matching the CSS export",
+        " */",
+        "export function cssVar(name: TokenName): string {",
+        "  return `var(--${cssVarNames[name]})`;",
+        "}"
+      );
+    }
+    return lines.join("\n");
+  }
+  function getTokensStudioType(v, value) {
+    if (v.type === "color" || v.type === "spacing" || v.type === "borderRadius") return v.type;
+    if (v.type === "shadow") return "boxShadow";
+    if (v.type === "gradient") return "color";
+    if (typeof value === "object") return v.type;
+    if (UNTYPED_DTCG_TYPES.includes(v.type)) return void 0;
+    if (v.type === "typography") return "text";
+    if (v.type === "fontSize") return "fontSizes";
+    if (v.type === "lineHeight") return "lineHeights";
+    if (v.type === "fontFamily") return "fontFamilies";
+    if (v.type === "opacity") return "opacity";
+    if (typeof value === "string" && /^-?[\d.]+[a-z%]+$/i.test(value)) return "dimension";
+    return "number";
+  }
+  function getTokensStudioComposite(v, modeId, options) {
+    if (v.type === "gradient") return processValue(v, modeId, options);
+    const value = getDTCGComposite(v, modeId, options);
+    if (v.type !== "shadow" || !Array.isArray(value)) return value;
+    return value.map((_a) => {
+      var _b = _a, { offsetX, offsetY, inset } = _b, shadow = __objRest(_b, ["offsetX", "offsetY", "inset"]);
+      return __spreadProps(__spreadValues({}, shadow), {
+        x: offsetX,
+        y: offsetY,
+        type: inset ? "innerShadow" : "dropShadow"
+      });
+    });
+  }
+  function buildTokensStudioSet(variables, modeId, options) {
+    const root = {};
+    const exported = variables.filter((v) => v.valuesByMode[modeId] && !getGrid(v, modeId));
+    const groupPaths = getGroupTokenPaths(exported.map((v) => getTokenPath(v.name, options.naming).map(cleanPathSegment)));
+    exported.forEach((v) => {
+      var _a;
+      const path = getTokenPath(v.name, options.naming).map(cleanPathSegment);
+      if (groupPaths.has(path.join("."))) path.push("DEFAULT");
+      const value = redirectGroupTokenRefs(
+        (_a = getTokensStudioComposite(v, modeId, options)) != null ? _a : getTypedValue(v, processValue(v, modeId, options)),
+        groupPaths
+      );
+      let current = root;
+      path.slice(0, -1).forEach((part) => {
+        const next = current[part];
+        if (!next || typeof next !== "object" || "value" in next) current[part] = {};
+        current = current[part];
+      });
+      const type = getTokensStudioType(v, value);
+      const token = type ? { value, type } : { value, $extensions: { "com.figma.type": v.type } };
+      if (v.description) token.description = v.description;
+      current[path[path.length - 1]] = token;
+    });
+    return root;
+  }
+  function generateTokensStudioFiles(variables, options, collectionName, inCollectionFolder = false) {
+    const collectionSegment = cleanPathSegment(collectionName) || "tokens";
+    const setNames = options.modes.map((mode) => inCollectionFolder ? cleanPathSegment(mode.name) : `${collectionSegment}/${cleanPathSegment(mode.name)}`);
+    const files = options.modes.map((mode, index) => ({
+      path: `${setNames[index]}.json`,
+      content: JSON.stringify(buildTokensStudioSet(variables, mode.modeId, options), null, 2)
+    }));
+    const themes = options.modes.map((mode, index) => ({
+      id: `${collectionSegment}-${normalizeModeName(mode.name)}`,
+      name: mode.name,
+      group: collectionName,
+      selectedTokenSets: { [setNames[index]]: "enabled" }
+    }));
+    files.push({ path: "$themes.json", content: JSON.stringify(themes, null, 2) });
+    files.push({ path: "$metadata.json", content: JSON.stringify({ tokenSetOrder: setNames }, null, 2) });
+    return files;
+  }
+  function buildTemplateContext(variables, options, collectionName) {
+    const tokens = variables.map((v) => {
+      const modes = options.modes.map((mode) => {
+        var _a, _b;
+        const raw = (_a = v.valuesByMode[mode.modeId]) == null ? void 0 : _a.value;
+        const isAliasValue = typeof raw === "string" && raw.startsWith("{") && raw.endsWith("}");
+        return {
+          name: mode.name,
+          key: normalizeModeName(mode.name),
+          value: processValue(v, mode.modeId, options),
+          resolvedValue: (_b = getResolvedValue(v, mode.modeId)) != null ? _b : "",
+          alias: isAliasValue ? formatTokenName(String(raw).slice(1, -1), options.naming, "dot") : ""
+        };
+      });
+      const defaultMode = modes[0];
+      return {
+        name: v.name,
+        path: formatTokenName(v.name, options.naming, "dot"),
+        cssName: getWebName(v.name, options),
+        group: getTokenPath(v.name, options.naming)[0] || "",
+        type: v.type,
+        description: v.description || "",
+        isAlias: v.isAlias,
+        value: defaultMode ? defaultMode.value : "",
+        resolvedValue: defaultMode ? defaultMode.resolvedValue : "",
+        alias: defaultMode ? defaultMode.alias : "",
+        modes
+      };
+    });
+    const groups = [];
+    tokens.forEach((token) => {
+      let group = groups.find((g) => g.name === token.group);
+      if (!group) {
+        group = { name: token.group, tokens: [] };
+        groups.push(group);
+      }
+      group.tokens.push(token);
+    });
+    return {
+      collection: collectionName,
+      modes: options.modes.map((mode, index) => ({ name: mode.name, key: normalizeModeName(mode.name), isDefault: index === 0 })),
+      groups,
+      tokens
+    };
+  }
+  function generateFromTemplate(variables, options, collectionName) {
+    if (!options.template) return "// No template selected";
+    try {
+      return renderTemplate(options.template.source, buildTemplateContext(variables, options, collectionName));
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return `// Template error: ${errorMessage}`;
+    }
+  }
+
+  // token-bundle.ts
+  function createExportBundle(collections, targets, options) {
+    const files = [];
+    const manifest = {
+      name: "Design Tokens Manager export",
+      generatedAt: (/* @__PURE__ */ new Date()).toISOString(),
+      collections: collections.map((c) => c.name),
+      files: []
+    };
+    targets.forEach((format) => {
+      collections.forEach((collection) => {
+        const targetOptions = __spreadProps(__spreadValues({}, options), {
+          format,
+          modes: collection.modes,
+          dtcgModeLayout: format === "dtcg" ? "files" : options.dtcgModeLayout
+        });
+        const folder = isMultiFileExport(targetOptions) ? `${format}/${cleanPathSegment(collection.name) || "tokens"}/` : `${format}/`;
+        generateExportFiles(collection.variables, targetOptions, collection.name).forEach((file) => {
+          const path = `${folder}${file.path}`;
+          files.push({ path, content: file.content });
+          manifest.files.push({
+            path,
+            format,
+            collection: collection.name,
+            modes: collection.modes.map((m) => m.name)
+          });
         });
       });
-      root.$modes[modeKey] = modeRoot;
     });
-    return JSON.stringify(root, null, 2);
+    files.push({ path: "manifest.json", content: JSON.stringify(manifest, null, 2) });
+    return files;
+  }
+  var crcTable = null;
+  function crc32(data) {
+    if (!crcTable) {
+      crcTable = [];
+      for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) {
+          c = c & 1 ? 3988292384 ^ c >>> 1 : c >>> 1;
+        }
+        crcTable.push(c >>> 0);
+      }
+    }
+    let crc = 4294967295;
+    for (let i = 0; i < data.length; i++) {
+      crc = crcTable[(crc ^ data[i]) & 255] ^ crc >>> 8;
+    }
+    return (crc ^ 4294967295) >>> 0;
+  }
+  function toDosDateTime(date) {
+    return {
+      time: date.getHours() << 11 | date.getMinutes() << 5 | Math.floor(date.getSeconds() / 2),
+      date: date.getFullYear() - 1980 << 9 | date.getMonth() + 1 << 5 | date.getDate()
+    };
+  }
+  function createZip(files) {
+    const encoder = new TextEncoder();
+    const { time, date } = toDosDateTime(/* @__PURE__ */ new Date());
+    const localParts = [];
+    const centralParts = [];
+    let offset = 0;
+    files.forEach((file) => {
+      const name = encoder.encode(file.path);
+      const data = encoder.encode(file.content);
+      const crc = crc32(data);
+      const local = new DataView(new ArrayBuffer(30));
+      local.setUint32(0, 67324752, true);
+      local.setUint16(4, 20, true);
+      local.setUint16(6, 2048, true);
+      local.setUint16(8, 0, true);
+      local.setUint16(10, time, true);
+      local.setUint16(12, date, true);
+      local.setUint32(14, crc, true);
+      local.setUint32(18, data.length, true);
+      local.setUint32(22, data.length, true);
+      local.setUint16(26, name.length, true);
+      local.setUint16(28, 0, true);
+      const central = new DataView(new ArrayBuffer(46));
+      central.setUint32(0, 33639248, true);
+      central.setUint16(4, 20, true);
+      central.setUint16(6, 20, true);
+      central.setUint16(8, 2048, true);
+      central.setUint16(10, 0, true);
+      central.setUint16(12, time, true);
+      central.setUint16(14, date, true);
+      central.setUint32(16, crc, true);
+      central.setUint32(20, data.length, true);
+      central.setUint32(24, data.length, true);
+      central.setUint16(28, name.length, true);
+      central.setUint32(42, offset, true);
+      localParts.push(new Uint8Array(local.buffer), name, data);
+      centralParts.push(new Uint8Array(central.buffer), name);
+      offset += 30 + name.length + data.length;
+    });
+    const centralSize = centralParts.reduce((sum, part) => sum + part.length, 0);
+    const end = new DataView(new ArrayBuffer(22));
+    end.setUint32(0, 101010256, true);
+    end.setUint16(8, files.length, true);
+    end.setUint16(10, files.length, true);
+    end.setUint32(12, centralSize, true);
+    end.setUint32(16, offset, true);
+    const parts = [...localParts, ...centralParts, new Uint8Array(end.buffer)];
+    const zip = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+    let position = 0;
+    parts.forEach((part) => {
+      zip.set(part, position);
+      position += part.length;
+    });
+    return zip;
   }
 
+  // token-categories.ts
+  var BUILT_IN_CATEGORIES = ["primitives", "semantic", "components", "uncategorized"];
+
   // ui.tsx
   console.log("UI Script: Starting execution...");
+  var EXPORT_FORMATS = [
+    { value: "css", label: "CSS Variables" },
+    { value: "scss", label: "SCSS Variables" },
+    { value: "json", label: "JSON" },
+    { value: "dtcg", label: "Design Tokens (W3C)" },
+    { value: "tailwind", label: "Tailwind Config" },
+    { value: "swift", label: "Swift (SwiftUI)" },
+    { value: "android", label: "Android XML Resources" },
+    { value: "compose", label: "Jetpack Compose (Kotlin)" },
+    { value: "dart", label: "Flutter ThemeExtension (Dart)" },
+    { value: "ts", label: "TypeScript Module" },
+    { value: "tokens-studio", label: "Tokens Studio (figma-tokens)" }
+  ];
+  var SYNC_ACTION_LABELS = {
+    "create-collection": "Create collection",
+    "add-mode": "Add mode",
+    create: "Create",
+    rename: "Rename",
+    revalue: "Change value",
+    realias: "Change alias",
+    redescribe: "Change description"
+  };
   var AppContainer = () => {
     return /* @__PURE__ */ React.createElement(App, null);
   };
   var App = () => {
-    var _a;
     const [loading, setLoading] = React.useState(false);
     const [error, setError] = React.useState(null);
     const [collections, setCollections] = React.useState([]);
@@ -7582,9 +9054,28 @@
       console.log("Output format changed to:", outputFormat);
     }, [outputFormat]);
     const [unitPerVariable, setUnitPerVariable] = React.useState(/* @__PURE__ */ new Map());
+    const [defaultModeId, setDefaultModeId] = React.useState("");
+    const [cssThemeStrategy, setCssThemeStrategy] = React.useState("data-attribute");
+    const [namingCase, setNamingCase] = React.useState("");
+    const [namingPrefix, setNamingPrefix] = React.useState("");
+    const [stripSegments, setStripSegments] = React.useState("");
+    const [tsCssVarHelper, setTsCssVarHelper] = React.useState(true);
+    const [dtcgModeLayout, setDtcgModeLayout] = React.useState("extensions");
+    const [exportScope, setExportScope] = React.useState("collection");
+    const [allCollectionsData, setAllCollectionsData] = React.useState(null);
+    const [transformPreset, setTransformPreset] = React.useState("default");
+    const [bundleTargets, setBundleTargets] = React.useState(["css", "scss", "ts", "dtcg"]);
+    const [templates, setTemplates] = React.useState([]);
+    const [activeTemplateId, setActiveTemplateId] = React.useState("");
+    const [categoryRules, setCategoryRules] = React.useState([]);
+    const [categoryPreview, setCategoryPreview] = React.useState(null);
+    const [syncTokens, setSyncTokens] = React.useState(null);
+    const [syncPlan, setSyncPlan] = React.useState(null);
+    const [syncMessage, setSyncMessage] = React.useState(null);
+    const [syncBaseFontSize, setSyncBaseFontSize] = React.useState("16");
     React.useEffect(() => {
       window.onmessage = (event) => {
-        const { type, payload } = event.data.pluginMessage;
+        const { type, payload, tokens } = event.data.pluginMessage;
         switch (type) {
           case "variables-loaded":
             console.log("Variables loaded:", payload.collections.length, "collections");
@@ -7597,6 +9088,44 @@
             setVariables(payload.variables);
             setLoading(false);
             break;
+          case "all-collections-data-loaded":
+            console.log("All collections data loaded:", payload.length, "collections");
+            setAllCollectionsData(payload);
+            setLoading(false);
+            break;
+          case "variable-type-set": {
+            const updateType = (v) => v.id === payload.variableId ? __spreadProps(__spreadValues({}, v), { type: payload.type, typeOverridden: payload.typeOverridden }) : v;
+            setVariables((current) => current.map(updateType));
+            setAllCollectionsData((current) => current && current.map((c) => __spreadProps(__spreadValues({}, c), { variables: c.variables.map(updateType) })));
+            break;
+          }
+          case "templates-loaded":
+            setTemplates(payload);
+            break;
+          case "category-rules-loaded":
+            setCategoryRules(payload);
+            break;
+          case "categories-previewed":
+            setCategoryPreview(payload);
+            setLoading(false);
+            break;
+          case "tokens-loaded":
+          case "tokens-scanned":
+          case "tokens-imported":
+            setSyncTokens(payload.tokens);
+            setSyncPlan(null);
+            setLoading(false);
+            break;
+          case "sync-planned":
+            setSyncPlan(payload);
+            setLoading(false);
+            break;
+          case "syncing-completed":
+            setSyncTokens(tokens);
+            setSyncPlan(null);
+            setSyncMessage(payload.message);
+            setLoading(false);
+            break;
           case "error":
             console.error("Plugin Error:", payload);
             setError(payload);
@@ -7604,6 +9133,8 @@
             break;
         }
       };
+      parent.postMessage({ pluginMessage: { type: "load-templates" } }, "*");
+      parent.postMessage({ pluginMessage: { type: "load-category-rules" } }, "*");
     }, []);
     const sendMessage = (msg) => {
       parent.postMessage({ pluginMessage: msg }, "*");
@@ -7623,6 +9154,17 @@
       setUnitFormat("px");
       setOutputFormat("css");
       setUnitPerVariable(/* @__PURE__ */ new Map());
+      setDefaultModeId("");
+      setCssThemeStrategy("data-attribute");
+      setNamingCase("");
+      setNamingPrefix("");
+      setStripSegments("");
+      setTsCssVarHelper(true);
+      setDtcgModeLayout("extensions");
+      setExportScope("collection");
+      setAllCollectionsData(null);
+      setBundleTargets(["css", "scss", "ts", "dtcg"]);
+      setTransformPreset("default");
       setActiveTab("variables");
       setLoading(true);
       setError(null);
@@ -7635,12 +9177,16 @@
       setVariables([]);
       setModes([]);
       setSelectedModeId("all");
+      setDefaultModeId("");
       setLoading(true);
       sendMessage({
         type: "get-collection-data",
         collectionId: newId
       });
     };
+    const handleSetVariableType = (variableId, tokenType) => {
+      sendMessage({ type: "set-variable-type", variableId, tokenType: tokenType || null });
+    };
     const handleSelectMode = (e) => {
       const newModeId = e.target.value;
       console.log("Selecting Mode ID:", newModeId);
@@ -7684,6 +9230,148 @@
       }
       return { text: finalText, isColor, colorValue: colorHex };
     };
+    const buildExportOptions = () => ({
+      format: outputFormat,
+      modes: selectedModeId === "all" ? modes.map((m) => ({ modeId: m.modeId, name: m.name })) : modes.filter((m) => m.modeId === selectedModeId).map((m) => ({ modeId: m.modeId, name: m.name })),
+      aliasMode: aliasDisplayMode,
+      colorFormat,
+      unitFormat,
+      baseFontSize: 16,
+      unitPerVariable,
+      defaultModeId: defaultModeId || void 0,
+      cssThemeStrategy,
+      naming: {
+        case: namingCase || void 0,
+        prefix: namingPrefix,
+        stripSegments: stripSegments.split(",").map((s) => s.trim()).filter((s) => s.length > 0)
+      },
+      tsCssVarHelper,
+      dtcgModeLayout,
+      transforms: TRANSFORM_PRESETS[transformPreset],
+      template: templates.find((t) => t.id === activeTemplateId)
+    });
+    const activeTemplate = templates.find((t) => t.id === activeTemplateId);
+    const handleSelectFormat = (e) => {
+      const value = e.target.value;
+      if (value === "template:new") {
+        const template = {
+          id: String(Date.now()),
+          name: `Template ${templates.length + 1}`,
+          extension: "yaml",
+          source: DEFAULT_TEMPLATE_SOURCE
+        };
+        setTemplates([...templates, template]);
+        setActiveTemplateId(template.id);
+        setOutputFormat("template");
+      } else if (value.startsWith("template:")) {
+        setActiveTemplateId(value.slice("template:".length));
+        setOutputFormat("template");
+      } else {
+        setOutputFormat(value);
+      }
+    };
+    const updateActiveTemplate = (changes) => {
+      setTemplates(templates.map((t) => t.id === activeTemplateId ? __spreadValues(__spreadValues({}, t), changes) : t));
+    };
+    const handleSaveTemplates = () => {
+      sendMessage({ type: "save-templates", templates });
+    };
+    const handleDeleteTemplate = () => {
+      const remaining = templates.filter((t) => t.id !== activeTemplateId);
+      setTemplates(remaining);
+      setActiveTemplateId("");
+      setOutputFormat("css");
+      sendMessage({ type: "save-templates", templates: remaining });
+    };
+    const addCategoryRule = () => {
+      setCategoryRules([...categoryRules, { id: String(Date.now()), name: "", category: "primitives" }]);
+      setCategoryPreview(null);
+    };
+    const updateCategoryRule = (id, changes) => {
+      setCategoryRules(categoryRules.map((r) => r.id === id ? __spreadValues(__spreadValues({}, r), changes) : r));
+      setCategoryPreview(null);
+    };
+    const moveCategoryRule = (index, offset) => {
+      const target = index + offset;
+      if (target < 0 || target >= categoryRules.length) return;
+      const rules = [...categoryRules];
+      [rules[index], rules[target]] = [rules[target], rules[index]];
+      setCategoryRules(rules);
+      setCategoryPreview(null);
+    };
+    const removeCategoryRule = (id) => {
+      setCategoryRules(categoryRules.filter((r) => r.id !== id));
+      setCategoryPreview(null);
+    };
+    const handlePreviewCategories = () => {
+      setLoading(true);
+      sendMessage({ type: "preview-categories", rules: categoryRules });
+    };
+    const handleSaveCategoryRules = () => {
+      sendMessage({ type: "save-category-rules", rules: categoryRules });
+    };
+    const handleLoadSyncTokens = () => {
+      setLoading(true);
+      setSyncMessage(null);
+      sendMessage({ type: "load-tokens" });
+    };
+    const handleScanSyncTokens = () => {
+      setLoading(true);
+      setSyncMessage(null);
+      sendMessage({ type: "scan-document" });
+    };
+    const handlePlanSync = () => {
+      setLoading(true);
+      setSyncMessage(null);
+      sendMessage({ type: "sync-to-figma", tokens: syncTokens, options: { baseFontSize: Number(syncBaseFontSize) || 16, dryRun: true } });
+    };
+    const handleApplySync = () => {
+      setLoading(true);
+      sendMessage({ type: "sync-to-figma", tokens: syncTokens, options: { baseFontSize: Number(syncBaseFontSize) || 16 } });
+    };
+    const handleSelectExportScope = (e) => {
+      const scope = e.target.value;
+      setExportScope(scope);
+      if (scope !== "collection" && !allCollectionsData) {
+        setLoading(true);
+        sendMessage({ type: "get-all-collections-data" });
+      }
+    };
+    const generateOutput = () => {
+      var _a;
+      if (exportScope !== "collection") {
+        if (!allCollectionsData) return "Loading collections...";
+        return generateCollectionsExport(allCollectionsData, buildExportOptions(), exportScope);
+      }
+      return generateExport(variables, buildExportOptions(), ((_a = collections.find((c) => c.id === selectedCollectionId)) == null ? void 0 : _a.name) || "Tokens");
+    };
+    const getBundleCollections = () => {
+      var _a;
+      if (exportScope === "combined") return allCollectionsData ? [mergeCollections(allCollectionsData)] : null;
+      if (exportScope === "per-collection") return allCollectionsData;
+      return [{
+        collectionId: selectedCollectionId,
+        name: ((_a = collections.find((c) => c.id === selectedCollectionId)) == null ? void 0 : _a.name) || "Tokens",
+        modes: buildExportOptions().modes,
+        variables
+      }];
+    };
+    const toggleBundleTarget = (target, enabled) => {
+      setBundleTargets(enabled ? EXPORT_FORMATS.map((f) => f.value).filter((f) => f === target || bundleTargets.includes(f)) : bundleTargets.filter((f) => f !== target));
+    };
+    const handleDownloadBundle = () => {
+      const bundleCollections = getBundleCollections();
+      if (!bundleCollections || bundleTargets.length === 0) return;
+      const zip = createZip(createExportBundle(bundleCollections, bundleTargets, buildExportOptions()));
+      const url = URL.createObjectURL(new Blob([zip.buffer], { type: "application/zip" }));
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = "design-tokens.zip";
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      setTimeout(() => URL.revokeObjectURL(url), 1e3);
+    };
     const displayedVariables = variables.map((v) => {
       const targetModeId = selectedModeId === "all" && modes.length > 0 ? modes[0].modeId : selectedModeId;
       const { text, isColor, colorValue } = targetModeId && targetModeId !== "all" ? getDisplayValue(v, targetModeId) : { text: null, isColor: false };
@@ -7712,6 +9400,20 @@
         onClick: () => setActiveTab("output")
       },
       "Output"
+    ), /* @__PURE__ */ React.createElement(
+      "button",
+      {
+        style: __spreadProps(__spreadValues({}, styles.tab), { borderBottom: activeTab === "categories" ? "2px solid #18a0fb" : "none", fontWeight: activeTab === "categories" ? 600 : 500 }),
+        onClick: () => setActiveTab("categories")
+      },
+      "Categories"
+    ), /* @__PURE__ */ React.createElement(
+      "button",
+      {
+        style: __spreadProps(__spreadValues({}, styles.tab), { borderBottom: activeTab === "sync" ? "2px solid #18a0fb" : "none", fontWeight: activeTab === "sync" ? 600 : 500 }),
+        onClick: () => setActiveTab("sync")
+      },
+      "Sync"
     ), /* @__PURE__ */ React.createElement(
       "button",
       {
@@ -7770,7 +9472,7 @@
           setUnitFormat(newUnit);
           const newMap = /* @__PURE__ */ new Map();
           variables.forEach((v) => {
-            if (v.type === "number" || v.type === "spacing" || v.type === "borderRadius") {
+            if (isDimensionTokenType(v.type)) {
               newMap.set(v.id, newUnit);
             }
           });
@@ -7798,13 +9500,23 @@
         onChange: () => setAliasDisplayMode("resolved"),
         disabled: !hasAliases
       }
-    ), "Resolve")), !hasAliases && /* @__PURE__ */ React.createElement("div", { style: { fontSize: "10px", color: "#999", fontStyle: "italic" } }, "This collection contains no aliases"))))), loading ? /* @__PURE__ */ React.createElement("div", { style: { padding: 20, textAlign: "center", color: "#666" } }, "Loading details...") : selectedCollectionId ? /* @__PURE__ */ React.createElement("div", { style: { flex: 1, overflow: "auto", border: "1px solid #e5e5e5", borderRadius: 4 } }, /* @__PURE__ */ React.createElement("table", { style: styles.table }, /* @__PURE__ */ React.createElement("thead", null, /* @__PURE__ */ React.createElement("tr", null, /* @__PURE__ */ React.createElement("th", { style: styles.th }, "Name"), /* @__PURE__ */ React.createElement("th", { style: styles.th }, "Type"), /* @__PURE__ */ React.createElement("th", { style: styles.th }, "Value"), /* @__PURE__ */ React.createElement("th", { style: styles.th }, "Unit"))), /* @__PURE__ */ React.createElement("tbody", null, displayedVariables.map((v) => /* @__PURE__ */ React.createElement("tr", { key: v.id }, /* @__PURE__ */ React.createElement("td", { style: styles.td }, /* @__PURE__ */ React.createElement("div", { style: { fontWeight: 500 } }, v.name)), /* @__PURE__ */ React.createElement("td", { style: styles.td }, /* @__PURE__ */ React.createElement("span", { style: styles.badge }, v.type)), /* @__PURE__ */ React.createElement("td", { style: styles.td }, /* @__PURE__ */ React.createElement("div", { style: { display: "flex", alignItems: "center", gap: 8 } }, v.isColor && v.colorValue && /* @__PURE__ */ React.createElement("div", { style: {
+    ), "Resolve")), !hasAliases && /* @__PURE__ */ React.createElement("div", { style: { fontSize: "10px", color: "#999", fontStyle: "italic" } }, "This collection contains no aliases"))))), loading ? /* @__PURE__ */ React.createElement("div", { style: { padding: 20, textAlign: "center", color: "#666" } }, "Loading details...") : selectedCollectionId ? /* @__PURE__ */ React.createElement("div", { style: { flex: 1, overflow: "auto", border: "1px solid #e5e5e5", borderRadius: 4 } }, /* @__PURE__ */ React.createElement("table", { style: styles.table }, /* @__PURE__ */ React.createElement("thead", null, /* @__PURE__ */ React.createElement("tr", null, /* @__PURE__ */ React.createElement("th", { style: styles.th }, "Name"), /* @__PURE__ */ React.createElement("th", { style: styles.th }, "Type"), /* @__PURE__ */ React.createElement("th", { style: styles.th }, "Value"), /* @__PURE__ */ React.createElement("th", { style: styles.th }, "Unit"))), /* @__PURE__ */ React.createElement("tbody", null, displayedVariables.map((v) => /* @__PURE__ */ React.createElement("tr", { key: v.id }, /* @__PURE__ */ React.createElement("td", { style: styles.td }, /* @__PURE__ */ React.createElement("div", { style: { fontWeight: 500 } }, v.name)), /* @__PURE__ */ React.createElement("td", { style: styles.td }, getCompatibleTokenTypes(v.type).length > 1 ? /* @__PURE__ */ React.createElement(
+      "select",
+      {
+        style: __spreadProps(__spreadValues({}, styles.select), { fontSize: "11px", padding: "2px 4px", minWidth: "60px", fontWeight: v.typeOverridden ? 600 : "normal" }),
+        value: v.typeOverridden ? v.type : "",
+        title: v.typeOverridden ? "Type set manually" : "Type inferred from scopes and name",
+        onChange: (e) => handleSetVariableType(v.id, e.target.value)
+      },
+      /* @__PURE__ */ React.createElement("option", { value: "" }, v.typeOverridden ? "Auto" : `${v.type} (auto)`),
+      getCompatibleTokenTypes(v.type).map((t) => /* @__PURE__ */ React.createElement("option", { key: t, value: t }, t))
+    ) : /* @__PURE__ */ React.createElement("span", { style: styles.badge }, v.type)), /* @__PURE__ */ React.createElement("td", { style: styles.td }, /* @__PURE__ */ React.createElement("div", { style: { display: "flex", alignItems: "center", gap: 8 } }, v.isColor && v.colorValue && /* @__PURE__ */ React.createElement("div", { style: {
       width: 16,
       height: 16,
       borderRadius: 4,
       background: v.colorValue,
       border: "1px solid #ddd"
-    } }), /* @__PURE__ */ React.createElement("code", { style: __spreadProps(__spreadValues({}, styles.code), { color: aliasDisplayMode === "alias" && v.displayValue.startsWith("{") ? "#f24822" : "inherit" }) }, v.displayValue))), /* @__PURE__ */ React.createElement("td", { style: styles.td }, v.type === "number" || v.type === "spacing" || v.type === "borderRadius" ? /* @__PURE__ */ React.createElement(
+    } }), /* @__PURE__ */ React.createElement("code", { style: __spreadProps(__spreadValues({}, styles.code), { color: aliasDisplayMode === "alias" && v.displayValue.startsWith("{") ? "#f24822" : "inherit" }) }, v.displayValue))), /* @__PURE__ */ React.createElement("td", { style: styles.td }, isDimensionTokenType(v.type) ? /* @__PURE__ */ React.createElement(
       "select",
       {
         style: __spreadProps(__spreadValues({}, styles.select), { fontSize: "11px", padding: "2px 4px", minWidth: "60px" }),
@@ -7830,23 +9542,78 @@
       /* @__PURE__ */ React.createElement("option", { value: "in" }, "in"),
       /* @__PURE__ */ React.createElement("option", { value: "pt" }, "pt"),
       /* @__PURE__ */ React.createElement("option", { value: "pc" }, "pc")
-    ) : /* @__PURE__ */ React.createElement("span", { style: { color: "#999", fontSize: "10px", fontStyle: "italic" } }, "Only for number types")))), displayedVariables.length === 0 && /* @__PURE__ */ React.createElement("tr", null, /* @__PURE__ */ React.createElement("td", { colSpan: 3, style: { padding: 24, textAlign: "center", color: "#999" } }, "No variables found in this collection."))))) : /* @__PURE__ */ React.createElement("div", { style: { padding: 20, textAlign: "center", color: "#888", fontStyle: "italic" } }, "Select a collection to view variables.")), activeTab === "output" && /* @__PURE__ */ React.createElement("div", { style: { display: "flex", flexDirection: "column", height: "100%", gap: 16 } }, selectedCollectionId && variables.length > 0 ? /* @__PURE__ */ React.createElement(React.Fragment, null, /* @__PURE__ */ React.createElement("div", { style: styles.controls }, /* @__PURE__ */ React.createElement("div", { style: styles.controlGroup }, /* @__PURE__ */ React.createElement("label", { style: styles.label }, "Format"), /* @__PURE__ */ React.createElement("select", { style: styles.select, value: outputFormat, onChange: (e) => setOutputFormat(e.target.value) }, /* @__PURE__ */ React.createElement("option", { value: "css" }, "CSS Variables"), /* @__PURE__ */ React.createElement("option", { value: "scss" }, "SCSS Variables"), /* @__PURE__ */ React.createElement("option", { value: "json" }, "JSON"), /* @__PURE__ */ React.createElement("option", { value: "dtcg" }, "Design Tokens (W3C)")))), selectedModeId === "all" && modes.length > 1 && /* @__PURE__ */ React.createElement("div", { style: { padding: 8, background: "#f0f9ff", color: "#0369a1", borderRadius: 4, fontSize: "11px" } }, /* @__PURE__ */ React.createElement("strong", null, "Note:"), " Showing values for all modes (using first mode as default)"), /* @__PURE__ */ React.createElement("div", { style: { flex: 1, display: "flex", flexDirection: "column", border: "1px solid #333", borderRadius: 6, overflow: "hidden" } }, /* @__PURE__ */ React.createElement("div", { style: styles.toolbar }, /* @__PURE__ */ React.createElement("div", { style: styles.toolbarTitle }, "Output Preview"), /* @__PURE__ */ React.createElement(
+    ) : /* @__PURE__ */ React.createElement("span", { style: { color: "#999", fontSize: "10px", fontStyle: "italic" } }, "Only for number types")))), displayedVariables.length === 0 && /* @__PURE__ */ React.createElement("tr", null, /* @__PURE__ */ React.createElement("td", { colSpan: 3, style: { padding: 24, textAlign: "center", color: "#999" } }, "No variables found in this collection."))))) : /* @__PURE__ */ React.createElement("div", { style: { padding: 20, textAlign: "center", color: "#888", fontStyle: "italic" } }, "Select a collection to view variables.")), activeTab === "output" && /* @__PURE__ */ React.createElement("div", { style: { display: "flex", flexDirection: "column", height: "100%", gap: 16 } }, selectedCollectionId && variables.length > 0 ? /* @__PURE__ */ React.createElement(React.Fragment, null, /* @__PURE__ */ React.createElement("div", { style: styles.controls }, /* @__PURE__ */ React.createElement("div", { style: styles.controlGroup }, /* @__PURE__ */ React.createElement("label", { style: styles.label }, "Scope"), /* @__PURE__ */ React.createElement("select", { style: styles.select, value: exportScope, onChange: handleSelectExportScope }, /* @__PURE__ */ React.createElement("option", { value: "collection" }, "This collection"), /* @__PURE__ */ React.createElement("option", { value: "combined" }, "All collections (combined)"), /* @__PURE__ */ React.createElement("option", { value: "per-collection" }, "All collections (file per collection)"))), /* @__PURE__ */ React.createElement("div", { style: styles.controlGroup }, /* @__PURE__ */ React.createElement("label", { style: styles.label }, "Format"), /* @__PURE__ */ React.createElement("select", { style: styles.select, value: outputFormat === "template" ? `template:${activeTemplateId}` : outputFormat, onChange: handleSelectFormat }, EXPORT_FORMATS.map((f) => /* @__PURE__ */ React.createElement("option", { key: f.value, value: f.value }, f.label)), /* @__PURE__ */ React.createElement("optgroup", { label: "Templates" }, templates.map((t) => /* @__PURE__ */ React.createElement("option", { key: t.id, value: `template:${t.id}` }, t.name)), /* @__PURE__ */ React.createElement("option", { value: "template:new" }, "+ New template\u2026")))), outputFormat === "css" && selectedModeId === "all" && modes.length > 1 && /* @__PURE__ */ React.createElement(React.Fragment, null, /* @__PURE__ */ React.createElement("div", { style: styles.controlGroup }, /* @__PURE__ */ React.createElement("label", { style: styles.label }, "Default Mode"), /* @__PURE__ */ React.createElement("select", { style: styles.select, value: defaultModeId || modes[0].modeId, onChange: (e) => setDefaultModeId(e.target.value) }, modes.map((m) => /* @__PURE__ */ React.createElement("option", { key: m.modeId, value: m.modeId }, m.name)))), /* @__PURE__ */ React.createElement("div", { style: styles.controlGroup }, /* @__PURE__ */ React.createElement("label", { style: styles.label }, "Other Modes"), /* @__PURE__ */ React.createElement("select", { style: styles.select, value: cssThemeStrategy, onChange: (e) => setCssThemeStrategy(e.target.value) }, /* @__PURE__ */ React.createElement("option", { value: "data-attribute" }, '[data-theme="\u2026"]'), /* @__PURE__ */ React.createElement("option", { value: "class" }, ".theme-\u2026"), /* @__PURE__ */ React.createElement("option", { value: "media-query" }, "prefers-color-scheme")))), outputFormat === "dtcg" && selectedModeId === "all" && modes.length > 1 && /* @__PURE__ */ React.createElement("div", { style: styles.controlGroup }, /* @__PURE__ */ React.createElement("label", { style: styles.label }, "Modes"), /* @__PURE__ */ React.createElement("select", { style: styles.select, value: dtcgModeLayout, onChange: (e) => setDtcgModeLayout(e.target.value) }, /* @__PURE__ */ React.createElement("option", { value: "extensions" }, "$extensions.mode"), /* @__PURE__ */ React.createElement("option", { value: "files" }, "One file per mode"))), outputFormat === "ts" && /* @__PURE__ */ React.createElement("div", { style: styles.controlGroup }, /* @__PURE__ */ React.createElement("label", { style: styles.label }, "Helpers"), /* @__PURE__ */ React.createElement("label", { style: { display: "flex", alignItems: "center", gap: 4, fontSize: "11px", cursor: "pointer", height: "32px" } }, /* @__PURE__ */ React.createElement(
+      "input",
+      {
+        type: "checkbox",
+        checked: tsCssVarHelper,
+        onChange: (e) => setTsCssVarHelper(e.target.checked)
+      }
+    ), "Include cssVar()"))), outputFormat === "template" && activeTemplate && /* @__PURE__ */ React.createElement("div", { style: { display: "flex", flexDirection: "column", gap: 8 } }, /* @__PURE__ */ React.createElement("div", { style: styles.controls }, /* @__PURE__ */ React.createElement("div", { style: styles.controlGroup }, /* @__PURE__ */ React.createElement("label", { style: styles.label }, "Template Name"), /* @__PURE__ */ React.createElement(
+      "input",
+      {
+        style: styles.input,
+        type: "text",
+        value: activeTemplate.name,
+        onChange: (e) => updateActiveTemplate({ name: e.target.value })
+      }
+    )), /* @__PURE__ */ React.createElement("div", { style: styles.controlGroup }, /* @__PURE__ */ React.createElement("label", { style: styles.label }, "File Extension"), /* @__PURE__ */ React.createElement(
+      "input",
+      {
+        style: styles.input,
+        type: "text",
+        placeholder: "e.g. yaml",
+        value: activeTemplate.extension,
+        onChange: (e) => updateActiveTemplate({ extension: e.target.value.replace(/^\./, "") })
+      }
+    )), /* @__PURE__ */ React.createElement("div", { style: { display: "flex", alignItems: "flex-end", gap: 8 } }, /* @__PURE__ */ React.createElement("button", { style: styles.buttonPrimary, onClick: handleSaveTemplates }, "Save"), /* @__PURE__ */ React.createElement("button", { style: styles.buttonSecondary, onClick: handleDeleteTemplate }, "Delete"))), /* @__PURE__ */ React.createElement(
+      "textarea",
+      {
+        style: __spreadProps(__spreadValues({}, styles.codeBlock), { flex: "none", height: 160, borderRadius: 6, whiteSpace: "pre" }),
+        spellCheck: false,
+        value: activeTemplate.source,
+        onChange: (e) => updateActiveTemplate({ source: e.target.value })
+      }
+    ), /* @__PURE__ */ React.createElement("div", { style: { fontSize: "11px", color: "#666" } }, "Use ", /* @__PURE__ */ React.createElement("code", null, `{{#tokens}}\u2026{{/tokens}}`), " or ", /* @__PURE__ */ React.createElement("code", null, `{{#groups}}\u2026{{/groups}}`), " to loop, ", /* @__PURE__ */ React.createElement("code", null, `{{name}}`), ", ", /* @__PURE__ */ React.createElement("code", null, `{{path}}`), ", ", /* @__PURE__ */ React.createElement("code", null, `{{cssName}}`), ", ", /* @__PURE__ */ React.createElement("code", null, `{{type}}`), ", ", /* @__PURE__ */ React.createElement("code", null, `{{value}}`), ", ", /* @__PURE__ */ React.createElement("code", null, `{{description}}`), " for token fields, and ", /* @__PURE__ */ React.createElement("code", null, `{{#modes}}{{name}}: {{value}}{{/modes}}`), " for per-mode values.")), /* @__PURE__ */ React.createElement("div", { style: styles.controls }, /* @__PURE__ */ React.createElement("div", { style: styles.controlGroup }, /* @__PURE__ */ React.createElement("label", { style: styles.label }, "Transforms"), /* @__PURE__ */ React.createElement("select", { style: styles.select, value: transformPreset, onChange: (e) => setTransformPreset(e.target.value) }, Object.keys(TRANSFORM_PRESETS).map((preset) => /* @__PURE__ */ React.createElement("option", { key: preset, value: preset, title: TRANSFORM_PRESETS[preset].join(" \u2192 ") }, preset)))), /* @__PURE__ */ React.createElement("div", { style: styles.controlGroup }, /* @__PURE__ */ React.createElement("label", { style: styles.label }, "Naming"), /* @__PURE__ */ React.createElement("select", { style: styles.select, value: namingCase, onChange: (e) => setNamingCase(e.target.value) }, /* @__PURE__ */ React.createElement("option", { value: "" }, "Format default"), /* @__PURE__ */ React.createElement("option", { value: "kebab" }, "kebab-case"), /* @__PURE__ */ React.createElement("option", { value: "camel" }, "camelCase"), /* @__PURE__ */ React.createElement("option", { value: "snake" }, "snake_case"), /* @__PURE__ */ React.createElement("option", { value: "constant" }, "CONSTANT_CASE"))), /* @__PURE__ */ React.createElement("div", { style: styles.controlGroup }, /* @__PURE__ */ React.createElement("label", { style: styles.label }, "Prefix"), /* @__PURE__ */ React.createElement(
+      "input",
+      {
+        style: styles.input,
+        type: "text",
+        placeholder: "e.g. acme",
+        value: namingPrefix,
+        onChange: (e) => setNamingPrefix(e.target.value)
+      }
+    )), /* @__PURE__ */ React.createElement("div", { style: styles.controlGroup }, /* @__PURE__ */ React.createElement("label", { style: styles.label }, "Strip Segments"), /* @__PURE__ */ React.createElement(
+      "input",
+      {
+        style: styles.input,
+        type: "text",
+        placeholder: "e.g. color/, size/",
+        value: stripSegments,
+        onChange: (e) => setStripSegments(e.target.value)
+      }
+    ))), /* @__PURE__ */ React.createElement("div", { style: styles.controls }, /* @__PURE__ */ React.createElement("div", { style: __spreadProps(__spreadValues({}, styles.controlGroup), { flex: 1 }) }, /* @__PURE__ */ React.createElement("label", { style: styles.label }, "Bundle"), /* @__PURE__ */ React.createElement("div", { style: { display: "flex", flexWrap: "wrap", gap: "4px 12px" } }, EXPORT_FORMATS.map((f) => /* @__PURE__ */ React.createElement("label", { key: f.value, style: { display: "flex", alignItems: "center", gap: 4, fontSize: "11px", cursor: "pointer" } }, /* @__PURE__ */ React.createElement(
+      "input",
+      {
+        type: "checkbox",
+        checked: bundleTargets.includes(f.value),
+        onChange: (e) => toggleBundleTarget(f.value, e.target.checked)
+      }
+    ), f.label)))), /* @__PURE__ */ React.createElement("div", { style: { display: "flex", alignItems: "flex-end" } }, /* @__PURE__ */ React.createElement(
+      "button",
+      {
+        style: styles.buttonPrimary,
+        onClick: handleDownloadBundle,
+        disabled: bundleTargets.length === 0 || exportScope !== "collection" && !allCollectionsData
+      },
+      "Download bundle"
+    ))), exportScope === "collection" && selectedModeId === "all" && modes.length > 1 && /* @__PURE__ */ React.createElement("div", { style: { padding: 8, background: "#f0f9ff", color: "#0369a1", borderRadius: 4, fontSize: "11px" } }, /* @__PURE__ */ React.createElement("strong", null, "Note:"), " Showing values for all modes (using first mode as default)"), exportScope !== "collection" && /* @__PURE__ */ React.createElement("div", { style: { padding: 8, background: "#f0f9ff", color: "#0369a1", borderRadius: 4, fontSize: "11px" } }, /* @__PURE__ */ React.createElement("strong", null, "Note:"), " Every mode of every collection is exported. Modes are matched by name; single-mode collections apply to all modes."), /* @__PURE__ */ React.createElement("div", { style: { flex: 1, display: "flex", flexDirection: "column", border: "1px solid #333", borderRadius: 6, overflow: "hidden" } }, /* @__PURE__ */ React.createElement("div", { style: styles.toolbar }, /* @__PURE__ */ React.createElement("div", { style: styles.toolbarTitle }, "Output Preview"), /* @__PURE__ */ React.createElement(
       "button",
       {
         style: styles.buttonSecondary,
         onClick: () => {
-          var _a2;
-          const exportModes = selectedModeId === "all" ? modes.map((m) => ({ modeId: m.modeId, name: m.name })) : modes.filter((m) => m.modeId === selectedModeId).map((m) => ({ modeId: m.modeId, name: m.name }));
           const el = document.createElement("textarea");
-          el.value = generateExport(variables, {
-            format: outputFormat,
-            modes: exportModes,
-            aliasMode: aliasDisplayMode,
-            colorFormat,
-            unitFormat,
-            baseFontSize: 16,
-            unitPerVariable
-          }, ((_a2 = collections.find((c) => c.id === selectedCollectionId)) == null ? void 0 : _a2.name) || "Tokens");
+          el.value = generateOutput();
           document.body.appendChild(el);
           el.select();
           document.execCommand("copy");
@@ -7859,17 +9626,78 @@
       {
         readOnly: true,
         style: styles.codeBlock,
-        value: generateExport(variables, {
-          format: outputFormat,
-          modes: selectedModeId === "all" ? modes.map((m) => ({ modeId: m.modeId, name: m.name })) : modes.filter((m) => m.modeId === selectedModeId).map((m) => ({ modeId: m.modeId, name: m.name })),
-          aliasMode: aliasDisplayMode,
-          colorFormat,
-          unitFormat,
-          baseFontSize: 16,
-          unitPerVariable
-        }, ((_a = collections.find((c) => c.id === selectedCollectionId)) == null ? void 0 : _a.name) || "Tokens")
-      }
-    )), outputFormat === "dtcg" && /* @__PURE__ */ React.createElement("div", { style: { padding: 12, background: "#e6fffa", color: "#2c7a7b", borderRadius: 6, fontSize: "11px" } }, /* @__PURE__ */ React.createElement("strong", null, "Note:"), " W3C Design Tokens export uses the selected mode and formatting.")) : /* @__PURE__ */ React.createElement("div", { style: { padding: 32, textAlign: "center", color: "#666" } }, /* @__PURE__ */ React.createElement("p", { style: { fontSize: "14px", marginBottom: 8 } }, "Select a collection to see output"), /* @__PURE__ */ React.createElement("p", { style: { fontSize: "11px", color: "#999" } }, "Load variables and choose a collection from the Variables tab."))), activeTab === "specs" && /* @__PURE__ */ React.createElement("div", { style: { padding: 20, overflow: "auto" } }, /* @__PURE__ */ React.createElement("h2", null, "Design Tokens Specification"), /* @__PURE__ */ React.createElement("p", null, "This plugin supports the ", /* @__PURE__ */ React.createElement("a", { href: "https://tr.designtokens.org/format/", target: "_blank" }, "W3C Design Tokens Format Module"), "."), /* @__PURE__ */ React.createElement("h3", null, "Key Concepts"), /* @__PURE__ */ React.createElement("ul", null, /* @__PURE__ */ React.createElement("li", null, /* @__PURE__ */ React.createElement("strong", null, "$value"), ": The actual value of the token."), /* @__PURE__ */ React.createElement("li", null, /* @__PURE__ */ React.createElement("strong", null, "$type"), ": The type of token (color, number, dimension, etc)."), /* @__PURE__ */ React.createElement("li", null, /* @__PURE__ */ React.createElement("strong", null, "Nesting"), ": Tokens are organized in a hierarchy typically derived from their name (e.g. `color/brand/primary`).")), /* @__PURE__ */ React.createElement("h3", null, "Aliases"), /* @__PURE__ */ React.createElement("p", null, "References to other tokens are wrapped in curly braces, e.g., ", /* @__PURE__ */ React.createElement("code", null, `{color.brand.primary}`), "."), /* @__PURE__ */ React.createElement("div", { style: { marginTop: 20, padding: 12, background: "#f0f0f0", borderRadius: 4 } }, /* @__PURE__ */ React.createElement("code", null, `{
+        value: generateOutput()
+      }
+    )), outputFormat === "dtcg" && /* @__PURE__ */ React.createElement("div", { style: { padding: 12, background: "#e6fffa", color: "#2c7a7b", borderRadius: 6, fontSize: "11px" } }, /* @__PURE__ */ React.createElement("strong", null, "Note:"), " W3C Design Tokens export follows the DTCG format: aliases use ", /* @__PURE__ */ React.createElement("code", null, `{group.token}`), " and the first mode provides ", /* @__PURE__ */ React.createElement("code", null, "$value"), "."), outputFormat === "swift" && /* @__PURE__ */ React.createElement("div", { style: { padding: 12, background: "#e6fffa", color: "#2c7a7b", borderRadius: 6, fontSize: "11px" } }, /* @__PURE__ */ React.createElement("strong", null, "Note:"), " Swift export always uses resolved values. Colors switch between the light and dark modes via the trait collection."), outputFormat === "android" && /* @__PURE__ */ React.createElement("div", { style: { padding: 12, background: "#e6fffa", color: "#2c7a7b", borderRadius: 6, fontSize: "11px" } }, /* @__PURE__ */ React.createElement("strong", null, "Note:"), " Dark mode colors that differ are written to ", /* @__PURE__ */ React.createElement("code", null, "values-night"), ". Font sizes use sp, other dimensions use dp."), outputFormat === "tailwind" && /* @__PURE__ */ React.createElement("div", { style: { padding: 12, background: "#e6fffa", color: "#2c7a7b", borderRadius: 6, fontSize: "11px" } }, /* @__PURE__ */ React.createElement("strong", null, "Note:"), " Tailwind config uses the first selected mode. Use Alias values with the CSS output to keep themes in sync.")) : /* @__PURE__ */ React.createElement("div", { style: { padding: 32, textAlign: "center", color: "#666" } }, /* @__PURE__ */ React.createElement("p", { style: { fontSize: "14px", marginBottom: 8 } }, "Select a collection to see output"), /* @__PURE__ */ React.createElement("p", { style: { fontSize: "11px", color: "#999" } }, "Load variables and choose a collection from the Variables tab."))), activeTab === "categories" && /* @__PURE__ */ React.createElement("div", { style: { display: "flex", flexDirection: "column", gap: 12, padding: 12, overflow: "auto" } }, /* @__PURE__ */ React.createElement("div", { style: { fontSize: "11px", color: "#666" } }, "Rules decide where scanned tokens land. The first matching rule wins; empty fields match anything and unmatched tokens use the built-in naming heuristics. Names and collections accept globs (", /* @__PURE__ */ React.createElement("code", null, "Brand/*"), ") or regular expressions (", /* @__PURE__ */ React.createElement("code", null, "/^grid-\\d+$/"), ")."), /* @__PURE__ */ React.createElement("table", { style: styles.table }, /* @__PURE__ */ React.createElement("thead", null, /* @__PURE__ */ React.createElement("tr", null, /* @__PURE__ */ React.createElement("th", { style: styles.th }, "#"), /* @__PURE__ */ React.createElement("th", { style: styles.th }, "Collection"), /* @__PURE__ */ React.createElement("th", { style: styles.th }, "Name"), /* @__PURE__ */ React.createElement("th", { style: styles.th }, "Type"), /* @__PURE__ */ React.createElement("th", { style: styles.th }, "Alias"), /* @__PURE__ */ React.createElement("th", { style: styles.th }, "Category"), /* @__PURE__ */ React.createElement("th", { style: styles.th }))), /* @__PURE__ */ React.createElement("tbody", null, categoryRules.map((rule, index) => /* @__PURE__ */ React.createElement("tr", { key: rule.id }, /* @__PURE__ */ React.createElement("td", { style: styles.td }, index + 1), /* @__PURE__ */ React.createElement("td", { style: styles.td }, /* @__PURE__ */ React.createElement(
+      "input",
+      {
+        style: __spreadProps(__spreadValues({}, styles.input), { width: "100%", boxSizing: "border-box" }),
+        type: "text",
+        placeholder: "Any",
+        value: rule.collection || "",
+        onChange: (e) => updateCategoryRule(rule.id, { collection: e.target.value || void 0 })
+      }
+    )), /* @__PURE__ */ React.createElement("td", { style: styles.td }, /* @__PURE__ */ React.createElement(
+      "input",
+      {
+        style: __spreadProps(__spreadValues({}, styles.input), { width: "100%", boxSizing: "border-box" }),
+        type: "text",
+        placeholder: "Any",
+        value: rule.name || "",
+        onChange: (e) => updateCategoryRule(rule.id, { name: e.target.value || void 0 })
+      }
+    )), /* @__PURE__ */ React.createElement("td", { style: styles.td }, /* @__PURE__ */ React.createElement(
+      "select",
+      {
+        style: styles.select,
+        value: rule.resolvedType || "",
+        onChange: (e) => updateCategoryRule(rule.id, { resolvedType: e.target.value || void 0 })
+      },
+      /* @__PURE__ */ React.createElement("option", { value: "" }, "Any"),
+      /* @__PURE__ */ React.createElement("option", { value: "COLOR" }, "Color variable"),
+      /* @__PURE__ */ React.createElement("option", { value: "FLOAT" }, "Number variable"),
+      /* @__PURE__ */ React.createElement("option", { value: "STRING" }, "String variable"),
+      /* @__PURE__ */ React.createElement("option", { value: "BOOLEAN" }, "Boolean variable"),
+      /* @__PURE__ */ React.createElement("option", { value: "PAINT" }, "Paint style"),
+      /* @__PURE__ */ React.createElement("option", { value: "TEXT" }, "Text style"),
+      /* @__PURE__ */ React.createElement("option", { value: "EFFECT" }, "Effect style"),
+      /* @__PURE__ */ React.createElement("option", { value: "GRID" }, "Grid style")
+    )), /* @__PURE__ */ React.createElement("td", { style: styles.td }, /* @__PURE__ */ React.createElement(
+      "select",
+      {
+        style: styles.select,
+        value: rule.isAlias === void 0 ? "" : String(rule.isAlias),
+        onChange: (e) => updateCategoryRule(rule.id, { isAlias: e.target.value === "" ? void 0 : e.target.value === "true" })
+      },
+      /* @__PURE__ */ React.createElement("option", { value: "" }, "Any"),
+      /* @__PURE__ */ React.createElement("option", { value: "true" }, "Alias"),
+      /* @__PURE__ */ React.createElement("option", { value: "false" }, "Value")
+    )), /* @__PURE__ */ React.createElement("td", { style: styles.td }, /* @__PURE__ */ React.createElement(
+      "input",
+      {
+        style: __spreadProps(__spreadValues({}, styles.input), { width: "100%", boxSizing: "border-box" }),
+        type: "text",
+        list: "built-in-categories",
+        value: rule.category,
+        onChange: (e) => updateCategoryRule(rule.id, { category: e.target.value })
+      }
+    )), /* @__PURE__ */ React.createElement("td", { style: __spreadProps(__spreadValues({}, styles.td), { whiteSpace: "nowrap" }) }, /* @__PURE__ */ React.createElement("button", { style: __spreadProps(__spreadValues({}, styles.buttonSecondary), { padding: "4px 8px" }), onClick: () => moveCategoryRule(index, -1), title: "Move up" }, "\u2191"), /* @__PURE__ */ React.createElement("button", { style: __spreadProps(__spreadValues({}, styles.buttonSecondary), { padding: "4px 8px" }), onClick: () => moveCategoryRule(index, 1), title: "Move down" }, "\u2193"), /* @__PURE__ */ React.createElement("button", { style: __spreadProps(__spreadValues({}, styles.buttonSecondary), { padding: "4px 8px" }), onClick: () => removeCategoryRule(rule.id), title: "Remove rule" }, "\u2715")))))), /* @__PURE__ */ React.createElement("datalist", { id: "built-in-categories" }, BUILT_IN_CATEGORIES.map((c) => /* @__PURE__ */ React.createElement("option", { key: c, value: c }))), /* @__PURE__ */ React.createElement("div", { style: { display: "flex", gap: 8 } }, /* @__PURE__ */ React.createElement("button", { style: styles.buttonSecondary, onClick: addCategoryRule }, "+ Add rule"), /* @__PURE__ */ React.createElement("button", { style: styles.buttonSecondary, onClick: handlePreviewCategories, disabled: loading }, "Preview"), /* @__PURE__ */ React.createElement("button", { style: styles.buttonPrimary, onClick: handleSaveCategoryRules }, "Save rules")), categoryPreview && /* @__PURE__ */ React.createElement("table", { style: styles.table }, /* @__PURE__ */ React.createElement("thead", null, /* @__PURE__ */ React.createElement("tr", null, /* @__PURE__ */ React.createElement("th", { style: styles.th }, "Name"), /* @__PURE__ */ React.createElement("th", { style: styles.th }, "Collection"), /* @__PURE__ */ React.createElement("th", { style: styles.th }, "Type"), /* @__PURE__ */ React.createElement("th", { style: styles.th }, "Category"), /* @__PURE__ */ React.createElement("th", { style: styles.th }, "Matched by"))), /* @__PURE__ */ React.createElement("tbody", null, categoryPreview.map((item, index) => /* @__PURE__ */ React.createElement("tr", { key: index }, /* @__PURE__ */ React.createElement("td", { style: styles.td }, item.name), /* @__PURE__ */ React.createElement("td", { style: styles.td }, item.collectionName), /* @__PURE__ */ React.createElement("td", { style: styles.td }, item.resolvedType, item.isAlias ? " (alias)" : ""), /* @__PURE__ */ React.createElement("td", { style: __spreadProps(__spreadValues({}, styles.td), { fontWeight: 600 }) }, item.category), /* @__PURE__ */ React.createElement("td", { style: __spreadProps(__spreadValues({}, styles.td), { color: "#888" }) }, item.ruleIndex >= 0 ? `Rule ${item.ruleIndex + 1}` : "Built-in")))))), activeTab === "sync" && /* @__PURE__ */ React.createElement("div", { style: { display: "flex", flexDirection: "column", gap: 12, padding: 12, overflow: "auto" } }, /* @__PURE__ */ React.createElement("div", { style: { fontSize: "11px", color: "#666" } }, "Write stored tokens back to the Primitives and Semantic variable collections. Preview the changes first; nothing in the document is touched until they are applied."), /* @__PURE__ */ React.createElement("div", { style: { display: "flex", gap: 8 } }, /* @__PURE__ */ React.createElement("button", { style: styles.buttonSecondary, onClick: handleLoadSyncTokens, disabled: loading }, "Load saved tokens"), /* @__PURE__ */ React.createElement("button", { style: styles.buttonSecondary, onClick: handleScanSyncTokens, disabled: loading }, "Scan document"), /* @__PURE__ */ React.createElement("button", { style: styles.buttonPrimary, onClick: handlePlanSync, disabled: loading || !syncTokens }, "Preview changes")), /* @__PURE__ */ React.createElement("div", { style: styles.controlGroup }, /* @__PURE__ */ React.createElement("label", { style: styles.label }, "Base font size (px)"), /* @__PURE__ */ React.createElement(
+      "input",
+      {
+        style: __spreadProps(__spreadValues({}, styles.input), { width: 80 }),
+        type: "number",
+        min: 1,
+        value: syncBaseFontSize,
+        onChange: (e) => {
+          setSyncBaseFontSize(e.target.value);
+          setSyncPlan(null);
+        },
+        title: "Used to convert rem and em values to px"
+      }
+    )), syncMessage && /* @__PURE__ */ React.createElement("div", { style: { fontSize: "11px", fontWeight: 600 } }, syncMessage), syncPlan && /* @__PURE__ */ React.createElement(React.Fragment, null, /* @__PURE__ */ React.createElement("div", { style: { fontSize: "11px" } }, syncPlan.created, " to create, ", syncPlan.updated, " to update, ", syncPlan.skipped.length, " skipped"), syncPlan.errors.map((message, index) => /* @__PURE__ */ React.createElement("div", { key: index, style: styles.error }, message)), syncPlan.changes.length === 0 ? /* @__PURE__ */ React.createElement("div", { style: { fontSize: "11px", color: "#666" } }, "Figma is already up to date.") : /* @__PURE__ */ React.createElement("table", { style: styles.table }, /* @__PURE__ */ React.createElement("thead", null, /* @__PURE__ */ React.createElement("tr", null, /* @__PURE__ */ React.createElement("th", { style: styles.th }, "Change"), /* @__PURE__ */ React.createElement("th", { style: styles.th }, "Token"), /* @__PURE__ */ React.createElement("th", { style: styles.th }, "Mode"), /* @__PURE__ */ React.createElement("th", { style: styles.th }, "Current"), /* @__PURE__ */ React.createElement("th", { style: styles.th }, "New"))), /* @__PURE__ */ React.createElement("tbody", null, syncPlan.changes.map((change, index) => {
+      var _a, _b;
+      return /* @__PURE__ */ React.createElement("tr", { key: index }, /* @__PURE__ */ React.createElement("td", { style: __spreadProps(__spreadValues({}, styles.td), { fontWeight: 600 }) }, SYNC_ACTION_LABELS[change.action]), /* @__PURE__ */ React.createElement("td", { style: styles.td }, change.path), /* @__PURE__ */ React.createElement("td", { style: styles.td }, change.mode || ""), /* @__PURE__ */ React.createElement("td", { style: __spreadProps(__spreadValues({}, styles.td), { color: "#888" }) }, (_a = change.oldValue) != null ? _a : ""), /* @__PURE__ */ React.createElement("td", { style: styles.td }, (_b = change.newValue) != null ? _b : ""));
+    }))), syncPlan.skipped.length > 0 && /* @__PURE__ */ React.createElement("div", { style: { fontSize: "11px", color: "#888" } }, syncPlan.skipped.map((s) => /* @__PURE__ */ React.createElement("div", { key: s.path }, "Skipped ", s.path, ": ", s.reason))), /* @__PURE__ */ React.createElement("div", { style: { display: "flex", gap: 8 } }, /* @__PURE__ */ React.createElement("button", { style: styles.buttonPrimary, onClick: handleApplySync, disabled: loading || syncPlan.changes.length === 0 }, "Apply changes"), /* @__PURE__ */ React.createElement("button", { style: styles.buttonSecondary, onClick: () => setSyncPlan(null) }, "Discard")))), activeTab === "specs" && /* @__PURE__ */ React.createElement("div", { style: { padding: 20, overflow: "auto" } }, /* @__PURE__ */ React.createElement("h2", null, "Design Tokens Specification"), /* @__PURE__ */ React.createElement("p", null, "This plugin supports the ", /* @__PURE__ */ React.createElement("a", { href: "https://tr.designtokens.org/format/", target: "_blank" }, "W3C Design Tokens Format Module"), "."), /* @__PURE__ */ React.createElement("h3", null, "Key Concepts"), /* @__PURE__ */ React.createElement("ul", null, /* @__PURE__ */ React.createElement("li", null, /* @__PURE__ */ React.createElement("strong", null, "$value"), ": The actual value of the token."), /* @__PURE__ */ React.createElement("li", null, /* @__PURE__ */ React.createElement("strong", null, "$type"), ": The type of token (color, number, dimension, etc)."), /* @__PURE__ */ React.createElement("li", null, /* @__PURE__ */ React.createElement("strong", null, "Nesting"), ": Tokens are organized in a hierarchy typically derived from their name (e.g. `color/brand/primary`).")), /* @__PURE__ */ React.createElement("h3", null, "Aliases"), /* @__PURE__ */ React.createElement("p", null, "References to other tokens are wrapped in curly braces, e.g., ", /* @__PURE__ */ React.createElement("code", null, `{color.brand.primary}`), "."), /* @__PURE__ */ React.createElement("div", { style: { marginTop: 20, padding: 12, background: "#f0f0f0", borderRadius: 4 } }, /* @__PURE__ */ React.createElement("code", null, `{
   "color": {
     "brand": {
       "$value": "#000000",
@@ -7978,6 +9806,13 @@
       fontSize: "12px",
       fontFamily: "inherit"
     },
+    input: {
+      padding: "8px",
+      borderRadius: 6,
+      border: "1px solid #e5e5e5",
+      fontSize: "12px",
+      fontFamily: "inherit"
+    },
     table: {
       width: "100%",
       borderCollapse: "collapse",
@@ -4,14 +4,43 @@ import { DesignTokens, TokenMetadata, Token, TokenValue, TokenReference, TokenSe
 import { TokenProvider, useTokenStore } from './token-store';
 import { VariableTable } from './VariableTable';
 import { MappingView } from './MappingView';
-import { generateExport } from './token-export';
-import { formatColor, formatUnit, collectionHasAliases, collectionHasColorVariables, collectionHasNumericVariables } from './token-utils';
+import { generateExport, generateCollectionsExport, mergeCollections, ExportOptions, CssThemeStrategy, NamingCase } from './token-export';
+import { createExportBundle, createZip, BundleTarget } from './token-bundle';
+import { TRANSFORM_PRESETS } from './token-transforms';
+import { ExportTemplate, DEFAULT_TEMPLATE_SOURCE } from './token-templates';
+import { CategoryRule, CategoryPreviewItem, BUILT_IN_CATEGORIES } from './token-categories';
+import { SyncResult, SyncChange } from './token-sync';
+import { formatColor, formatUnit, collectionHasAliases, collectionHasColorVariables, collectionHasNumericVariables, isDimensionTokenType, getCompatibleTokenTypes } from './token-utils';
 
 console.log('UI Script: Starting execution...');
 
 type AppMode = 'ENTRY' | 'LOADED' | 'SELECTED' | 'EXPORT_READY';
 type Technology = 'JSON' | 'CSS' | 'SCSS';
-type ActiveTab = 'variables' | 'mapping' | 'output' | 'specs';
+type ActiveTab = 'variables' | 'mapping' | 'output' | 'categories' | 'sync' | 'specs';
+
+const EXPORT_FORMATS: { value: ExportOptions['format']; label: string }[] = [
+  { value: 'css', label: 'CSS Variables' },
+  { value: 'scss', label: 'SCSS Variables' },
+  { value: 'json', label: 'JSON' },
+  { value: 'dtcg', label: 'Design Tokens (W3C)' },
+  { value: 'tailwind', label: 'Tailwind Config' },
+  { value: 'swift', label: 'Swift (SwiftUI)' },
+  { value: 'android', label: 'Android XML Resources' },
+  { value: 'compose', label: 'Jetpack Compose (Kotlin)' },
+  { value: 'dart', label: 'Flutter ThemeExtension (Dart)' },
+  { value: 'ts', label: 'TypeScript Module' },
+  { value: 'tokens-studio', label: 'Tokens Studio (figma-tokens)' },
+];
+
+const SYNC_ACTION_LABELS: { [action in SyncChange['action']]: string } = {
+  'create-collection': 'Create collection',
+  'add-mode': 'Add mode',
+  create: 'Create',
+  rename: 'Rename',
+  revalue: 'Change value',
+  realias: 'Change alias',
+  redescribe: 'Change description',
+};
 
 interface AppState {
   mode: AppMode;
@@ -56,7 +85,7 @@ const App: React.FC = () => {
   // Formatting & Output State
   const [colorFormat, setColorFormat] = React.useState<string>('hex');
   const [unitFormat, setUnitFormat] = React.useState<string>('px');
-  const [outputFormat, setOutputFormat] = React.useState<'css' | 'scss' | 'json' | 'dtcg'>('css');
+  const [outputFormat, setOutputFormat] = React.useState<ExportOptions['format']>('css');
 
   // Log output format changes
   React.useEffect(() => {
@@ -66,10 +95,45 @@ const App: React.FC = () => {
   // Per-variable unit selection (map: variableId -> unit)
   const [unitPerVariable, setUnitPerVariable] = React.useState<Map<string, string>>(new Map());
 
+  // Multi-mode CSS output: which mode goes on :root and how the others are scoped
+  const [defaultModeId, setDefaultModeId] = React.useState<string>('');
+  const [cssThemeStrategy, setCssThemeStrategy] = React.useState<CssThemeStrategy>('data-attribute');
+
+  // Token naming strategy ('' keeps each format's own convention)
+  const [namingCase, setNamingCase] = React.useState<NamingCase | ''>('');
+  const [namingPrefix, setNamingPrefix] = React.useState<string>('');
+  const [stripSegments, setStripSegments] = React.useState<string>(''); // Comma separated, e.g. "color/, size/"
+  const [tsCssVarHelper, setTsCssVarHelper] = React.useState<boolean>(true);
+  const [dtcgModeLayout, setDtcgModeLayout] = React.useState<'extensions' | 'files'>('extensions');
+
+  // Export scope: the selected collection, or every collection (merged or one file each)
+  const [exportScope, setExportScope] = React.useState<'collection' | 'combined' | 'per-collection'>('collection');
+  const [allCollectionsData, setAllCollectionsData] = React.useState<CollectionDetail[] | null>(null);
+
+  // Ordered export transforms, picked by preset
+  const [transformPreset, setTransformPreset] = React.useState<string>('default');
+
+  // Formats packaged together by "Download bundle"
+  const [bundleTargets, setBundleTargets] = React.useState<BundleTarget[]>(['css', 'scss', 'ts', 'dtcg']);
+
+  // User-defined export templates (persisted in clientStorage)
+  const [templates, setTemplates] = React.useState<ExportTemplate[]>([]);
+  const [activeTemplateId, setActiveTemplateId] = React.useState<string>('');
+
+  // Categorization rules (saved with the document)
+  const [categoryRules, setCategoryRules] = React.useState<CategoryRule[]>([]);
+  const [categoryPreview, setCategoryPreview] = React.useState<CategoryPreviewItem[] | null>(null);
+
+  // Sync back to Figma: stored tokens, the dry-run plan awaiting approval and the last result
+  const [syncTokens, setSyncTokens] = React.useState<DesignTokens | null>(null);
+  const [syncPlan, setSyncPlan] = React.useState<SyncResult | null>(null);
+  const [syncMessage, setSyncMessage] = React.useState<string | null>(null);
+  const [syncBaseFontSize, setSyncBaseFontSize] = React.useState<string>('16'); // For rem/em values, kept as typed
+
   // Listen for messages
   React.useEffect(() => {
     window.onmessage = (event: MessageEvent) => {
-      const { type, payload } = event.data.pluginMessage;
+      const { type, payload, tokens } = event.data.pluginMessage;
 
       switch (type) {
         case 'variables-loaded':
@@ -85,6 +149,54 @@ const App: React.FC = () => {
           setLoading(false);
           break;
 
+        case 'all-collections-data-loaded':
+          console.log('All collections data loaded:', payload.length, 'collections');
+          setAllCollectionsData(payload);
+          setLoading(false);
+          break;
+
+        case 'variable-type-set': {
+          const updateType = (v: CollectionVariableDetail) => v.id === payload.variableId
+            ? { ...v, type: payload.type, typeOverridden: payload.typeOverridden }
+            : v;
+          setVariables(current => current.map(updateType));
+          setAllCollectionsData(current => current && current.map(c => ({ ...c, variables: c.variables.map(updateType) })));
+          break;
+        }
+
+        case 'templates-loaded':
+          setTemplates(payload);
+          break;
+
+        case 'category-rules-loaded':
+          setCategoryRules(payload);
+          break;
+
+        case 'categories-previewed':
+          setCategoryPreview(payload);
+          setLoading(false);
+          break;
+
+        case 'tokens-loaded':
+        case 'tokens-scanned':
+        case 'tokens-imported':
+          setSyncTokens(payload.tokens);
+          setSyncPlan(null);
+          setLoading(false);
+          break;
+
+        case 'sync-planned':
+          setSyncPlan(payload);
+          setLoading(false);
+          break;
+
+        case 'syncing-completed':
+          setSyncTokens(tokens);
+          setSyncPlan(null);
+          setSyncMessage(payload.message);
+          setLoading(false);
+          break;
+
         case 'error':
           console.error('Plugin Error:', payload);
           setError(payload);
@@ -92,6 +204,9 @@ const App: React.FC = () => {
           break;
       }
     };
+
+    parent.postMessage({ pluginMessage: { type: 'load-templates' } }, '*');
+    parent.postMessage({ pluginMessage: { type: 'load-category-rules' } }, '*');
   }, []);
 
   const sendMessage = (msg: any) => {
@@ -115,6 +230,17 @@ const App: React.FC = () => {
     setUnitFormat('px');
     setOutputFormat('css');
     setUnitPerVariable(new Map());
+    setDefaultModeId('');
+    setCssThemeStrategy('data-attribute');
+    setNamingCase('');
+    setNamingPrefix('');
+    setStripSegments('');
+    setTsCssVarHelper(true);
+    setDtcgModeLayout('extensions');
+    setExportScope('collection');
+    setAllCollectionsData(null);
+    setBundleTargets(['css', 'scss', 'ts', 'dtcg']);
+    setTransformPreset('default');
     setActiveTab('variables');
 
     // Reload variables
@@ -131,6 +257,7 @@ const App: React.FC = () => {
     setVariables([]); // Clear previous variables while loading
     setModes([]);
     setSelectedModeId('all'); // Reset mode
+    setDefaultModeId('');
     setLoading(true);
 
     sendMessage({
@@ -139,6 +266,10 @@ const App: React.FC = () => {
     });
   };
 
+  const handleSetVariableType = (variableId: string, tokenType: TokenType | '') => {
+    sendMessage({ type: 'set-variable-type', variableId, tokenType: tokenType || null });
+  };
+
   const handleSelectMode = (e: React.ChangeEvent<HTMLSelectElement>) => {
     const newModeId = e.target.value;
     console.log('Selecting Mode ID:', newModeId);
@@ -199,6 +330,180 @@ const App: React.FC = () => {
     return { text: finalText, isColor, colorValue: colorHex };
   };
 
+  const buildExportOptions = (): ExportOptions => ({
+    format: outputFormat,
+    modes: selectedModeId === 'all'
+      ? modes.map(m => ({ modeId: m.modeId, name: m.name }))
+      : modes.filter(m => m.modeId === selectedModeId).map(m => ({ modeId: m.modeId, name: m.name })),
+    aliasMode: aliasDisplayMode,
+    colorFormat,
+    unitFormat,
+    baseFontSize: 16,
+    unitPerVariable: unitPerVariable,
+    defaultModeId: defaultModeId || undefined,
+    cssThemeStrategy,
+    naming: {
+      case: namingCase || undefined,
+      prefix: namingPrefix,
+      stripSegments: stripSegments.split(',').map(s => s.trim()).filter(s => s.length > 0)
+    },
+    tsCssVarHelper,
+    dtcgModeLayout,
+    transforms: TRANSFORM_PRESETS[transformPreset],
+    template: templates.find(t => t.id === activeTemplateId)
+  });
+
+  const activeTemplate = templates.find(t => t.id === activeTemplateId);
+
+  const handleSelectFormat = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const value = e.target.value;
+
+    if (value === 'template:new') {
+      const template: ExportTemplate = {
+        id: String(Date.now()),
+        name: `Template ${templates.length + 1}`,
+        extension: 'yaml',
+        source: DEFAULT_TEMPLATE_SOURCE
+      };
+      setTemplates([...templates, template]);
+      setActiveTemplateId(template.id);
+      setOutputFormat('template');
+    } else if (value.startsWith('template:')) {
+      setActiveTemplateId(value.slice('template:'.length));
+      setOutputFormat('template');
+    } else {
+      setOutputFormat(value as ExportOptions['format']);
+    }
+  };
+
+  const updateActiveTemplate = (changes: Partial<ExportTemplate>) => {
+    setTemplates(templates.map(t => t.id === activeTemplateId ? { ...t, ...changes } : t));
+  };
+
+  const handleSaveTemplates = () => {
+    sendMessage({ type: 'save-templates', templates });
+  };
+
+  const handleDeleteTemplate = () => {
+    const remaining = templates.filter(t => t.id !== activeTemplateId);
+    setTemplates(remaining);
+    setActiveTemplateId('');
+    setOutputFormat('css');
+    sendMessage({ type: 'save-templates', templates: remaining });
+  };
+
+  const addCategoryRule = () => {
+    setCategoryRules([...categoryRules, { id: String(Date.now()), name: '', category: 'primitives' }]);
+    setCategoryPreview(null);
+  };
+
+  const updateCategoryRule = (id: string, changes: Partial<CategoryRule>) => {
+    setCategoryRules(categoryRules.map(r => r.id === id ? { ...r, ...changes } : r));
+    setCategoryPreview(null);
+  };
+
+  const moveCategoryRule = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= categoryRules.length) return;
+
+    const rules = [...categoryRules];
+    [rules[index], rules[target]] = [rules[target], rules[index]];
+    setCategoryRules(rules);
+    setCategoryPreview(null);
+  };
+
+  const removeCategoryRule = (id: string) => {
+    setCategoryRules(categoryRules.filter(r => r.id !== id));
+    setCategoryPreview(null);
+  };
+
+  const handlePreviewCategories = () => {
+    setLoading(true);
+    sendMessage({ type: 'preview-categories', rules: categoryRules });
+  };
+
+  const handleSaveCategoryRules = () => {
+    sendMessage({ type: 'save-category-rules', rules: categoryRules });
+  };
+
+  const handleLoadSyncTokens = () => {
+    setLoading(true);
+    setSyncMessage(null);
+    sendMessage({ type: 'load-tokens' });
+  };
+
+  const handleScanSyncTokens = () => {
+    setLoading(true);
+    setSyncMessage(null);
+    sendMessage({ type: 'scan-document' });
+  };
+
+  // Nothing is written until the planned changes are approved
+  const handlePlanSync = () => {
+    setLoading(true);
+    setSyncMessage(null);
+    sendMessage({ type: 'sync-to-figma', tokens: syncTokens, options: { baseFontSize: Number(syncBaseFontSize) || 16, dryRun: true } });
+  };
+
+  const handleApplySync = () => {
+    setLoading(true);
+    sendMessage({ type: 'sync-to-figma', tokens: syncTokens, options: { baseFontSize: Number(syncBaseFontSize) || 16 } });
+  };
+
+  const handleSelectExportScope = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const scope = e.target.value as 'collection' | 'combined' | 'per-collection';
+    setExportScope(scope);
+
+    // Fetch every collection once; they are reused until the next refresh
+    if (scope !== 'collection' && !allCollectionsData) {
+      setLoading(true);
+      sendMessage({ type: 'get-all-collections-data' });
+    }
+  };
+
+  const generateOutput = (): string => {
+    if (exportScope !== 'collection') {
+      if (!allCollectionsData) return 'Loading collections...';
+      return generateCollectionsExport(allCollectionsData, buildExportOptions(), exportScope);
+    }
+    return generateExport(variables, buildExportOptions(), collections.find(c => c.id === selectedCollectionId)?.name || 'Tokens');
+  };
+
+  const getBundleCollections = (): CollectionDetail[] | null => {
+    if (exportScope === 'combined') return allCollectionsData ? [mergeCollections(allCollectionsData)] : null;
+    if (exportScope === 'per-collection') return allCollectionsData;
+
+    return [{
+      collectionId: selectedCollectionId,
+      name: collections.find(c => c.id === selectedCollectionId)?.name || 'Tokens',
+      modes: buildExportOptions().modes,
+      variables
+    }];
+  };
+
+  const toggleBundleTarget = (target: BundleTarget, enabled: boolean) => {
+    setBundleTargets(enabled
+      ? EXPORT_FORMATS.map(f => f.value).filter(f => f === target || bundleTargets.includes(f))
+      : bundleTargets.filter(f => f !== target));
+  };
+
+  const handleDownloadBundle = () => {
+    const bundleCollections = getBundleCollections();
+    if (!bundleCollections || bundleTargets.length === 0) return;
+
+    const zip = createZip(createExportBundle(bundleCollections, bundleTargets, buildExportOptions()));
+    const url = URL.createObjectURL(new Blob([zip.buffer as ArrayBuffer], { type: 'application/zip' }));
+
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'design-tokens.zip';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    // Revoking right after click() cancels the download in some browsers
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  };
+
   const displayedVariables = variables.map(v => {
     const targetModeId = selectedModeId === 'all' && modes.length > 0 ? modes[0].modeId : selectedModeId;
     const { text, isColor, colorValue } = targetModeId && targetModeId !== 'all'
@@ -245,6 +550,18 @@ const App: React.FC = () => {
                 Output
               </button>
             )}
+            <button
+              style={{ ...styles.tab, borderBottom: activeTab === 'categories' ? '2px solid #18a0fb' : 'none', fontWeight: activeTab === 'categories' ? 600 : 500 }}
+              onClick={() => setActiveTab('categories')}
+            >
+              Categories
+            </button>
+            <button
+              style={{ ...styles.tab, borderBottom: activeTab === 'sync' ? '2px solid #18a0fb' : 'none', fontWeight: activeTab === 'sync' ? 600 : 500 }}
+              onClick={() => setActiveTab('sync')}
+            >
+              Sync
+            </button>
             <button
               style={{ ...styles.tab, borderBottom: activeTab === 'specs' ? '2px solid #18a0fb' : 'none', fontWeight: activeTab === 'specs' ? 600 : 500 }}
               onClick={() => setActiveTab('specs')}
@@ -363,7 +680,7 @@ const App: React.FC = () => {
                           // Update all numeric variables to the new global unit
                           const newMap = new Map<string, string>();
                           variables.forEach(v => {
-                            if (v.type === 'number' || v.type === 'spacing' || v.type === 'borderRadius') {
+                            if (isDimensionTokenType(v.type)) {
                               newMap.set(v.id, newUnit);
                             }
                           });
@@ -443,7 +760,21 @@ const App: React.FC = () => {
                                 <div style={{ fontWeight: 500 }}>{v.name}</div>
                               </td>
                               <td style={styles.td}>
-                                <span style={styles.badge}>{v.type}</span>
+                                {getCompatibleTokenTypes(v.type).length > 1 ? (
+                                  <select
+                                    style={{ ...styles.select, fontSize: '11px', padding: '2px 4px', minWidth: '60px', fontWeight: v.typeOverridden ? 600 : 'normal' }}
+                                    value={v.typeOverridden ? v.type : ''}
+                                    title={v.typeOverridden ? 'Type set manually' : 'Type inferred from scopes and name'}
+                                    onChange={(e) => handleSetVariableType(v.id, e.target.value as TokenType | '')}
+                                  >
+                                    <option value="">{v.typeOverridden ? 'Auto' : `${v.type} (auto)`}</option>
+                                    {getCompatibleTokenTypes(v.type).map(t => (
+                                      <option key={t} value={t}>{t}</option>
+                                    ))}
+                                  </select>
+                                ) : (
+                                  <span style={styles.badge}>{v.type}</span>
+                                )}
                               </td>
                               <td style={styles.td}>
                                 <div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
@@ -462,7 +793,7 @@ const App: React.FC = () => {
                                 </div>
                               </td>
                               <td style={styles.td}>
-                                {(v.type === 'number' || v.type === 'spacing' || v.type === 'borderRadius') ? (
+                                {isDimensionTokenType(v.type) ? (
                                   <select
                                     style={{ ...styles.select, fontSize: '11px', padding: '2px 4px', minWidth: '60px' }}
                                     value={unitPerVariable.get(v.id) || unitFormat}
@@ -519,41 +850,197 @@ const App: React.FC = () => {
                 {selectedCollectionId && variables.length > 0 ? (
                   <>
                     <div style={styles.controls}>
+                      <div style={styles.controlGroup}>
+                        <label style={styles.label}>Scope</label>
+                        <select style={styles.select} value={exportScope} onChange={handleSelectExportScope}>
+                          <option value="collection">This collection</option>
+                          <option value="combined">All collections (combined)</option>
+                          <option value="per-collection">All collections (file per collection)</option>
+                        </select>
+                      </div>
                       <div style={styles.controlGroup}>
                         <label style={styles.label}>Format</label>
-                        <select style={styles.select} value={outputFormat} onChange={(e) => setOutputFormat(e.target.value as any)}>
-                          <option value="css">CSS Variables</option>
-                          <option value="scss">SCSS Variables</option>
-                          <option value="json">JSON</option>
-                          <option value="dtcg">Design Tokens (W3C)</option>
+                        <select style={styles.select} value={outputFormat === 'template' ? `template:${activeTemplateId}` : outputFormat} onChange={handleSelectFormat}>
+                          {EXPORT_FORMATS.map(f => (
+                            <option key={f.value} value={f.value}>{f.label}</option>
+                          ))}
+                          <optgroup label="Templates">
+                            {templates.map(t => (
+                              <option key={t.id} value={`template:${t.id}`}>{t.name}</option>
+                            ))}
+                            <option value="template:new">+ New template…</option>
+                          </optgroup>
                         </select>
                       </div>
+                      {outputFormat === 'css' && selectedModeId === 'all' && modes.length > 1 && (
+                        <>
+                          <div style={styles.controlGroup}>
+                            <label style={styles.label}>Default Mode</label>
+                            <select style={styles.select} value={defaultModeId || modes[0].modeId} onChange={(e) => setDefaultModeId(e.target.value)}>
+                              {modes.map(m => (
+                                <option key={m.modeId} value={m.modeId}>{m.name}</option>
+                              ))}
+                            </select>
+                          </div>
+                          <div style={styles.controlGroup}>
+                            <label style={styles.label}>Other Modes</label>
+                            <select style={styles.select} value={cssThemeStrategy} onChange={(e) => setCssThemeStrategy(e.target.value as CssThemeStrategy)}>
+                              <option value="data-attribute">[data-theme="…"]</option>
+                              <option value="class">.theme-…</option>
+                              <option value="media-query">prefers-color-scheme</option>
+                            </select>
+                          </div>
+                        </>
+                      )}
+                      {outputFormat === 'dtcg' && selectedModeId === 'all' && modes.length > 1 && (
+                        <div style={styles.controlGroup}>
+                          <label style={styles.label}>Modes</label>
+                          <select style={styles.select} value={dtcgModeLayout} onChange={(e) => setDtcgModeLayout(e.target.value as 'extensions' | 'files')}>
+                            <option value="extensions">$extensions.mode</option>
+                            <option value="files">One file per mode</option>
+                          </select>
+                        </div>
+                      )}
+                      {outputFormat === 'ts' && (
+                        <div style={styles.controlGroup}>
+                          <label style={styles.label}>Helpers</label>
+                          <label style={{ display: 'flex', alignItems: 'center', gap: 4, fontSize: '11px', cursor: 'pointer', height: '32px' }}>
+                            <input
+                              type="checkbox"
+                              checked={tsCssVarHelper}
+                              onChange={(e) => setTsCssVarHelper(e.target.checked)}
+                            />
+                            Include cssVar()
+                          </label>
+                        </div>
+                      )}
                     </div>
-                    {selectedModeId === 'all' && modes.length > 1 && (
+                    {outputFormat === 'template' && activeTemplate && (
+                      <div style={{ display: 'flex', flexDirection: 'column', gap: 8 }}>
+                        <div style={styles.controls}>
+                          <div style={styles.controlGroup}>
+                            <label style={styles.label}>Template Name</label>
+                            <input
+                              style={styles.input}
+                              type="text"
+                              value={activeTemplate.name}
+                              onChange={(e) => updateActiveTemplate({ name: e.target.value })}
+                            />
+                          </div>
+                          <div style={styles.controlGroup}>
+                            <label style={styles.label}>File Extension</label>
+                            <input
+                              style={styles.input}
+                              type="text"
+                              placeholder="e.g. yaml"
+                              value={activeTemplate.extension}
+                              onChange={(e) => updateActiveTemplate({ extension: e.target.value.replace(/^\./, '') })}
+                            />
+                          </div>
+                          <div style={{ display: 'flex', alignItems: 'flex-end', gap: 8 }}>
+                            <button style={styles.buttonPrimary} onClick={handleSaveTemplates}>
+                              Save
+                            </button>
+                            <button style={styles.buttonSecondary} onClick={handleDeleteTemplate}>
+                              Delete
+                            </button>
+                          </div>
+                        </div>
+                        <textarea
+                          style={{ ...styles.codeBlock, flex: 'none', height: 160, borderRadius: 6, whiteSpace: 'pre' }}
+                          spellCheck={false}
+                          value={activeTemplate.source}
+                          onChange={(e) => updateActiveTemplate({ source: e.target.value })}
+                        />
+                        <div style={{ fontSize: '11px', color: '#666' }}>
+                          Use <code>{`{{#tokens}}…{{/tokens}}`}</code> or <code>{`{{#groups}}…{{/groups}}`}</code> to loop, <code>{`{{name}}`}</code>, <code>{`{{path}}`}</code>, <code>{`{{cssName}}`}</code>, <code>{`{{type}}`}</code>, <code>{`{{value}}`}</code>, <code>{`{{description}}`}</code> for token fields, and <code>{`{{#modes}}{{name}}: {{value}}{{/modes}}`}</code> for per-mode values.
+                        </div>
+                      </div>
+                    )}
+                    <div style={styles.controls}>
+                      <div style={styles.controlGroup}>
+                        <label style={styles.label}>Transforms</label>
+                        <select style={styles.select} value={transformPreset} onChange={(e) => setTransformPreset(e.target.value)}>
+                          {Object.keys(TRANSFORM_PRESETS).map(preset => (
+                            <option key={preset} value={preset} title={TRANSFORM_PRESETS[preset].join(' → ')}>{preset}</option>
+                          ))}
+                        </select>
+                      </div>
+                      <div style={styles.controlGroup}>
+                        <label style={styles.label}>Naming</label>
+                        <select style={styles.select} value={namingCase} onChange={(e) => setNamingCase(e.target.value as NamingCase | '')}>
+                          <option value="">Format default</option>
+                          <option value="kebab">kebab-case</option>
+                          <option value="camel">camelCase</option>
+                          <option value="snake">snake_case</option>
+                          <option value="constant">CONSTANT_CASE</option>
+                        </select>
+                      </div>
+                      <div style={styles.controlGroup}>
+                        <label style={styles.label}>Prefix</label>
+                        <input
+                          style={styles.input}
+                          type="text"
+                          placeholder="e.g. acme"
+                          value={namingPrefix}
+                          onChange={(e) => setNamingPrefix(e.target.value)}
+                        />
+                      </div>
+                      <div style={styles.controlGroup}>
+                        <label style={styles.label}>Strip Segments</label>
+                        <input
+                          style={styles.input}
+                          type="text"
+                          placeholder="e.g. color/, size/"
+                          value={stripSegments}
+                          onChange={(e) => setStripSegments(e.target.value)}
+                        />
+                      </div>
+                    </div>
+                    <div style={styles.controls}>
+                      <div style={{ ...styles.controlGroup, flex: 1 }}>
+                        <label style={styles.label}>Bundle</label>
+                        <div style={{ display: 'flex', flexWrap: 'wrap', gap: '4px 12px' }}>
+                          {EXPORT_FORMATS.map(f => (
+                            <label key={f.value} style={{ display: 'flex', alignItems: 'center', gap: 4, fontSize: '11px', cursor: 'pointer' }}>
+                              <input
+                                type="checkbox"
+                                checked={bundleTargets.includes(f.value)}
+                                onChange={(e) => toggleBundleTarget(f.value, e.target.checked)}
+                              />
+                              {f.label}
+                            </label>
+                          ))}
+                        </div>
+                      </div>
+                      <div style={{ display: 'flex', alignItems: 'flex-end' }}>
+                        <button
+                          style={styles.buttonPrimary}
+                          onClick={handleDownloadBundle}
+                          disabled={bundleTargets.length === 0 || (exportScope !== 'collection' && !allCollectionsData)}
+                        >
+                          Download bundle
+                        </button>
+                      </div>
+                    </div>
+                    {exportScope === 'collection' && selectedModeId === 'all' && modes.length > 1 && (
                       <div style={{ padding: 8, background: '#f0f9ff', color: '#0369a1', borderRadius: 4, fontSize: '11px' }}>
                         <strong>Note:</strong> Showing values for all modes (using first mode as default)
                       </div>
                     )}
+                    {exportScope !== 'collection' && (
+                      <div style={{ padding: 8, background: '#f0f9ff', color: '#0369a1', borderRadius: 4, fontSize: '11px' }}>
+                        <strong>Note:</strong> Every mode of every collection is exported. Modes are matched by name; single-mode collections apply to all modes.
+                      </div>
+                    )}
                     <div style={{ flex: 1, display: 'flex', flexDirection: 'column', border: '1px solid #333', borderRadius: 6, overflow: 'hidden' }}>
                       <div style={styles.toolbar}>
                         <div style={styles.toolbarTitle}>Output Preview</div>
                         <button
                           style={styles.buttonSecondary}
                           onClick={() => {
-                            const exportModes = selectedModeId === 'all'
-                              ? modes.map(m => ({ modeId: m.modeId, name: m.name }))
-                              : modes.filter(m => m.modeId === selectedModeId).map(m => ({ modeId: m.modeId, name: m.name }));
-
                             const el = document.createElement('textarea');
-                            el.value = generateExport(variables, {
-                              format: outputFormat,
-                              modes: exportModes,
-                              aliasMode: aliasDisplayMode,
-                              colorFormat,
-                              unitFormat,
-                              baseFontSize: 16,
-                              unitPerVariable: unitPerVariable
-                            }, collections.find(c => c.id === selectedCollectionId)?.name || 'Tokens');
+                            el.value = generateOutput();
                             document.body.appendChild(el);
                             el.select();
                             document.execCommand('copy');
@@ -566,22 +1053,27 @@ const App: React.FC = () => {
                       <textarea
                         readOnly
                         style={styles.codeBlock}
-                        value={generateExport(variables, {
-                          format: outputFormat,
-                          modes: selectedModeId === 'all'
-                            ? modes.map(m => ({ modeId: m.modeId, name: m.name }))
-                            : modes.filter(m => m.modeId === selectedModeId).map(m => ({ modeId: m.modeId, name: m.name })),
-                          aliasMode: aliasDisplayMode,
-                          colorFormat,
-                          unitFormat,
-                          baseFontSize: 16,
-                          unitPerVariable: unitPerVariable
-                        }, collections.find(c => c.id === selectedCollectionId)?.name || 'Tokens')}
+                        value={generateOutput()}
                       />
                     </div>
                     {outputFormat === 'dtcg' && (
                       <div style={{ padding: 12, background: '#e6fffa', color: '#2c7a7b', borderRadius: 6, fontSize: '11px' }}>
-                        <strong>Note:</strong> W3C Design Tokens export uses the selected mode and formatting.
+                        <strong>Note:</strong> W3C Design Tokens export follows the DTCG format: aliases use <code>{`{group.token}`}</code> and the first mode provides <code>$value</code>.
+                      </div>
+                    )}
+                    {outputFormat === 'swift' && (
+                      <div style={{ padding: 12, background: '#e6fffa', color: '#2c7a7b', borderRadius: 6, fontSize: '11px' }}>
+                        <strong>Note:</strong> Swift export always uses resolved values. Colors switch between the light and dark modes via the trait collection.
+                      </div>
+                    )}
+                    {outputFormat === 'android' && (
+                      <div style={{ padding: 12, background: '#e6fffa', color: '#2c7a7b', borderRadius: 6, fontSize: '11px' }}>
+                        <strong>Note:</strong> Dark mode colors that differ are written to <code>values-night</code>. Font sizes use sp, other dimensions use dp.
+                      </div>
+                    )}
+                    {outputFormat === 'tailwind' && (
+                      <div style={{ padding: 12, background: '#e6fffa', color: '#2c7a7b', borderRadius: 6, fontSize: '11px' }}>
+                        <strong>Note:</strong> Tailwind config uses the first selected mode. Use Alias values with the CSS output to keep themes in sync.
                       </div>
                     )}
                   </>
@@ -596,6 +1088,213 @@ const App: React.FC = () => {
               </div>
             )}
 
+            {/* CATEGORIES TAB */}
+            {activeTab === 'categories' && (
+              <div style={{ display: 'flex', flexDirection: 'column', gap: 12, padding: 12, overflow: 'auto' }}>
+                <div style={{ fontSize: '11px', color: '#666' }}>
+                  Rules decide where scanned tokens land. The first matching rule wins; empty fields match anything and unmatched tokens use the built-in naming heuristics.
+                  Names and collections accept globs (<code>Brand/*</code>) or regular expressions (<code>/^grid-\d+$/</code>).
+                </div>
+
+                <table style={styles.table}>
+                  <thead>
+                    <tr>
+                      <th style={styles.th}>#</th>
+                      <th style={styles.th}>Collection</th>
+                      <th style={styles.th}>Name</th>
+                      <th style={styles.th}>Type</th>
+                      <th style={styles.th}>Alias</th>
+                      <th style={styles.th}>Category</th>
+                      <th style={styles.th}></th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {categoryRules.map((rule, index) => (
+                      <tr key={rule.id}>
+                        <td style={styles.td}>{index + 1}</td>
+                        <td style={styles.td}>
+                          <input
+                            style={{ ...styles.input, width: '100%', boxSizing: 'border-box' }}
+                            type="text"
+                            placeholder="Any"
+                            value={rule.collection || ''}
+                            onChange={(e) => updateCategoryRule(rule.id, { collection: e.target.value || undefined })}
+                          />
+                        </td>
+                        <td style={styles.td}>
+                          <input
+                            style={{ ...styles.input, width: '100%', boxSizing: 'border-box' }}
+                            type="text"
+                            placeholder="Any"
+                            value={rule.name || ''}
+                            onChange={(e) => updateCategoryRule(rule.id, { name: e.target.value || undefined })}
+                          />
+                        </td>
+                        <td style={styles.td}>
+                          <select
+                            style={styles.select}
+                            value={rule.resolvedType || ''}
+                            onChange={(e) => updateCategoryRule(rule.id, { resolvedType: e.target.value || undefined })}
+                          >
+                            <option value="">Any</option>
+                            <option value="COLOR">Color variable</option>
+                            <option value="FLOAT">Number variable</option>
+                            <option value="STRING">String variable</option>
+                            <option value="BOOLEAN">Boolean variable</option>
+                            <option value="PAINT">Paint style</option>
+                            <option value="TEXT">Text style</option>
+                            <option value="EFFECT">Effect style</option>
+                            <option value="GRID">Grid style</option>
+                          </select>
+                        </td>
+                        <td style={styles.td}>
+                          <select
+                            style={styles.select}
+                            value={rule.isAlias === undefined ? '' : String(rule.isAlias)}
+                            onChange={(e) => updateCategoryRule(rule.id, { isAlias: e.target.value === '' ? undefined : e.target.value === 'true' })}
+                          >
+                            <option value="">Any</option>
+                            <option value="true">Alias</option>
+                            <option value="false">Value</option>
+                          </select>
+                        </td>
+                        <td style={styles.td}>
+                          <input
+                            style={{ ...styles.input, width: '100%', boxSizing: 'border-box' }}
+                            type="text"
+                            list="built-in-categories"
+                            value={rule.category}
+                            onChange={(e) => updateCategoryRule(rule.id, { category: e.target.value })}
+                          />
+                        </td>
+                        <td style={{ ...styles.td, whiteSpace: 'nowrap' }}>
+                          <button style={{ ...styles.buttonSecondary, padding: '4px 8px' }} onClick={() => moveCategoryRule(index, -1)} title="Move up">↑</button>
+                          <button style={{ ...styles.buttonSecondary, padding: '4px 8px' }} onClick={() => moveCategoryRule(index, 1)} title="Move down">↓</button>
+                          <button style={{ ...styles.buttonSecondary, padding: '4px 8px' }} onClick={() => removeCategoryRule(rule.id)} title="Remove rule">✕</button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                <datalist id="built-in-categories">
+                  {BUILT_IN_CATEGORIES.map(c => <option key={c} value={c} />)}
+                </datalist>
+
+                <div style={{ display: 'flex', gap: 8 }}>
+                  <button style={styles.buttonSecondary} onClick={addCategoryRule}>+ Add rule</button>
+                  <button style={styles.buttonSecondary} onClick={handlePreviewCategories} disabled={loading}>Preview</button>
+                  <button style={styles.buttonPrimary} onClick={handleSaveCategoryRules}>Save rules</button>
+                </div>
+
+                {categoryPreview && (
+                  <table style={styles.table}>
+                    <thead>
+                      <tr>
+                        <th style={styles.th}>Name</th>
+                        <th style={styles.th}>Collection</th>
+                        <th style={styles.th}>Type</th>
+                        <th style={styles.th}>Category</th>
+                        <th style={styles.th}>Matched by</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {categoryPreview.map((item, index) => (
+                        <tr key={index}>
+                          <td style={styles.td}>{item.name}</td>
+                          <td style={styles.td}>{item.collectionName}</td>
+                          <td style={styles.td}>{item.resolvedType}{item.isAlias ? ' (alias)' : ''}</td>
+                          <td style={{ ...styles.td, fontWeight: 600 }}>{item.category}</td>
+                          <td style={{ ...styles.td, color: '#888' }}>{item.ruleIndex >= 0 ? `Rule ${item.ruleIndex + 1}` : 'Built-in'}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </div>
+            )}
+
+            {/* SYNC TAB */}
+            {activeTab === 'sync' && (
+              <div style={{ display: 'flex', flexDirection: 'column', gap: 12, padding: 12, overflow: 'auto' }}>
+                <div style={{ fontSize: '11px', color: '#666' }}>
+                  Write stored tokens back to the Primitives and Semantic variable collections.
+                  Preview the changes first; nothing in the document is touched until they are applied.
+                </div>
+
+                <div style={{ display: 'flex', gap: 8 }}>
+                  <button style={styles.buttonSecondary} onClick={handleLoadSyncTokens} disabled={loading}>Load saved tokens</button>
+                  <button style={styles.buttonSecondary} onClick={handleScanSyncTokens} disabled={loading}>Scan document</button>
+                  <button style={styles.buttonPrimary} onClick={handlePlanSync} disabled={loading || !syncTokens}>Preview changes</button>
+                </div>
+
+                <div style={styles.controlGroup}>
+                  <label style={styles.label}>Base font size (px)</label>
+                  <input
+                    style={{ ...styles.input, width: 80 }}
+                    type="number"
+                    min={1}
+                    value={syncBaseFontSize}
+                    onChange={(e) => {
+                      setSyncBaseFontSize(e.target.value);
+                      setSyncPlan(null);
+                    }}
+                    title="Used to convert rem and em values to px"
+                  />
+                </div>
+
+                {syncMessage && <div style={{ fontSize: '11px', fontWeight: 600 }}>{syncMessage}</div>}
+
+                {syncPlan && (
+                  <>
+                    <div style={{ fontSize: '11px' }}>
+                      {syncPlan.created} to create, {syncPlan.updated} to update, {syncPlan.skipped.length} skipped
+                    </div>
+                    {syncPlan.errors.map((message, index) => (
+                      <div key={index} style={styles.error}>{message}</div>
+                    ))}
+
+                    {syncPlan.changes.length === 0 ? (
+                      <div style={{ fontSize: '11px', color: '#666' }}>Figma is already up to date.</div>
+                    ) : (
+                      <table style={styles.table}>
+                        <thead>
+                          <tr>
+                            <th style={styles.th}>Change</th>
+                            <th style={styles.th}>Token</th>
+                            <th style={styles.th}>Mode</th>
+                            <th style={styles.th}>Current</th>
+                            <th style={styles.th}>New</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {syncPlan.changes.map((change, index) => (
+                            <tr key={index}>
+                              <td style={{ ...styles.td, fontWeight: 600 }}>{SYNC_ACTION_LABELS[change.action]}</td>
+                              <td style={styles.td}>{change.path}</td>
+                              <td style={styles.td}>{change.mode || ''}</td>
+                              <td style={{ ...styles.td, color: '#888' }}>{change.oldValue ?? ''}</td>
+                              <td style={styles.td}>{change.newValue ?? ''}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    )}
+
+                    {syncPlan.skipped.length > 0 && (
+                      <div style={{ fontSize: '11px', color: '#888' }}>
+                        {syncPlan.skipped.map(s => <div key={s.path}>Skipped {s.path}: {s.reason}</div>)}
+                      </div>
+                    )}
+
+                    <div style={{ display: 'flex', gap: 8 }}>
+                      <button style={styles.buttonPrimary} onClick={handleApplySync} disabled={loading || syncPlan.changes.length === 0}>Apply changes</button>
+                      <button style={styles.buttonSecondary} onClick={() => setSyncPlan(null)}>Discard</button>
+                    </div>
+                  </>
+                )}
+              </div>
+            )}
+
             {/* SPECS TAB */}
             {activeTab === 'specs' && (
               <div style={{ padding: 20, overflow: 'auto' }}>
@@ -733,6 +1432,13 @@ const styles: { [key: string]: React.CSSProperties } = {
     fontSize: '12px',
     fontFamily: 'inherit'
   },
+  input: {
+    padding: '8px',
+    borderRadius: 6,
+    border: '1px solid #e5e5e5',
+    fontSize: '12px',
+    fontFamily: 'inherit'
+  },
   table: {
     width: '100%',
     borderCollapse: 'collapse',